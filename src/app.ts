@@ -5,37 +5,93 @@ import { config } from './config';
 import authRoutes from './routes/auth';
 import emotionCookiesRoutes from './routes/emotionCookies';
 import syncRoutes from './routes/sync';
+import goalsRoutes from './routes/goals';
 import aiRoutes from './routes/ai';
+import aiKeyRoutes from './routes/aiKey';
+import aiResultsRoutes from './routes/aiResults';
+import usageRoutes from './routes/usage';
+import vipRoutes from './routes/vip';
+import accountRoutes from './routes/account';
+import settingsRoutes from './routes/settings';
+import statsRoutes from './routes/stats';
+import promptsRoutes from './routes/prompts';
+import fortuneRoutes from './routes/fortune';
+import searchRoutes from './routes/search';
+import adminPromptsRoutes from './routes/adminPrompts';
+import adminFortuneLibraryRoutes from './routes/adminFortuneLibrary';
+import adminRoutes from './routes/admin';
+import { startAccountPurgeTimer } from './services/account';
+import { requestContextMiddleware } from './middleware/requestContext';
+import { sendError, errorHandler, notFoundHandler } from './middleware/errors';
+import { tokenMatches } from './middleware/admin';
+import { createLogger } from './services/logger';
+import { renderMetrics } from './services/metrics';
+import { checkDatabase } from './db';
 
 const app = express();
 const PORT = config.port;
+const log = createLogger('app');
 
 // 中间件
-app.use(cors());
-app.use(express.json());
-// 开发调试：打印请求日志
-app.use((req, _res, next) => {
-  if (req.path.startsWith('/api/')) {
-    console.log(`[${new Date().toISOString()}] ${req.method} ${req.path} <- ${req.ip || req.socket?.remoteAddress}`);
-  }
-  next();
-});
-app.use(express.urlencoded({ extended: true }));
+// 最先执行：分配请求 ID，之后的日志都带上它；结束时写访问日志与指标
+app.use(requestContextMiddleware);
+app.use(cors({ exposedHeaders: ['X-Request-Id'] }));
+// 微信支付回调需用原始请求体验签
+app.use('/api/vip/notify', express.raw({ type: '*/*', limit: '64kb' }));
+// 其余 JSON 请求体由各路由的 validate 按各自的大小上限解析（见 middleware/validate）
 
 // 路由
+// 健康检查：数据库可查询且结构版本为最新时返回 200，否则 503
 app.get('/api/health', (req, res) => {
-  res.json({ status: 'ok', message: '情绪饼干屋后端服务运行中' });
+  const database = checkDatabase();
+  const ok = database.status === 'ok';
+  res.status(ok ? 200 : 503).json({
+    status: ok ? 'ok' : 'error',
+    message: ok ? '情绪饼干屋后端服务运行中' : '数据库不可用',
+    checks: { database },
+  });
+});
+
+// Prometheus 指标；配置了 METRICS_TOKEN 时需带 Authorization: Bearer <token>
+app.get('/metrics', (req, res) => {
+  if (config.metrics.token && !tokenMatches(req.get('authorization') ?? '', `Bearer ${config.metrics.token}`)) {
+    sendError(res, 401, '未授权');
+    return;
+  }
+  res.type('text/plain; version=0.0.4').send(renderMetrics());
 });
 
 app.use('/api/auth', authRoutes);
 app.use('/api/emotion-cookies', emotionCookiesRoutes);
 app.use('/api/sync', syncRoutes);
+// 需挂在 aiRoutes 之前；POST /api/goals/split 不会被本路由匹配，仍由 aiRoutes 处理
+app.use('/api/goals', goalsRoutes);
+app.use('/api/ai-key', aiKeyRoutes);
+app.use('/api/ai-results', aiResultsRoutes);
+app.use('/api/usage', usageRoutes);
+app.use('/api/vip', vipRoutes);
+app.use('/api/account', accountRoutes);
+app.use('/api/settings', settingsRoutes);
+app.use('/api/stats', statsRoutes);
+app.use('/api/prompts', promptsRoutes);
+app.use('/api/search', searchRoutes);
+// 同 /api/goals：POST /api/fortune/generate 不会被本路由匹配，仍由 aiRoutes 处理
+app.use('/api/fortune', fortuneRoutes);
+app.use('/api/admin/prompts', adminPromptsRoutes);
+app.use('/api/admin/fortune-library', adminFortuneLibraryRoutes);
+// 需挂在其他 /api/admin/* 路由之后，否则其鉴权与审计中间件会对同一请求重复执行
+app.use('/api/admin', adminRoutes);
 app.use('/api', aiRoutes);
 
+// 兜底：未匹配的路由与未处理的异常都返回 JSON 错误体，需挂在所有路由之后
+app.use(notFoundHandler);
+app.use(errorHandler);
+
 // 启动服务器：监听 0.0.0.0 以便真机调试时手机能访问
 app.listen(PORT, '0.0.0.0', () => {
-  console.log(`服务器运行在 http://localhost:${PORT}`);
-  console.log(`真机调试请用电脑局域网 IP 访问，如 http://192.168.88.95:${PORT}`);
+  startAccountPurgeTimer();
+  log.info(`服务器运行在 http://localhost:${PORT}`);
+  log.info(`真机调试请用电脑局域网 IP 访问，如 http://192.168.88.95:${PORT}`);
 });
 
 export default app;
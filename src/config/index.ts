@@ -4,22 +4,159 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+// 配置先于日志器加载（日志器依赖配置中的日志级别），告警先暂存，由日志器加载时以 module=config 输出
+const pendingWarnings: Array<{ msg: string; fields: Record<string, unknown> }> = [];
+
+/** 取出并清空加载配置时产生的告警 */
+export function takeConfigWarnings(): Array<{ msg: string; fields: Record<string, unknown> }> {
+  return pendingWarnings.splice(0);
+}
+
 function getEnv(key: string, defaultValue?: string): string {
   const value = process.env[key] ?? defaultValue;
   if (!value && (key === 'WECHAT_APPID' || key === 'WECHAT_SECRET' || key === 'JWT_SECRET')) {
-    console.warn(`[config] 未设置 ${key}，登录相关接口将不可用`);
+    pendingWarnings.push({ msg: '未设置必填配置，登录相关接口将不可用', fields: { key } });
   }
   return value || '';
 }
 
+type LlmTaskOptions = {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  timeoutMs?: number;
+};
+
+function parseJsonEnv<T>(key: string, fallback: T): T {
+  const raw = getEnv(key);
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    pendingWarnings.push({ msg: '配置不是合法 JSON，已忽略', fields: { key } });
+    return fallback;
+  }
+}
+
+/** 正整数配置；未设置或不是正整数时使用默认值（后者同时告警） */
+function parsePositiveIntEnv(key: string, fallback: number): number {
+  const raw = getEnv(key);
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    pendingWarnings.push({ msg: '配置需为正整数，已使用默认值', fields: { key, fallback } });
+    return fallback;
+  }
+  return value;
+}
+
 export const config = {
   wechat: {
     appId: getEnv('WECHAT_APPID'),
     secret: getEnv('WECHAT_SECRET'),
   },
+  wechatPay: {
+    // 微信支付 APIv3（JSAPI 下单）；baseUrl 可指向本地模拟服务联调
+    baseUrl: getEnv('WECHAT_PAY_BASE_URL', 'https://api.mch.weixin.qq.com'),
+    mchId: getEnv('WECHAT_PAY_MCH_ID'),
+    // 商户 API 证书序列号与私钥（PEM 文件路径），用于请求签名与小程序调起支付的 paySign
+    serialNo: getEnv('WECHAT_PAY_SERIAL_NO'),
+    privateKeyPath: getEnv('WECHAT_PAY_PRIVATE_KEY_PATH'),
+    apiV3Key: getEnv('WECHAT_PAY_API_V3_KEY'),
+    // 微信支付平台证书或公钥（PEM 文件路径），用于校验支付回调签名
+    platformCertPath: getEnv('WECHAT_PAY_PLATFORM_CERT_PATH'),
+    notifyUrl: getEnv('WECHAT_PAY_NOTIFY_URL'),
+  },
   jwt: {
     secret: getEnv('JWT_SECRET'),
-    expiresIn: '7d',
+    // access token 短期有效，过期后用 refresh token 换新
+    expiresIn: getEnv('JWT_ACCESS_EXPIRES_IN', '15m'),
+    // refresh token 有效天数（每次刷新会轮换并顺延）
+    refreshTtlDays: parseInt(getEnv('JWT_REFRESH_TTL_DAYS', '30'), 10),
+  },
+  vault: {
+    // 用户 AI API Key 加密主密钥（任意长度字符串，内部 SHA-256 派生 AES-256 密钥）；未设置时无法托管密钥
+    masterKey: getEnv('AI_KEY_MASTER_KEY'),
+  },
+  encryption: {
+    // 情绪饼干与同步快照正文的加密主密钥（用于包装每个用户的数据密钥）；未设置时新数据以明文保存
+    masterKey: getEnv('DATA_MASTER_KEY'),
+    // 轮换主密钥期间仍需用来解包的旧主密钥，逗号分隔；npm run db -- rotate-keys 完成后可移除
+    previousMasterKeys: getEnv('DATA_MASTER_KEY_PREVIOUS', '')
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean),
+  },
+  llm: {
+    // deepseek | openai（任意 OpenAI 兼容服务/自建模型） | mock（离线固定输出）
+    provider: getEnv('LLM_PROVIDER', 'deepseek'),
+    deepseekBaseUrl: getEnv('DEEPSEEK_BASE_URL', 'https://api.deepseek.com'),
+    deepseekModel: getEnv('DEEPSEEK_MODEL', 'deepseek-chat'),
+    openaiBaseUrl: getEnv('OPENAI_BASE_URL', 'https://api.openai.com/v1'),
+    openaiModel: getEnv('OPENAI_MODEL', 'gpt-4o-mini'),
+    // 自建模型通常无需鉴权，可设为 false 允许不带 apiKey 调用
+    openaiRequireApiKey: getEnv('OPENAI_REQUIRE_API_KEY', 'true') !== 'false',
+    // 允许用户在 settings.aiProvider 中自选的 provider，逗号分隔；为空则统一用部署默认
+    userSelectableProviders: getEnv('LLM_USER_PROVIDERS', '')
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean),
+    // 按接口覆盖模型参数，如 {"counselorDiary":{"model":"deepseek-reasoner","maxTokens":4000}}
+    taskOptions: parseJsonEnv<Record<string, LlmTaskOptions>>('LLM_TASK_OPTIONS', {}),
+    // 结构化输出（日记、长期分析）校验不合格时最多追加几次修复调用；0 表示不修复，直接用默认值补齐
+    outputRepairAttempts: parseInt(getEnv('LLM_OUTPUT_REPAIR_ATTEMPTS', '1'), 10),
+  },
+  quota: {
+    // 按 vip_level 覆盖每日/每月配额，如 {"free":{"daily":{"diary":5}},"vip":{"monthly":{"longTerm":60}}}；-1 表示不限
+    overrides: parseJsonEnv<Record<string, { daily?: Record<string, number>; monthly?: Record<string, number> }>>(
+      'AI_QUOTAS',
+      {}
+    ),
+    // 统计“自然日”的时区偏移（分钟），默认东八区
+    tzOffsetMinutes: parseInt(getEnv('QUOTA_TZ_OFFSET_MINUTES', '480'), 10),
+    // 突发限流：每个用户 / 每个 IP 在窗口内最多请求数
+    burstWindowMs: parseInt(getEnv('AI_BURST_WINDOW_MS', '60000'), 10),
+    burstPerUser: parseInt(getEnv('AI_BURST_PER_USER', '10'), 10),
+    burstPerIp: parseInt(getEnv('AI_BURST_PER_IP', '30'), 10),
+  },
+  sync: {
+    // 快照历史保留策略：最近 N 个版本 + 最近 D 天每天一个
+    keepVersions: parsePositiveIntEnv('SYNC_KEEP_VERSIONS', 20),
+    keepDailyDays: parsePositiveIntEnv('SYNC_KEEP_DAILY_DAYS', 30),
+  },
+  safety: {
+    // 高风险时展示的求助热线，可按地区覆盖，如 [{"name":"…","phone":"…","hours":"24 小时"}]
+    resources: parseJsonEnv<Array<{ name: string; phone: string; hours?: string; description?: string }> | null>(
+      'SAFETY_RESOURCES',
+      null
+    ),
+  },
+  fortune: {
+    // 去重：与最近 recentDays 天内生成过的任务比较，相似度（字符二元组 Dice 系数）达到阈值视为重复
+    recentDays: parseInt(getEnv('FORTUNE_RECENT_DAYS', '30'), 10),
+    similarityThreshold: parseFloat(getEnv('FORTUNE_SIMILARITY_THRESHOLD', '0.5')),
+    // 每次请求最多调用大模型的次数（含首次），重复时带上避开列表重试
+    maxAttempts: parseInt(getEnv('FORTUNE_MAX_ATTEMPTS', '3'), 10),
+  },
+  admin: {
+    // 管理员账号（请求头 X-Admin-Token 对应其中一个 token），如 {"alice":{"token":"…","role":"operator"}}
+    // role 为 viewer（只读） | operator（可修改 VIP、停用账号、维护提示词与任务库） | superadmin（另可查看审计日志）
+    accounts: parseJsonEnv<Record<string, { token?: string; role?: string }>>('ADMIN_ACCOUNTS', {}),
+    // 旧版单一管理令牌，视为名为 admin 的 superadmin；都为空时管理接口不可用
+    token: getEnv('ADMIN_TOKEN', ''),
+  },
+  account: {
+    // 注销冷静期（天）：期间可撤销，到期后删除全部个人数据
+    deletionGraceDays: parseInt(getEnv('ACCOUNT_DELETION_GRACE_DAYS', '15'), 10),
+  },
+  log: {
+    // debug | info | warn | error；每行一条 JSON，输出到标准输出
+    level: getEnv('LOG_LEVEL', 'info'),
+  },
+  metrics: {
+    // 设置后 GET /metrics 需带 Authorization: Bearer <token>；为空时不鉴权（应只在内网暴露）
+    token: getEnv('METRICS_TOKEN', ''),
   },
   port: parseInt(getEnv('PORT', '3000'), 10),
 };
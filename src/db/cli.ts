@@ -0,0 +1,85 @@
+// 数据库迁移命令行：npm run build 后执行 npm run db -- <status|migrate|backup>
+//   status   查看当前版本与待执行的迁移
+//   migrate  备份后执行待执行的迁移（--no-backup 跳过备份）
+//   backup   立即备份到 data/backups
+//   encrypt  加密尚未加密的存量正文（需配置 DATA_MASTER_KEY）
+//   rotate-keys  用当前 DATA_MASTER_KEY 重新包装旧主密钥包装的数据密钥；--data-keys 同时更换数据密钥并重新加密正文
+//   以上两个命令分批提交，服务运行中也可以执行；主密钥变化时会一并重建搜索索引
+//   reindex  从源数据重建全部用户的搜索索引
+import { db, dbPath } from './connection';
+import { getMigrationStatus, runMigrations, backupDatabase, LATEST_SCHEMA_VERSION } from './migrations';
+import { encryptExistingRows, rewrapDataKeys, rotateDataKeys } from './fieldCrypto';
+import { rebuildSearchIndex, searchIndexIsStale } from './searchIndex';
+
+/** 加密相关命令依赖 user_data_keys 表，数据库需先迁移到最新版本 */
+function requireLatestSchema(): void {
+  const status = getMigrationStatus(db);
+  if (status.pending.length) {
+    throw new Error('有待执行的迁移，请先执行 npm run db -- migrate');
+  }
+}
+
+/** 搜索索引的词元 HMAC 密钥由主密钥派生，主密钥变化后需重建 */
+function rebuildSearchIndexIfStale(): void {
+  if (searchIndexIsStale()) console.log(`已重建搜索索引（${rebuildSearchIndex()} 个用户）`);
+}
+
+function printStatus(): void {
+  const status = getMigrationStatus(db);
+  console.log(`数据库: ${dbPath}`);
+  console.log(`当前版本: ${status.current}，代码最新版本: ${LATEST_SCHEMA_VERSION}`);
+  for (const m of status.applied) console.log(`  [已应用] ${m.version} ${m.name} (${m.appliedAt})`);
+  for (const m of status.pending) console.log(`  [待执行] ${m.version} ${m.name}`);
+  if (status.current > LATEST_SCHEMA_VERSION) {
+    console.log('警告：数据库版本高于代码，服务将拒绝启动');
+  }
+}
+
+function main(): number {
+  const [command, ...flags] = process.argv.slice(2);
+  switch (command) {
+    case 'status':
+      printStatus();
+      return 0;
+    case 'migrate': {
+      const applied = runMigrations(db, { backup: !flags.includes('--no-backup') });
+      console.log(applied.length ? `完成，共应用 ${applied.length} 个迁移` : '没有待执行的迁移');
+      return 0;
+    }
+    case 'backup':
+      console.log(`已备份到 ${backupDatabase(db, 'manual')}`);
+      return 0;
+    case 'encrypt': {
+      requireLatestSchema();
+      const count = encryptExistingRows();
+      console.log(count ? `完成，共加密 ${count} 行` : '没有需要加密的数据');
+      rebuildSearchIndexIfStale();
+      return 0;
+    }
+    case 'rotate-keys': {
+      requireLatestSchema();
+      console.log(`已重新包装 ${rewrapDataKeys()} 把数据密钥`);
+      if (flags.includes('--data-keys')) {
+        console.log(`已更换数据密钥并重新加密 ${rotateDataKeys()} 行`);
+      }
+      rebuildSearchIndexIfStale();
+      return 0;
+    }
+    case 'reindex':
+      requireLatestSchema();
+      console.log(`已重建搜索索引（${rebuildSearchIndex()} 个用户）`);
+      return 0;
+    default:
+      console.log('用法: npm run db -- <status|migrate [--no-backup]|backup|encrypt|rotate-keys [--data-keys]|reindex>');
+      return 1;
+  }
+}
+
+try {
+  process.exitCode = main();
+} catch (e) {
+  console.error(e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+} finally {
+  db.close();
+}
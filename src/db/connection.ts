@@ -0,0 +1,10 @@
+// SQLite 连接：data/emotion_house.db（迁移 CLI 也使用同一连接，不触发自动迁移）
+import Database from 'better-sqlite3';
+import path from 'path';
+import fs from 'fs';
+
+export const dataDir = path.join(process.cwd(), 'data');
+if (!fs.existsSync(dataDir)) fs.mkdirSync(dataDir, { recursive: true });
+export const dbPath = path.join(dataDir, 'emotion_house.db');
+
+export const db = new Database(dbPath);
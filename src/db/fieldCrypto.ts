@@ -0,0 +1,291 @@
+// 字段级加密：情绪饼干、同步快照与 AI 结果的正文用每个用户独立的数据密钥（AES-256-GCM）加密后落库，
+// 数据密钥再由主密钥 DATA_MASTER_KEY 包装保存在 user_data_keys；读写在 db 层完成，对上层透明
+// 密文格式 "enc1:<数据密钥 id>:iv:tag:ciphertext"（后三段 base64），不带前缀的视为尚未加密的明文
+import crypto from 'crypto';
+import { config } from '../config';
+import { db } from './connection';
+
+const ALGORITHM = 'aes-256-gcm';
+const PREFIX = 'enc1';
+const BATCH_SIZE = 200;
+// 已解包的数据密钥缓存，避免每次读写都解包
+const DEK_CACHE_LIMIT = 1000;
+
+/** 需要加密的列；新增加密列时加到这里，存量加密与数据密钥轮换都依赖此列表 */
+export const ENCRYPTED_COLUMNS = [
+  { table: 'emotion_cookies', column: 'data' },
+  { table: 'sync_snapshot', column: 'data' },
+  { table: 'sync_snapshot_versions', column: 'data' },
+  { table: 'search_docs', column: 'content' },
+  // request 含全部条目原文，result 为据此生成的分析
+  { table: 'ai_results', column: 'request' },
+  { table: 'ai_results', column: 'result' },
+] as const;
+
+export type EncryptedColumn = (typeof ENCRYPTED_COLUMNS)[number];
+export type EncryptedScope = `${EncryptedColumn['table']}.${EncryptedColumn['column']}`;
+
+interface DataKeyRow {
+  id: number;
+  user_id: number;
+  wrapped_key: string;
+  master_key_id: string;
+  active: number;
+  created_at: string;
+}
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+const dekCache = new Map<number, Buffer>();
+
+function deriveMasterKey(secret: string): MasterKey {
+  const key = crypto.createHash('sha256').update(secret).digest();
+  // id 只用于区分密钥，不能反推出密钥本身
+  const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+  return { id, key };
+}
+
+export function isFieldEncryptionEnabled(): boolean {
+  return !!config.encryption.masterKey;
+}
+
+function currentMasterKey(): MasterKey {
+  if (!config.encryption.masterKey) {
+    throw new Error('服务端未配置 DATA_MASTER_KEY');
+  }
+  return deriveMasterKey(config.encryption.masterKey);
+}
+
+function findMasterKey(id: string): MasterKey {
+  const secrets = [config.encryption.masterKey, ...config.encryption.previousMasterKeys].filter(Boolean);
+  for (const secret of secrets) {
+    const candidate = deriveMasterKey(secret);
+    if (candidate.id === id) return candidate;
+  }
+  throw new Error(`找不到主密钥 ${id}，请在 DATA_MASTER_KEY 或 DATA_MASTER_KEY_PREVIOUS 中配置`);
+}
+
+/**
+ * 从当前主密钥派生用途专用的子密钥（如搜索索引的 HMAC 密钥）；未配置主密钥时退化为只按用途派生的固定值
+ * 主密钥变化后子密钥随之变化，依赖它的数据需重建
+ */
+export function deriveSubkey(purpose: string): Buffer {
+  if (!isFieldEncryptionEnabled()) return crypto.createHash('sha256').update(purpose).digest();
+  return crypto.createHmac('sha256', currentMasterKey().key).update(purpose).digest();
+}
+
+/** 低层加密："iv:tag:ciphertext"，aad 把密文绑定到用途（用户与列），挪到别处解不开 */
+function seal(key: Buffer, plain: Buffer, aad: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad, 'utf8'));
+  const encrypted = Buffer.concat([cipher.update(plain), cipher.final()]);
+  return [iv.toString('base64'), cipher.getAuthTag().toString('base64'), encrypted.toString('base64')].join(':');
+}
+
+function open(key: Buffer, payload: string, aad: string): Buffer {
+  const [iv, tag, encrypted] = payload.split(':');
+  if (!iv || !tag || !encrypted) throw new Error('密文格式不正确');
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAAD(Buffer.from(aad, 'utf8'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]);
+}
+
+function wrapAad(userId: number): string {
+  return `dek|${userId}`;
+}
+
+function cacheDek(id: number, key: Buffer): void {
+  if (dekCache.size >= DEK_CACHE_LIMIT) dekCache.clear();
+  dekCache.set(id, key);
+}
+
+function unwrapDek(row: DataKeyRow): Buffer {
+  const cached = dekCache.get(row.id);
+  if (cached) return cached;
+  const key = open(findMasterKey(row.master_key_id).key, row.wrapped_key, wrapAad(row.user_id));
+  cacheDek(row.id, key);
+  return key;
+}
+
+function createDataKey(userId: number): DataKeyRow {
+  const master = currentMasterKey();
+  const key = crypto.randomBytes(32);
+  const now = new Date().toISOString();
+  const run = db.transaction(() => {
+    db.prepare('UPDATE user_data_keys SET active = 0 WHERE user_id = ? AND active = 1').run(userId);
+    const result = db
+      .prepare(
+        `INSERT INTO user_data_keys (user_id, wrapped_key, master_key_id, active, created_at)
+         VALUES (?, ?, ?, 1, ?)`
+      )
+      .run(userId, seal(master.key, key, wrapAad(userId)), master.id, now);
+    return db.prepare('SELECT * FROM user_data_keys WHERE id = ?').get(result.lastInsertRowid) as DataKeyRow;
+  });
+  const row = run();
+  cacheDek(row.id, key);
+  return row;
+}
+
+function getActiveDataKey(userId: number): DataKeyRow {
+  const row = db
+    .prepare('SELECT * FROM user_data_keys WHERE user_id = ? AND active = 1')
+    .get(userId) as DataKeyRow | undefined;
+  return row ?? createDataKey(userId);
+}
+
+function fieldAad(scope: EncryptedScope, userId: number): string {
+  return `${scope}|${userId}`;
+}
+
+export function isEncryptedValue(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`);
+}
+
+/** 加密一个字段值；未配置主密钥时原样返回（明文保存） */
+export function encryptField(userId: number, scope: EncryptedScope, plain: string): string {
+  if (!isFieldEncryptionEnabled()) return plain;
+  const row = getActiveDataKey(userId);
+  return `${PREFIX}:${row.id}:${seal(unwrapDek(row), Buffer.from(plain, 'utf8'), fieldAad(scope, userId))}`;
+}
+
+/** 解密一个字段值；明文（尚未加密的存量数据）原样返回 */
+export function decryptField(userId: number, scope: EncryptedScope, stored: string): string {
+  if (!isEncryptedValue(stored)) return stored;
+  const rest = stored.slice(PREFIX.length + 1);
+  const sep = rest.indexOf(':');
+  const keyId = parseInt(rest.slice(0, sep), 10);
+  const row = db
+    .prepare('SELECT * FROM user_data_keys WHERE id = ? AND user_id = ?')
+    .get(keyId, userId) as DataKeyRow | undefined;
+  if (!row) throw new Error(`用户 ${userId} 的数据密钥 ${keyId} 不存在`);
+  return open(unwrapDek(row), rest.slice(sep + 1), fieldAad(scope, userId)).toString('utf8');
+}
+
+/** 删除用户的全部数据密钥（账号注销时调用，已删除的密文即便留在备份中也无法再解密） */
+export function deleteUserDataKeys(userId: number): void {
+  const ids = db.prepare('SELECT id FROM user_data_keys WHERE user_id = ?').all(userId) as Array<{ id: number }>;
+  db.prepare('DELETE FROM user_data_keys WHERE user_id = ?').run(userId);
+  for (const { id } of ids) dekCache.delete(id);
+}
+
+/** 早期迁移执行时，后续版本才创建的加密表还不存在 */
+function tableExists(table: string): boolean {
+  return !!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table);
+}
+
+/**
+ * 按批次改写某列：rewrite 返回新值，返回 undefined 表示跳过
+ * 每批一个事务，服务运行期间也可以执行，不会长时间锁库
+ */
+function rewriteColumn(
+  target: EncryptedColumn,
+  filter: string,
+  rewrite: (userId: number, value: string) => string | undefined
+): number {
+  if (!tableExists(target.table)) return 0;
+  let changed = 0;
+  let lastRowId = 0;
+  for (;;) {
+    const rows = db
+      .prepare(
+        `SELECT rowid AS rid, user_id, ${target.column} AS value FROM ${target.table}
+         WHERE rowid > ? AND ${filter} ORDER BY rowid LIMIT ?`
+      )
+      .all(lastRowId, BATCH_SIZE) as Array<{ rid: number; user_id: number; value: string }>;
+    if (!rows.length) return changed;
+    const update = db.prepare(`UPDATE ${target.table} SET ${target.column} = ? WHERE rowid = ? AND ${target.column} = ?`);
+    const run = db.transaction(() => {
+      for (const r of rows) {
+        const next = rewrite(r.user_id, r.value);
+        // 条件里带上旧值：批次执行期间被用户覆盖写入的行不会被改回旧内容
+        if (next !== undefined) changed += update.run(next, r.rid, r.value).changes;
+      }
+    });
+    run();
+    lastRowId = rows[rows.length - 1].rid;
+  }
+}
+
+/** 加密全部尚未加密的存量数据；返回加密的行数。可重复执行，已加密的行会跳过 */
+export function encryptExistingRows(): number {
+  currentMasterKey();
+  let total = 0;
+  for (const target of ENCRYPTED_COLUMNS) {
+    const scope = `${target.table}.${target.column}` as EncryptedScope;
+    total += rewriteColumn(target, `${target.column} NOT LIKE '${PREFIX}:%'`, (userId, value) =>
+      encryptField(userId, scope, value)
+    );
+  }
+  return total;
+}
+
+/** 统计尚未加密的行数，用于启动时提示 */
+export function countPlaintextRows(): number {
+  let total = 0;
+  for (const target of ENCRYPTED_COLUMNS) {
+    if (!tableExists(target.table)) continue;
+    const row = db
+      .prepare(`SELECT COUNT(*) AS n FROM ${target.table} WHERE ${target.column} NOT LIKE '${PREFIX}:%'`)
+      .get() as { n: number };
+    total += row.n;
+  }
+  return total;
+}
+
+/**
+ * 主密钥轮换：用当前 DATA_MASTER_KEY 重新包装仍由旧主密钥包装的数据密钥，正文不需要重新加密
+ * 返回重新包装的数据密钥数量；完成后即可从 DATA_MASTER_KEY_PREVIOUS 中移除旧主密钥
+ */
+export function rewrapDataKeys(): number {
+  const master = currentMasterKey();
+  const rows = db
+    .prepare('SELECT * FROM user_data_keys WHERE master_key_id != ?')
+    .all(master.id) as DataKeyRow[];
+  const update = db.prepare('UPDATE user_data_keys SET wrapped_key = ?, master_key_id = ? WHERE id = ? AND master_key_id = ?');
+  let changed = 0;
+  for (const row of rows) {
+    const key = unwrapDek(row);
+    changed += update.run(seal(master.key, key, wrapAad(row.user_id)), master.id, row.id, row.master_key_id).changes;
+  }
+  return changed;
+}
+
+/**
+ * 数据密钥轮换：为每个用户生成新的数据密钥并用它重新加密全部正文，之后删除不再被引用的旧数据密钥
+ * 返回重新加密的行数
+ */
+export function rotateDataKeys(): number {
+  currentMasterKey();
+  const users = db.prepare('SELECT DISTINCT user_id FROM user_data_keys').all() as Array<{ user_id: number }>;
+  for (const { user_id } of users) createDataKey(user_id);
+
+  let total = 0;
+  for (const target of ENCRYPTED_COLUMNS) {
+    const scope = `${target.table}.${target.column}` as EncryptedScope;
+    total += rewriteColumn(target, `${target.column} LIKE '${PREFIX}:%'`, (userId, value) => {
+      const active = getActiveDataKey(userId);
+      if (value.startsWith(`${PREFIX}:${active.id}:`)) return undefined;
+      return encryptField(userId, scope, decryptField(userId, scope, value));
+    });
+  }
+
+  // 只删除已经没有密文引用的旧密钥（轮换期间新写入的数据都用新密钥）
+  const retired = db.prepare('SELECT id FROM user_data_keys WHERE active = 0').all() as Array<{ id: number }>;
+  for (const { id } of retired) {
+    const referenced = ENCRYPTED_COLUMNS.some(
+      (target) =>
+        tableExists(target.table) &&
+        !!db.prepare(`SELECT 1 FROM ${target.table} WHERE ${target.column} LIKE ? LIMIT 1`).get(`${PREFIX}:${id}:%`)
+    );
+    if (!referenced) {
+      db.prepare('DELETE FROM user_data_keys WHERE id = ?').run(id);
+      dekCache.delete(id);
+    }
+  }
+  return total;
+}
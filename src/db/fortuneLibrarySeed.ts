@@ -0,0 +1,60 @@
+// 离线幸运饼干任务库的初始内容（迁移 13 写入），之后通过管理接口维护
+// 风格同丰容提示词：低成本、马上能做、具体到动作或物品
+
+export interface FortuneLibrarySeed {
+  category: string;
+  content: string;
+  tags: string[];
+  difficulty: 'easy' | 'medium' | 'hard';
+}
+
+export const FORTUNE_LIBRARY_SEED: FortuneLibrarySeed[] = [
+  { category: 'physical', content: '把书桌上的摆件换个位置，让学习区焕然一新', tags: ['整理', '居家'], difficulty: 'easy' },
+  { category: 'physical', content: '整理衣柜，把当季常穿的搭配挂在最顺手的位置', tags: ['整理', '居家'], difficulty: 'medium' },
+  { category: 'physical', content: '坐一趟公交或地铁，去一个从没去过的站点走一走', tags: ['出门', '探索'], difficulty: 'medium' },
+  { category: 'physical', content: '给桌面添一件小物，比如一盆多肉或一张明信片', tags: ['装饰', '居家'], difficulty: 'easy' },
+  { category: 'physical', content: '拉开窗帘开窗通风十分钟，顺手擦一擦窗台', tags: ['居家', '清洁'], difficulty: 'easy' },
+  { category: 'physical', content: '把床单被套换成另一套颜色，今晚换个心情入睡', tags: ['居家', '睡眠'], difficulty: 'medium' },
+
+  { category: 'touch', content: '光脚在地毯或木地板上走几分钟，感受脚底的触感', tags: ['居家', '放松'], difficulty: 'easy' },
+  { category: 'touch', content: '去草地或沙地上走一走，留意每一步踩下去的感觉', tags: ['出门', '自然'], difficulty: 'medium' },
+  { category: 'touch', content: '用温水慢慢洗一次手，感受水流和泡沫划过指尖', tags: ['居家', '正念'], difficulty: 'easy' },
+  { category: 'touch', content: '抱着最软的抱枕或毯子窝五分钟，什么也不做', tags: ['居家', '放松'], difficulty: 'easy' },
+  { category: 'touch', content: '找一次机会摸摸猫狗或毛绒玩具，感受毛发的温度', tags: ['动物', '放松'], difficulty: 'easy' },
+  { category: 'touch', content: '报名一次陶艺或手作体验，亲手捏一件小东西', tags: ['手作', '出门'], difficulty: 'hard' },
+
+  { category: 'social', content: '给一位很久没联系的朋友发一句真诚的问候', tags: ['朋友', '线上'], difficulty: 'easy' },
+  { category: 'social', content: '约一个朋友去一家没去过的咖啡店坐一坐', tags: ['朋友', '出门'], difficulty: 'medium' },
+  { category: 'social', content: '去公园或宠物店看看小动物，待上十分钟', tags: ['动物', '出门'], difficulty: 'easy' },
+  { category: 'social', content: '对今天帮过你的人认真说一声谢谢', tags: ['感恩', '日常'], difficulty: 'easy' },
+  { category: 'social', content: '给家人打一个不为任何事的电话，聊聊近况', tags: ['家人', '线上'], difficulty: 'easy' },
+  { category: 'social', content: '参加一次线下体验课或兴趣活动，认识一个新朋友', tags: ['活动', '出门'], difficulty: 'hard' },
+
+  { category: 'cognitive', content: '花 10 分钟看一篇从没接触过的领域的入门文章', tags: ['学习', '阅读'], difficulty: 'easy' },
+  { category: 'cognitive', content: '用非惯用手刷一次牙或拿一次筷子', tags: ['挑战', '日常'], difficulty: 'easy' },
+  { category: 'cognitive', content: '玩一局数独、拼图或其他逻辑小游戏', tags: ['游戏', '专注'], difficulty: 'easy' },
+  { category: 'cognitive', content: '学会一个新单词或一句外语，并在今天用上一次', tags: ['学习', '语言'], difficulty: 'medium' },
+  { category: 'cognitive', content: '看一集速成课视频，学一个十分钟能上手的小技能', tags: ['学习', '技能'], difficulty: 'medium' },
+  { category: 'cognitive', content: '走一条从没走过的路线回家，记住沿途的三个细节', tags: ['探索', '观察'], difficulty: 'medium' },
+
+  { category: 'sensory', content: '听一张从没听过的专辑，完整地听完第一首', tags: ['音乐', '居家'], difficulty: 'easy' },
+  { category: 'sensory', content: '换一种新味道的护手霜或香氛，认真闻一闻', tags: ['气味', '日常'], difficulty: 'easy' },
+  { category: 'sensory', content: '关掉灯点一盏小夜灯，安静地待五分钟', tags: ['光线', '放松'], difficulty: 'easy' },
+  { category: 'sensory', content: '出门时留意并记下三种今天听到的声音', tags: ['声音', '观察'], difficulty: 'easy' },
+  { category: 'sensory', content: '看一部没看过的类型的短片，比如纪录片或动画', tags: ['影像', '居家'], difficulty: 'medium' },
+  { category: 'sensory', content: '去一个没去过的公园或街区，看看不一样的风景', tags: ['出门', '探索'], difficulty: 'medium' },
+
+  { category: 'food', content: '今天点一道以前从没点过的菜', tags: ['外食', '尝鲜'], difficulty: 'easy' },
+  { category: 'food', content: '买一种从没吃过但一直想试的零食', tags: ['零食', '尝鲜'], difficulty: 'easy' },
+  { category: 'food', content: '给今天的一餐认真摆个盘，拍张照片留念', tags: ['居家', '仪式感'], difficulty: 'easy' },
+  { category: 'food', content: '去一家没去过的早餐店或小吃摊吃一顿', tags: ['外食', '出门'], difficulty: 'medium' },
+  { category: 'food', content: '试做一道从没做过的快手菜', tags: ['下厨', '居家'], difficulty: 'medium' },
+  { category: 'food', content: '慢慢吃一个水果，专心感受它的味道和口感', tags: ['正念', '日常'], difficulty: 'easy' },
+
+  { category: 'selfCare', content: '在「快乐收集本」里记下今天一件开心的小事', tags: ['记录', '积极'], difficulty: 'easy' },
+  { category: 'selfCare', content: '对自己说三句肯定的话，写在便签上贴起来', tags: ['自我肯定', '记录'], difficulty: 'easy' },
+  { category: 'selfCare', content: '留十分钟不看手机，只是发呆放空', tags: ['放松', '数字排毒'], difficulty: 'easy' },
+  { category: 'selfCare', content: '睡前花两分钟复盘今天的心情，给它打个分', tags: ['记录', '睡眠'], difficulty: 'easy' },
+  { category: 'selfCare', content: '随手写几句碎碎念，想到什么写什么', tags: ['记录', '情绪'], difficulty: 'easy' },
+  { category: 'selfCare', content: '今晚比平时早半小时上床，给自己一个完整的睡眠', tags: ['睡眠', '休息'], difficulty: 'medium' },
+];
@@ -1,70 +1,69 @@
-// SQLite 数据库初始化，与 README 中 users / emotion_cookies / cookie_goals 表设计一致
-import Database from 'better-sqlite3';
-import path from 'path';
-import fs from 'fs';
-
-const dataDir = path.join(process.cwd(), 'data');
-if (!fs.existsSync(dataDir)) fs.mkdirSync(dataDir, { recursive: true });
-const dbPath = path.join(dataDir, 'emotion_house.db');
-
-export const db = new Database(dbPath);
-
-// 基础表：用户表 + 情绪饼干表 + 目标表
-db.exec(`
-  CREATE TABLE IF NOT EXISTS users (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    wx_open_id TEXT NOT NULL UNIQUE,
-    phone TEXT,
-    vip_level TEXT NOT NULL DEFAULT 'free',
-    settings TEXT DEFAULT '{}',
-    created_at TEXT NOT NULL DEFAULT (datetime('now')),
-    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-  );
-  CREATE UNIQUE INDEX IF NOT EXISTS idx_users_wx_open_id ON users(wx_open_id);
-
-  -- 情绪饼干：一行代表某用户某一天的数据（entries/analysis 以 JSON 文本存储）
-  CREATE TABLE IF NOT EXISTS emotion_cookies (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    user_id INTEGER NOT NULL,
-    date TEXT NOT NULL,
-    data TEXT NOT NULL, -- { entries: CookieEntry[], analysis?: string }
-    created_at TEXT NOT NULL DEFAULT (datetime('now')),
-    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
-    is_deleted INTEGER NOT NULL DEFAULT 0,
-    FOREIGN KEY (user_id) REFERENCES users(id)
-  );
-  CREATE INDEX IF NOT EXISTS idx_emotion_cookies_user_date
-    ON emotion_cookies(user_id, date);
-
-  -- 目标数据：与 README 中 cookie_goals 表对齐，steps 等结构也放 JSON
-  CREATE TABLE IF NOT EXISTS cookie_goals (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    user_id INTEGER NOT NULL,
-    title TEXT NOT NULL,
-    steps TEXT NOT NULL, -- GoalStep[] JSON
-    candy_count INTEGER NOT NULL DEFAULT 0,
-    is_completed INTEGER NOT NULL DEFAULT 0,
-    created_at TEXT NOT NULL DEFAULT (datetime('now')),
-    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
-    FOREIGN KEY (user_id) REFERENCES users(id)
-  );
-  CREATE INDEX IF NOT EXISTS idx_cookie_goals_user
-    ON cookie_goals(user_id);
-
-  -- 云端同步快照：每个用户一份完整 JSON，便于上传/恢复（不占手机内存）
-  CREATE TABLE IF NOT EXISTS sync_snapshot (
-    user_id INTEGER PRIMARY KEY,
-    data TEXT NOT NULL DEFAULT '{}',
-    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
-    FOREIGN KEY (user_id) REFERENCES users(id)
-  );
-`);
+// SQLite 数据访问：表结构由 db/migrations 维护，与 README 中 users / emotion_cookies / cookie_goals 表设计一致
+import { config } from '../config';
+import { db } from './connection';
+import { runMigrations, LATEST_SCHEMA_VERSION } from './migrations';
+import {
+  encryptField,
+  decryptField,
+  deleteUserDataKeys,
+  isFieldEncryptionEnabled,
+  countPlaintextRows,
+  ENCRYPTED_COLUMNS,
+  EncryptedScope,
+} from './fieldCrypto';
+import {
+  replaceSearchDocs,
+  removeSearchDocs,
+  deleteUserSearchDocs,
+  dayToSearchDocs,
+  snapshotToSearchDocs,
+  goalRowToSearchDocs,
+  aiResultToSearchDocs,
+  searchIndexIsStale,
+  rebuildSearchIndex,
+} from './searchIndex';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('db');
+
+export { db };
+export { searchUserDocs, openSearchDoc } from './searchIndex';
+export type { SearchDocRow, SearchQuery, SearchKind } from './searchIndex';
+
+// 启动时按顺序执行未应用的迁移；数据库版本高于代码时抛错，拒绝启动
+runMigrations(db, { backup: true });
+
+if (isFieldEncryptionEnabled()) {
+  const plaintext = countPlaintextRows();
+  if (plaintext > 0) log.warn('仍有正文未加密，请执行 npm run db -- encrypt', { rows: plaintext });
+}
+
+// 搜索索引首次建立或主密钥变化后重建
+if (searchIndexIsStale()) {
+  log.info('已重建搜索索引', { users: rebuildSearchIndex() });
+}
+
+function parseJsonOr(json: string, fallback: unknown): unknown {
+  try {
+    return JSON.parse(json || 'null') ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
 
 export interface UserRow {
   id: number;
   wx_open_id: string;
   phone: string | null;
   vip_level: string;
+  vip_expires_at: string | null;
+  /** 申请注销时间；非空表示处于注销冷静期 */
+  deletion_requested_at: string | null;
+  /** 冷静期结束、将被彻底删除的时间 */
+  deletion_scheduled_at: string | null;
+  /** 管理员停用账号的时间；非空时无法登录、已签发的 token 也会被拒绝 */
+  disabled_at: string | null;
+  disabled_reason: string | null;
   settings: string;
   created_at: string;
   updated_at: string;
@@ -90,10 +89,48 @@ export function updateUserPhone(userId: number, phone: string): void {
   db.prepare('UPDATE users SET phone = ?, updated_at = ? WHERE id = ?').run(phone, now, userId);
 }
 
+export function updateUserSettings(userId: number, settingsJson: string): void {
+  const now = new Date().toISOString();
+  db.prepare('UPDATE users SET settings = ?, updated_at = ? WHERE id = ?').run(settingsJson, now, userId);
+}
+
 export function getUserById(userId: number): UserRow | undefined {
   return db.prepare('SELECT * FROM users WHERE id = ?').get(userId) as UserRow | undefined;
 }
 
+/** VIP 已过期则降为 free（惰性处理，在读取用户时调用）；返回处理后的用户行 */
+export function expireVipIfNeeded(user: UserRow, now = new Date().toISOString()): UserRow {
+  if (user.vip_level !== 'vip' || !user.vip_expires_at || user.vip_expires_at > now) return user;
+  db.prepare(
+    "UPDATE users SET vip_level = 'free', updated_at = ? WHERE id = ? AND vip_level = 'vip' AND vip_expires_at <= ?"
+  ).run(now, user.id, now);
+  return getUserById(user.id)!;
+}
+
+/** 健康检查：执行一次查询并核对结构版本；有待执行的迁移也视为不可用 */
+export function checkDatabase(): {
+  status: 'ok' | 'error';
+  latencyMs: number;
+  schemaVersion?: number;
+  latestSchemaVersion?: number;
+  error?: string;
+} {
+  const start = Date.now();
+  try {
+    const { version } = db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as {
+      version: number | null;
+    };
+    return {
+      status: version === LATEST_SCHEMA_VERSION ? 'ok' : 'error',
+      latencyMs: Date.now() - start,
+      schemaVersion: version ?? 0,
+      latestSchemaVersion: LATEST_SCHEMA_VERSION,
+    };
+  } catch (e) {
+    return { status: 'error', latencyMs: Date.now() - start, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
 // ========== 情绪饼干：仅供 VIP 云端存储使用 ==========
 
 export interface EmotionDayRow {
@@ -106,31 +143,37 @@ export interface EmotionDayRow {
   is_deleted: number;
 }
 
-/** 保存（插入或更新）某用户某一天的情绪饼干数据；data 为 JSON 字符串 */
+/** data 列落库时加密，读出时解密；查询函数返回的行都已是明文 */
+function openEmotionDay(row: EmotionDayRow): EmotionDayRow {
+  return { ...row, data: decryptField(row.user_id, 'emotion_cookies.data', row.data) };
+}
+
+/** 保存（插入或更新）某用户某一天的情绪饼干数据；data 为 JSON 字符串。搜索索引在同一事务内更新 */
 export function upsertEmotionDay(userId: number, date: string, dataJson: string): EmotionDayRow {
   const now = new Date().toISOString();
-  const existed = db
-    .prepare('SELECT id FROM emotion_cookies WHERE user_id = ? AND date = ? AND is_deleted = 0')
-    .get(userId, date) as { id: number } | undefined;
+  const stored = encryptField(userId, 'emotion_cookies.data', dataJson);
+  const run = db.transaction(() => {
+    replaceSearchDocs(userId, 'cookie', date, dayToSearchDocs(date, parseJsonOr(dataJson, {})));
+    const existed = db
+      .prepare('SELECT id FROM emotion_cookies WHERE user_id = ? AND date = ? AND is_deleted = 0')
+      .get(userId, date) as { id: number } | undefined;
 
-  if (existed) {
-    db.prepare(
-      'UPDATE emotion_cookies SET data = ?, updated_at = ? WHERE id = ?'
-    ).run(dataJson, now, existed.id);
-    return db
-      .prepare('SELECT * FROM emotion_cookies WHERE id = ?')
-      .get(existed.id) as EmotionDayRow;
-  }
-
-  const result = db
-    .prepare(
-      'INSERT INTO emotion_cookies (user_id, date, data, created_at, updated_at) VALUES (?, ?, ?, ?, ?)'
-    )
-    .run(userId, date, dataJson, now, now);
+    if (existed) {
+      db.prepare(
+        'UPDATE emotion_cookies SET data = ?, updated_at = ? WHERE id = ?'
+      ).run(stored, now, existed.id);
+      return existed.id;
+    }
 
-  return db
-    .prepare('SELECT * FROM emotion_cookies WHERE id = ?')
-    .get(result.lastInsertRowid) as EmotionDayRow;
+    const result = db
+      .prepare(
+        'INSERT INTO emotion_cookies (user_id, date, data, created_at, updated_at) VALUES (?, ?, ?, ?, ?)'
+      )
+      .run(userId, date, stored, now, now);
+    return Number(result.lastInsertRowid);
+  });
+  const id = run();
+  return openEmotionDay(db.prepare('SELECT * FROM emotion_cookies WHERE id = ?').get(id) as EmotionDayRow);
 }
 
 // ========== 云端同步快照（所有用户可用，自动上传/恢复） ==========
@@ -139,19 +182,165 @@ export function getSyncSnapshot(userId: number): { data: string; updated_at: str
   const row = db
     .prepare('SELECT data, updated_at FROM sync_snapshot WHERE user_id = ?')
     .get(userId) as { data: string; updated_at: string } | undefined;
-  return row;
+  return row && { ...row, data: decryptField(userId, 'sync_snapshot.data', row.data) };
+}
+
+export type SnapshotSource = 'upload' | 'restore';
+
+export interface SnapshotKeySummary {
+  bytes: number;
+  count: number | null; // 数组/对象的条目数；标量为 null
+}
+
+export interface SnapshotVersionRow {
+  id: number;
+  user_id: number;
+  data: string;
+  summary: string;
+  source: SnapshotSource;
+  created_at: string;
+}
+
+function summarizeSnapshot(dataJson: string): Record<string, SnapshotKeySummary> {
+  const snapshot = JSON.parse(dataJson || '{}') as Record<string, unknown>;
+  const summary: Record<string, SnapshotKeySummary> = {};
+  for (const [key, value] of Object.entries(snapshot)) {
+    const count = Array.isArray(value)
+      ? value.length
+      : value && typeof value === 'object'
+        ? Object.keys(value).length
+        : null;
+    summary[key] = { bytes: Buffer.byteLength(JSON.stringify(value) ?? ''), count };
+  }
+  return summary;
+}
+
+/**
+ * 保留策略：最近 keepVersions 个版本 + 最近 keepDailyDays 天里每天最后一个版本，其余删除
+ */
+function pruneSnapshotVersions(userId: number): void {
+  const { keepVersions, keepDailyDays } = config.sync;
+  const rows = db
+    .prepare('SELECT id, created_at FROM sync_snapshot_versions WHERE user_id = ? ORDER BY created_at DESC, id DESC')
+    .all(userId) as Array<{ id: number; created_at: string }>;
+
+  const since = new Date(Date.now() - keepDailyDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const keep = new Set<number>();
+  const seenDays = new Set<string>();
+  rows.forEach((r, idx) => {
+    if (idx < keepVersions) keep.add(r.id);
+    const day = r.created_at.slice(0, 10);
+    if (day >= since && !seenDays.has(day)) {
+      seenDays.add(day);
+      keep.add(r.id);
+    }
+  });
+
+  const del = db.prepare('DELETE FROM sync_snapshot_versions WHERE id = ?');
+  for (const r of rows) {
+    if (!keep.has(r.id)) del.run(r.id);
+  }
 }
 
-export function setSyncSnapshot(userId: number, dataJson: string): string {
+/** 覆盖当前快照，并追加一个历史版本（同一事务内完成版本清理） */
+export function setSyncSnapshot(userId: number, dataJson: string, source: SnapshotSource = 'upload'): string {
   const now = new Date().toISOString();
-  db.prepare(
-    `INSERT INTO sync_snapshot (user_id, data, updated_at) VALUES (?, ?, ?)
-     ON CONFLICT(user_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
-  ).run(userId, dataJson, now);
+  const run = db.transaction(() => {
+    db.prepare(
+      `INSERT INTO sync_snapshot (user_id, data, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(user_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+    ).run(userId, encryptField(userId, 'sync_snapshot.data', dataJson), now);
+    db.prepare(
+      'INSERT INTO sync_snapshot_versions (user_id, data, summary, source, created_at) VALUES (?, ?, ?, ?, ?)'
+    ).run(
+      userId,
+      encryptField(userId, 'sync_snapshot_versions.data', dataJson),
+      JSON.stringify(summarizeSnapshot(dataJson)),
+      source,
+      now
+    );
+    pruneSnapshotVersions(userId);
+    const parsed = parseJsonOr(dataJson, {});
+    replaceSearchDocs(
+      userId,
+      'snapshot',
+      'current',
+      parsed && typeof parsed === 'object' ? snapshotToSearchDocs(parsed as Record<string, unknown>) : []
+    );
+  });
+  run();
   return now;
 }
 
-/** 查询某用户最近 N 天（或半年内）的情绪饼干 */
+export interface SyncKeyRevisionRow {
+  user_id: number;
+  key: string;
+  revision: number;
+  is_deleted: number;
+  updated_at: string;
+}
+
+export function getSyncKeyRevisions(userId: number): SyncKeyRevisionRow[] {
+  return db
+    .prepare('SELECT * FROM sync_key_revisions WHERE user_id = ?')
+    .all(userId) as SyncKeyRevisionRow[];
+}
+
+/** 用户当前的同步 revision（所有 key 中最大的 revision，从未同步过为 0） */
+export function getSyncRevision(userId: number): number {
+  const row = db
+    .prepare('SELECT MAX(revision) AS rev FROM sync_key_revisions WHERE user_id = ?')
+    .get(userId) as { rev: number | null };
+  return row.rev ?? 0;
+}
+
+/**
+ * 写入新的完整快照，并为 changedKeys 分配同一个新 revision（同一事务）
+ * 没有变更的 key 时 revision 不变，但仍会写入快照与历史版本
+ */
+export function commitSyncSnapshot(
+  userId: number,
+  snapshot: Record<string, unknown>,
+  changedKeys: string[],
+  source: SnapshotSource = 'upload'
+): { revision: number; updatedAt: string } {
+  const run = db.transaction(() => {
+    let revision = getSyncRevision(userId);
+    const updatedAt = setSyncSnapshot(userId, JSON.stringify(snapshot), source);
+    if (changedKeys.length > 0) {
+      revision += 1;
+      const upsert = db.prepare(
+        `INSERT INTO sync_key_revisions (user_id, key, revision, is_deleted, updated_at) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(user_id, key) DO UPDATE SET
+           revision = excluded.revision, is_deleted = excluded.is_deleted, updated_at = excluded.updated_at`
+      );
+      for (const key of changedKeys) {
+        upsert.run(userId, key, revision, snapshot[key] === undefined ? 1 : 0, updatedAt);
+      }
+    }
+    return { revision, updatedAt };
+  });
+  return run();
+}
+
+/** 历史版本列表（不含正文） */
+export function listSnapshotVersions(userId: number): Omit<SnapshotVersionRow, 'data'>[] {
+  return db
+    .prepare(
+      `SELECT id, user_id, summary, source, created_at FROM sync_snapshot_versions
+       WHERE user_id = ? ORDER BY created_at DESC, id DESC`
+    )
+    .all(userId) as Omit<SnapshotVersionRow, 'data'>[];
+}
+
+export function getSnapshotVersion(userId: number, versionId: number): SnapshotVersionRow | undefined {
+  const row = db
+    .prepare('SELECT * FROM sync_snapshot_versions WHERE id = ? AND user_id = ?')
+    .get(versionId, userId) as SnapshotVersionRow | undefined;
+  return row && { ...row, data: decryptField(userId, 'sync_snapshot_versions.data', row.data) };
+}
+
+/** 查询某用户最近 N 个月内的情绪饼干（按记录日期 date 计算窗口，补记的旧日期也能正确落入） */
 export function listEmotionDaysWithinMonths(
   userId: number,
   months: number
@@ -159,15 +348,1404 @@ export function listEmotionDaysWithinMonths(
   const now = new Date();
   const since = new Date();
   since.setMonth(now.getMonth() - months);
-  const sinceIso = since.toISOString();
+  const sinceDate = since.toISOString().slice(0, 10);
 
-  return db
+  const rows = db
     .prepare(
       `SELECT * FROM emotion_cookies
        WHERE user_id = ?
          AND is_deleted = 0
-         AND created_at >= ?
+         AND date >= ?
        ORDER BY date DESC`
     )
-    .all(userId, sinceIso) as EmotionDayRow[];
+    .all(userId, sinceDate) as EmotionDayRow[];
+  return rows.map(openEmotionDay);
+}
+
+export function getEmotionDay(userId: number, date: string): EmotionDayRow | undefined {
+  const row = db
+    .prepare('SELECT * FROM emotion_cookies WHERE user_id = ? AND date = ? AND is_deleted = 0')
+    .get(userId, date) as EmotionDayRow | undefined;
+  return row && openEmotionDay(row);
+}
+
+/**
+ * 按日期区间分页查询（date 倒序）；before 为游标，即上一页最后一条的 date
+ * 多取一条用于判断是否还有下一页
+ */
+export function listEmotionDaysInRange(
+  userId: number,
+  opts: { from?: string; to?: string; before?: string; limit: number }
+): { rows: EmotionDayRow[]; hasMore: boolean } {
+  const where = ['user_id = ?', 'is_deleted = 0'];
+  const params: unknown[] = [userId];
+  if (opts.from) {
+    where.push('date >= ?');
+    params.push(opts.from);
+  }
+  if (opts.to) {
+    where.push('date <= ?');
+    params.push(opts.to);
+  }
+  if (opts.before) {
+    where.push('date < ?');
+    params.push(opts.before);
+  }
+  const rows = db
+    .prepare(
+      `SELECT * FROM emotion_cookies WHERE ${where.join(' AND ')} ORDER BY date DESC LIMIT ?`
+    )
+    .all(...params, opts.limit + 1) as EmotionDayRow[];
+  return { rows: rows.slice(0, opts.limit).map(openEmotionDay), hasMore: rows.length > opts.limit };
+}
+
+/** 区间内全部未删除的天（date 升序），供统计使用 */
+export function listEmotionDaysBetween(userId: number, from: string, to: string): EmotionDayRow[] {
+  const rows = db
+    .prepare(
+      `SELECT * FROM emotion_cookies
+       WHERE user_id = ? AND is_deleted = 0 AND date >= ? AND date <= ?
+       ORDER BY date ASC`
+    )
+    .all(userId, from, to) as EmotionDayRow[];
+  return rows.map(openEmotionDay);
+}
+
+/** 软删除某一天（is_deleted = 1，进入回收站，不再出现在搜索结果中）；返回是否有记录被删除 */
+export function softDeleteEmotionDay(userId: number, date: string): boolean {
+  const now = new Date().toISOString();
+  const run = db.transaction(() => {
+    const result = db
+      .prepare(
+        'UPDATE emotion_cookies SET is_deleted = 1, updated_at = ? WHERE user_id = ? AND date = ? AND is_deleted = 0'
+      )
+      .run(now, userId, date);
+    if (result.changes > 0) removeSearchDocs(userId, 'cookie', date);
+    return result.changes > 0;
+  });
+  return run();
+}
+
+/** 回收站：已软删除的记录，按删除时间（updated_at）倒序 */
+export function listDeletedEmotionDays(userId: number): EmotionDayRow[] {
+  const rows = db
+    .prepare(
+      'SELECT * FROM emotion_cookies WHERE user_id = ? AND is_deleted = 1 ORDER BY updated_at DESC'
+    )
+    .all(userId) as EmotionDayRow[];
+  return rows.map(openEmotionDay);
+}
+
+/**
+ * 从回收站恢复某一天（同一日期有多条已删除时恢复最近删除的一条）
+ * 该日期已有未删除记录时返回 'conflict'，不存在已删除记录时返回 undefined
+ */
+export function restoreEmotionDay(userId: number, date: string): EmotionDayRow | 'conflict' | undefined {
+  const run = db.transaction(() => {
+    if (getEmotionDay(userId, date)) return 'conflict' as const;
+    const deleted = db
+      .prepare(
+        'SELECT id FROM emotion_cookies WHERE user_id = ? AND date = ? AND is_deleted = 1 ORDER BY updated_at DESC LIMIT 1'
+      )
+      .get(userId, date) as { id: number } | undefined;
+    if (!deleted) return undefined;
+    const now = new Date().toISOString();
+    db.prepare('UPDATE emotion_cookies SET is_deleted = 0, updated_at = ? WHERE id = ?').run(now, deleted.id);
+    const row = openEmotionDay(db.prepare('SELECT * FROM emotion_cookies WHERE id = ?').get(deleted.id) as EmotionDayRow);
+    replaceSearchDocs(userId, 'cookie', date, dayToSearchDocs(date, parseJsonOr(row.data, {})));
+    return row;
+  });
+  return run();
+}
+
+// ========== 目标（cookie_goals）：步骤进度 + 糖果奖励 ==========
+
+export interface GoalStep {
+  id: string;
+  text: string;
+  done: boolean;
+  doneAt?: string | null;
+}
+
+export interface GoalRow {
+  id: number;
+  user_id: number;
+  title: string;
+  steps: string;
+  candy_count: number;
+  is_completed: number;
+  created_at: string;
+  updated_at: string;
+}
+
+function isAllStepsDone(steps: GoalStep[]): boolean {
+  return steps.length > 0 && steps.every((s) => s.done);
+}
+
+export function listGoals(userId: number, completed?: boolean): GoalRow[] {
+  if (completed === undefined) {
+    return db
+      .prepare('SELECT * FROM cookie_goals WHERE user_id = ? ORDER BY created_at DESC, id DESC')
+      .all(userId) as GoalRow[];
+  }
+  return db
+    .prepare(
+      'SELECT * FROM cookie_goals WHERE user_id = ? AND is_completed = ? ORDER BY created_at DESC, id DESC'
+    )
+    .all(userId, completed ? 1 : 0) as GoalRow[];
+}
+
+export function getGoal(userId: number, goalId: number): GoalRow | undefined {
+  return db
+    .prepare('SELECT * FROM cookie_goals WHERE id = ? AND user_id = ?')
+    .get(goalId, userId) as GoalRow | undefined;
+}
+
+/** 新建目标的步骤一律未完成，糖果只能经 setGoalStepDone 逐步勾选获得 */
+export function createGoal(userId: number, title: string, steps: GoalStep[]): GoalRow {
+  const now = new Date().toISOString();
+  const fresh = steps.map((s) => ({ ...s, done: false, doneAt: null }));
+  const run = db.transaction(() => {
+    const result = db
+      .prepare(
+        `INSERT INTO cookie_goals (user_id, title, steps, candy_count, is_completed, created_at, updated_at)
+         VALUES (?, ?, ?, 0, 0, ?, ?)`
+      )
+      .run(userId, title, JSON.stringify(fresh), now, now);
+    replaceSearchDocs(userId, 'goal', String(result.lastInsertRowid), goalRowToSearchDocs(title, now));
+    return db.prepare('SELECT * FROM cookie_goals WHERE id = ?').get(result.lastInsertRowid) as GoalRow;
+  });
+  return run();
+}
+
+/**
+ * 更新标题和/或步骤；步骤整体替换时完成状态以服务端为准：按 id 沿用原步骤的 done / doneAt，新步骤为未完成
+ * 被删掉的已完成步骤扣回对应的糖果，is_completed 随之重算
+ */
+export function updateGoal(
+  userId: number,
+  goalId: number,
+  patch: { title?: string; steps?: GoalStep[] }
+): GoalRow | undefined {
+  const run = db.transaction(() => {
+    const row = getGoal(userId, goalId);
+    if (!row) return undefined;
+    const title = patch.title ?? row.title;
+    const oldSteps = JSON.parse(row.steps || '[]') as GoalStep[];
+    const oldById = new Map(oldSteps.map((s) => [s.id, s]));
+    const steps = patch.steps
+      ? patch.steps.map((s) => {
+          const old = oldById.get(s.id);
+          return { ...s, done: old?.done ?? false, doneAt: old?.doneAt ?? null };
+        })
+      : oldSteps;
+    const candyDelta = steps.filter((s) => s.done).length - oldSteps.filter((s) => s.done).length;
+    const now = new Date().toISOString();
+    db.prepare(
+      `UPDATE cookie_goals
+       SET title = ?, steps = ?, candy_count = MAX(candy_count + ?, 0), is_completed = ?, updated_at = ?
+       WHERE id = ?`
+    ).run(title, JSON.stringify(steps), candyDelta, isAllStepsDone(steps) ? 1 : 0, now, goalId);
+    if (title !== row.title) replaceSearchDocs(userId, 'goal', String(goalId), goalRowToSearchDocs(title, row.created_at));
+    return getGoal(userId, goalId);
+  });
+  return run();
+}
+
+export function deleteGoal(userId: number, goalId: number): boolean {
+  const run = db.transaction(() => {
+    const result = db.prepare('DELETE FROM cookie_goals WHERE id = ? AND user_id = ?').run(goalId, userId);
+    if (result.changes > 0) removeSearchDocs(userId, 'goal', String(goalId));
+    return result.changes > 0;
+  });
+  return run();
+}
+
+/**
+ * 勾选/取消某一步：在同一事务内修改 steps、增减 candy_count，并在全部完成时置 is_completed
+ * 返回 undefined 表示目标不存在；stepFound 为 false 表示步骤不存在
+ */
+export function setGoalStepDone(
+  userId: number,
+  goalId: number,
+  stepId: string,
+  done: boolean
+): { row: GoalRow; stepFound: boolean; changed: boolean } | undefined {
+  const run = db.transaction(() => {
+    const row = getGoal(userId, goalId);
+    if (!row) return undefined;
+    const steps = JSON.parse(row.steps || '[]') as GoalStep[];
+    const step = steps.find((s) => s.id === stepId);
+    if (!step) return { row, stepFound: false, changed: false };
+    if (step.done === done) return { row, stepFound: true, changed: false };
+
+    const now = new Date().toISOString();
+    step.done = done;
+    step.doneAt = done ? now : null;
+    db.prepare(
+      `UPDATE cookie_goals
+       SET steps = ?, candy_count = MAX(candy_count + ?, 0), is_completed = ?, updated_at = ?
+       WHERE id = ?`
+    ).run(JSON.stringify(steps), done ? 1 : -1, isAllStepsDone(steps) ? 1 : 0, now, goalId);
+    return { row: getGoal(userId, goalId)!, stepFound: true, changed: true };
+  });
+  return run();
+}
+
+// ========== 托管的 AI API Key（密文存储，加解密见 services/vault） ==========
+
+export interface UserApiKeyRow {
+  user_id: number;
+  provider: string;
+  ciphertext: string;
+  key_hint: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export function getUserApiKey(userId: number, provider = 'deepseek'): UserApiKeyRow | undefined {
+  return db
+    .prepare('SELECT * FROM user_api_keys WHERE user_id = ? AND provider = ?')
+    .get(userId, provider) as UserApiKeyRow | undefined;
+}
+
+/** 保存或轮换密钥：已存在时覆盖密文，保留 created_at */
+export function setUserApiKey(userId: number, ciphertext: string, keyHint: string, provider = 'deepseek'): UserApiKeyRow {
+  const now = new Date().toISOString();
+  db.prepare(
+    `INSERT INTO user_api_keys (user_id, provider, ciphertext, key_hint, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT(user_id, provider) DO UPDATE SET
+       ciphertext = excluded.ciphertext, key_hint = excluded.key_hint, updated_at = excluded.updated_at`
+  ).run(userId, provider, ciphertext, keyHint, now, now);
+  return getUserApiKey(userId, provider)!;
+}
+
+export function deleteUserApiKey(userId: number, provider = 'deepseek'): boolean {
+  const result = db
+    .prepare('DELETE FROM user_api_keys WHERE user_id = ? AND provider = ?')
+    .run(userId, provider);
+  return result.changes > 0;
+}
+
+// ========== AI 生成结果（ai_results） ==========
+
+export interface AiResultRow {
+  id: number;
+  user_id: number;
+  kind: string;
+  date: string | null;
+  range_from: string | null;
+  range_to: string | null;
+  prompt_version: string;
+  inputs_hash: string;
+  request: string;
+  result: string;
+  /** 由默认值补齐的字段路径 JSON 数组；全部合格时为 null */
+  defaulted_fields: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AiResultInput {
+  kind: string;
+  date?: string | null;
+  rangeFrom?: string | null;
+  rangeTo?: string | null;
+  promptVersion: string;
+  inputsHash: string;
+  requestJson: string;
+  resultJson: string;
+  defaultedFieldsJson?: string | null;
+}
+
+/** request、result 列落库时加密，读出时解密；查询函数返回的行都已是明文 */
+function openAiResult(row: AiResultRow): AiResultRow {
+  return {
+    ...row,
+    request: decryptField(row.user_id, 'ai_results.request', row.request),
+    result: decryptField(row.user_id, 'ai_results.result', row.result),
+  };
+}
+
+export function insertAiResult(userId: number, input: AiResultInput): AiResultRow {
+  const now = new Date().toISOString();
+  const run = db.transaction(() => {
+    const row = insertAiResultRow(userId, input, now);
+    replaceSearchDocs(userId, 'ai_result', String(row.id), aiResultToSearchDocs(row));
+    return row;
+  });
+  return run();
+}
+
+function insertAiResultRow(userId: number, input: AiResultInput, now: string): AiResultRow {
+  const result = db
+    .prepare(
+      `INSERT INTO ai_results
+         (user_id, kind, date, range_from, range_to, prompt_version, inputs_hash, request, result, defaulted_fields,
+          created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      userId,
+      input.kind,
+      input.date ?? null,
+      input.rangeFrom ?? null,
+      input.rangeTo ?? null,
+      input.promptVersion,
+      input.inputsHash,
+      encryptField(userId, 'ai_results.request', input.requestJson),
+      encryptField(userId, 'ai_results.result', input.resultJson),
+      input.defaultedFieldsJson ?? null,
+      now,
+      now
+    );
+  return openAiResult(db.prepare('SELECT * FROM ai_results WHERE id = ?').get(result.lastInsertRowid) as AiResultRow);
+}
+
+/** 相同 kind + 输入哈希的最近一次结果；有字段被默认值补齐的结果不复用，下次重新生成 */
+export function findCachedAiResult(userId: number, kind: string, inputsHash: string): AiResultRow | undefined {
+  const row = db
+    .prepare(
+      `SELECT * FROM ai_results WHERE user_id = ? AND kind = ? AND inputs_hash = ? AND defaulted_fields IS NULL
+       ORDER BY updated_at DESC LIMIT 1`
+    )
+    .get(userId, kind, inputsHash) as AiResultRow | undefined;
+  return row && openAiResult(row);
+}
+
+export function getAiResult(userId: number, id: number): AiResultRow | undefined {
+  const row = db
+    .prepare('SELECT * FROM ai_results WHERE id = ? AND user_id = ?')
+    .get(id, userId) as AiResultRow | undefined;
+  return row && openAiResult(row);
+}
+
+/**
+ * 列出结果（id 倒序）；date 匹配单日结果，from/to 匹配单日日期或与区间有交集的多日结果
+ * beforeId 为游标，多取一条判断是否还有下一页
+ */
+export function listAiResults(
+  userId: number,
+  opts: { kind?: string; date?: string; from?: string; to?: string; beforeId?: number; limit: number }
+): { rows: AiResultRow[]; hasMore: boolean } {
+  const where = ['user_id = ?'];
+  const params: unknown[] = [userId];
+  if (opts.kind) {
+    where.push('kind = ?');
+    params.push(opts.kind);
+  }
+  if (opts.date) {
+    where.push('date = ?');
+    params.push(opts.date);
+  }
+  if (opts.from) {
+    where.push('COALESCE(date, range_to, range_from) >= ?');
+    params.push(opts.from);
+  }
+  if (opts.to) {
+    where.push('COALESCE(date, range_from, range_to) <= ?');
+    params.push(opts.to);
+  }
+  if (opts.beforeId) {
+    where.push('id < ?');
+    params.push(opts.beforeId);
+  }
+  const rows = db
+    .prepare(`SELECT * FROM ai_results WHERE ${where.join(' AND ')} ORDER BY id DESC LIMIT ?`)
+    .all(...params, opts.limit + 1) as AiResultRow[];
+  return { rows: rows.slice(0, opts.limit).map(openAiResult), hasMore: rows.length > opts.limit };
+}
+
+export function updateAiResultContent(
+  userId: number,
+  id: number,
+  resultJson: string,
+  defaultedFieldsJson: string | null = null
+): AiResultRow | undefined {
+  const now = new Date().toISOString();
+  const run = db.transaction(() => {
+    db.prepare('UPDATE ai_results SET result = ?, defaulted_fields = ?, updated_at = ? WHERE id = ? AND user_id = ?').run(
+      encryptField(userId, 'ai_results.result', resultJson),
+      defaultedFieldsJson,
+      now,
+      id,
+      userId
+    );
+    const row = getAiResult(userId, id);
+    if (row) replaceSearchDocs(userId, 'ai_result', String(id), aiResultToSearchDocs(row));
+    return row;
+  });
+  return run();
+}
+
+export function deleteAiResult(userId: number, id: number): boolean {
+  const run = db.transaction(() => {
+    const result = db.prepare('DELETE FROM ai_results WHERE id = ? AND user_id = ?').run(id, userId);
+    if (result.changes > 0) removeSearchDocs(userId, 'ai_result', String(id));
+    return result.changes > 0;
+  });
+  return run();
+}
+
+// ========== AI 用量（配额统计） ==========
+
+/**
+ * 额度未用完时预占一次用量：检查与计数在同一事务内完成，并发请求不会同时占到最后一个名额
+ * limits 中的 -1 表示不限；返回预占前的今日与本月用量，reserved 为 false 表示已用完、未计数
+ */
+export function reserveAiUsage(
+  userId: number,
+  task: string,
+  day: string,
+  monthStart: string,
+  limits: { daily: number; monthly: number }
+): { usedToday: number; usedMonth: number; reserved: boolean } {
+  const run = db.transaction(() => {
+    const usedToday = countAiUsage(userId, task, day, day);
+    const usedMonth = countAiUsage(userId, task, monthStart, day);
+    const exhausted =
+      (limits.daily >= 0 && usedToday >= limits.daily) || (limits.monthly >= 0 && usedMonth >= limits.monthly);
+    if (!exhausted) {
+      db.prepare(
+        `INSERT INTO ai_usage_daily (user_id, task, day, count) VALUES (?, ?, ?, 1)
+         ON CONFLICT(user_id, task, day) DO UPDATE SET count = count + 1`
+      ).run(userId, task, day);
+    }
+    return { usedToday, usedMonth, reserved: !exhausted };
+  });
+  return run.immediate();
+}
+
+/** 退回一次预占的用量 */
+export function releaseAiUsage(userId: number, task: string, day: string): void {
+  db.prepare(
+    'UPDATE ai_usage_daily SET count = MAX(count - 1, 0) WHERE user_id = ? AND task = ? AND day = ?'
+  ).run(userId, task, day);
+}
+
+/** 某接口在 [fromDay, toDay] 内的调用次数 */
+export function countAiUsage(userId: number, task: string, fromDay: string, toDay: string): number {
+  const row = db
+    .prepare(
+      'SELECT COALESCE(SUM(count), 0) AS total FROM ai_usage_daily WHERE user_id = ? AND task = ? AND day >= ? AND day <= ?'
+    )
+    .get(userId, task, fromDay, toDay) as { total: number };
+  return row.total;
+}
+
+/** 按接口汇总 [fromDay, toDay] 内的调用次数 */
+export function sumAiUsageByTask(userId: number, fromDay: string, toDay: string): Record<string, number> {
+  const rows = db
+    .prepare(
+      `SELECT task, SUM(count) AS total FROM ai_usage_daily
+       WHERE user_id = ? AND day >= ? AND day <= ? GROUP BY task`
+    )
+    .all(userId, fromDay, toDay) as Array<{ task: string; total: number }>;
+  return Object.fromEntries(rows.map((r) => [r.task, r.total]));
+}
+
+// ========== VIP 订单 ==========
+
+export interface VipOrderRow {
+  id: number;
+  out_trade_no: string;
+  user_id: number;
+  plan: string;
+  amount_fen: number;
+  status: 'pending' | 'paid' | 'closed';
+  prepay_id: string | null;
+  transaction_id: string | null;
+  paid_at: string | null;
+  vip_expires_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function createVipOrder(userId: number, outTradeNo: string, plan: string, amountFen: number): VipOrderRow {
+  const now = new Date().toISOString();
+  const result = db
+    .prepare(
+      `INSERT INTO vip_orders (out_trade_no, user_id, plan, amount_fen, status, created_at, updated_at)
+       VALUES (?, ?, ?, ?, 'pending', ?, ?)`
+    )
+    .run(outTradeNo, userId, plan, amountFen, now, now);
+  return db.prepare('SELECT * FROM vip_orders WHERE id = ?').get(result.lastInsertRowid) as VipOrderRow;
+}
+
+export function setVipOrderPrepayId(orderId: number, prepayId: string): void {
+  const now = new Date().toISOString();
+  db.prepare('UPDATE vip_orders SET prepay_id = ?, updated_at = ? WHERE id = ?').run(prepayId, now, orderId);
+}
+
+export function closeVipOrder(orderId: number): void {
+  const now = new Date().toISOString();
+  db.prepare("UPDATE vip_orders SET status = 'closed', updated_at = ? WHERE id = ? AND status = 'pending'").run(
+    now,
+    orderId
+  );
+}
+
+export function getVipOrderByOutTradeNo(outTradeNo: string): VipOrderRow | undefined {
+  return db.prepare('SELECT * FROM vip_orders WHERE out_trade_no = ?').get(outTradeNo) as VipOrderRow | undefined;
+}
+
+export function listVipOrders(userId: number): VipOrderRow[] {
+  return db
+    .prepare('SELECT * FROM vip_orders WHERE user_id = ? ORDER BY created_at DESC, id DESC')
+    .all(userId) as VipOrderRow[];
+}
+
+/**
+ * 订单支付成功：标记已支付并为用户延长 VIP（从当前未过期的到期时间或现在起算），同一事务内完成
+ * 用户已是长期有效的 VIP（vip_expires_at 为空）时只记录订单，不改为有期限
+ * 已支付过的订单直接返回，不会重复延期（支付回调可能重复推送）
+ */
+export function markVipOrderPaid(
+  outTradeNo: string,
+  transactionId: string,
+  months: number
+): { order: VipOrderRow; granted: boolean } | undefined {
+  const run = db.transaction(() => {
+    const order = getVipOrderByOutTradeNo(outTradeNo);
+    if (!order) return undefined;
+    if (order.status === 'paid') return { order, granted: false };
+
+    const now = new Date();
+    const user = getUserById(order.user_id)!;
+    const nowIso = now.toISOString();
+    if (user.vip_level === 'vip' && !user.vip_expires_at) {
+      db.prepare(
+        `UPDATE vip_orders SET status = 'paid', transaction_id = ?, paid_at = ?, updated_at = ? WHERE id = ?`
+      ).run(transactionId, nowIso, nowIso, order.id);
+      return { order: getVipOrderByOutTradeNo(outTradeNo)!, granted: true };
+    }
+    const base =
+      user.vip_level === 'vip' && user.vip_expires_at && new Date(user.vip_expires_at) > now
+        ? new Date(user.vip_expires_at)
+        : now;
+    const expiresAt = new Date(base);
+    expiresAt.setMonth(expiresAt.getMonth() + months);
+    const expiresIso = expiresAt.toISOString();
+
+    db.prepare(
+      `UPDATE vip_orders SET status = 'paid', transaction_id = ?, paid_at = ?, vip_expires_at = ?, updated_at = ?
+       WHERE id = ?`
+    ).run(transactionId, nowIso, expiresIso, nowIso, order.id);
+    db.prepare("UPDATE users SET vip_level = 'vip', vip_expires_at = ?, updated_at = ? WHERE id = ?").run(
+      expiresIso,
+      nowIso,
+      order.user_id
+    );
+    return { order: getVipOrderByOutTradeNo(outTradeNo)!, granted: true };
+  });
+  return run();
+}
+
+// ========== 登录会话与 refresh token ==========
+
+export interface AuthSessionRow {
+  id: string;
+  user_id: number;
+  device_name: string | null;
+  platform: string | null;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+  revoke_reason: string | null;
+}
+
+export interface AuthSessionInput {
+  deviceName?: string;
+  platform?: string;
+  userAgent?: string;
+  ip?: string;
+}
+
+export type RefreshTokenLookup =
+  | { status: 'ok'; session: AuthSessionRow }
+  | { status: 'reused'; session: AuthSessionRow }
+  | { status: 'invalid' };
+
+export function createAuthSession(
+  sessionId: string,
+  userId: number,
+  tokenHash: string,
+  expiresAt: string,
+  input: AuthSessionInput
+): AuthSessionRow {
+  const now = new Date().toISOString();
+  const run = db.transaction(() => {
+    db.prepare(
+      `INSERT INTO auth_sessions
+         (id, user_id, device_name, platform, user_agent, ip, created_at, last_used_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      sessionId,
+      userId,
+      input.deviceName ?? null,
+      input.platform ?? null,
+      input.userAgent ?? null,
+      input.ip ?? null,
+      now,
+      now,
+      expiresAt
+    );
+    db.prepare('INSERT INTO auth_refresh_tokens (token_hash, session_id, created_at) VALUES (?, ?, ?)').run(
+      tokenHash,
+      sessionId,
+      now
+    );
+  });
+  run();
+  return getAuthSession(sessionId)!;
+}
+
+export function getAuthSession(sessionId: string): AuthSessionRow | undefined {
+  return db.prepare('SELECT * FROM auth_sessions WHERE id = ?').get(sessionId) as AuthSessionRow | undefined;
+}
+
+/** 有效会话：未撤销且 refresh token 未过期 */
+export function isAuthSessionActive(session: AuthSessionRow, now = new Date().toISOString()): boolean {
+  return !session.revoked_at && session.expires_at > now;
+}
+
+export function listActiveAuthSessions(userId: number): AuthSessionRow[] {
+  return db
+    .prepare(
+      `SELECT * FROM auth_sessions
+       WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+       ORDER BY last_used_at DESC`
+    )
+    .all(userId, new Date().toISOString()) as AuthSessionRow[];
+}
+
+/**
+ * 轮换 refresh token：旧 token 标记为已轮换并写入新 token，同时顺延会话有效期
+ * 旧 token 已被轮换过则判定为重放，撤销整个会话（token 家族）
+ */
+export function rotateRefreshToken(
+  tokenHash: string,
+  newTokenHash: string,
+  expiresAt: string,
+  meta: { userAgent?: string; ip?: string }
+): RefreshTokenLookup {
+  const run = db.transaction((): RefreshTokenLookup => {
+    const token = db.prepare('SELECT * FROM auth_refresh_tokens WHERE token_hash = ?').get(tokenHash) as
+      | { session_id: string; rotated_at: string | null }
+      | undefined;
+    if (!token) return { status: 'invalid' };
+    const session = getAuthSession(token.session_id);
+    if (!session) return { status: 'invalid' };
+    if (token.rotated_at) {
+      revokeAuthSession(session.user_id, session.id, 'reuse_detected');
+      return { status: 'reused', session: getAuthSession(session.id)! };
+    }
+    const now = new Date().toISOString();
+    if (!isAuthSessionActive(session, now)) return { status: 'invalid' };
+
+    db.prepare('UPDATE auth_refresh_tokens SET rotated_at = ? WHERE token_hash = ?').run(now, tokenHash);
+    db.prepare('INSERT INTO auth_refresh_tokens (token_hash, session_id, created_at) VALUES (?, ?, ?)').run(
+      newTokenHash,
+      session.id,
+      now
+    );
+    db.prepare(
+      `UPDATE auth_sessions
+       SET last_used_at = ?, expires_at = ?, user_agent = COALESCE(?, user_agent), ip = COALESCE(?, ip)
+       WHERE id = ?`
+    ).run(now, expiresAt, meta.userAgent ?? null, meta.ip ?? null, session.id);
+    return { status: 'ok', session: getAuthSession(session.id)! };
+  });
+  return run();
+}
+
+/** 撤销会话；返回 false 表示会话不存在或已撤销 */
+export function revokeAuthSession(userId: number, sessionId: string, reason: string): boolean {
+  const result = db
+    .prepare(
+      'UPDATE auth_sessions SET revoked_at = ?, revoke_reason = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL'
+    )
+    .run(new Date().toISOString(), reason, sessionId, userId);
+  return result.changes > 0;
+}
+
+/** 撤销用户全部会话（可保留当前会话），返回撤销数量 */
+export function revokeAllAuthSessions(userId: number, reason: string, exceptSessionId?: string): number {
+  const result = db
+    .prepare(
+      `UPDATE auth_sessions SET revoked_at = ?, revoke_reason = ?
+       WHERE user_id = ? AND revoked_at IS NULL AND id != ?`
+    )
+    .run(new Date().toISOString(), reason, userId, exceptSessionId ?? '');
+  return result.changes;
+}
+
+// ========== 账号注销与数据导出 ==========
+
+/**
+ * 以 user_id 关联的用户数据表；新增用户数据表时需同步加入，导出与注销删除都依赖此列表
+ * auth_refresh_tokens 通过 session_id 关联，单独处理
+ */
+export const USER_DATA_TABLES = [
+  'emotion_cookies',
+  'cookie_goals',
+  'sync_snapshot',
+  'sync_snapshot_versions',
+  'sync_key_revisions',
+  'user_api_keys',
+  'ai_results',
+  'ai_usage_daily',
+  'vip_orders',
+  'auth_sessions',
+  'user_prompt_overrides',
+  'fortune_tasks',
+] as const;
+
+export type UserDataTable = (typeof USER_DATA_TABLES)[number];
+
+/** 读取用户在各表中的全部原始行（含回收站中的记录）；加密列已解密 */
+export function listUserDataRows(userId: number): Record<UserDataTable, Record<string, unknown>[]> {
+  const out = {} as Record<UserDataTable, Record<string, unknown>[]>;
+  for (const table of USER_DATA_TABLES) {
+    out[table] = db.prepare(`SELECT * FROM ${table} WHERE user_id = ?`).all(userId) as Record<string, unknown>[];
+  }
+  for (const { table, column } of ENCRYPTED_COLUMNS) {
+    // 搜索索引不在导出范围内
+    if (!(USER_DATA_TABLES as readonly string[]).includes(table)) continue;
+    const scope = `${table}.${column}` as EncryptedScope;
+    for (const row of out[table as UserDataTable]) {
+      if (typeof row[column] === 'string') row[column] = decryptField(userId, scope, row[column] as string);
+    }
+  }
+  return out;
+}
+
+export function requestAccountDeletion(userId: number, scheduledAt: string): UserRow {
+  const now = new Date().toISOString();
+  db.prepare(
+    `UPDATE users SET deletion_requested_at = ?, deletion_scheduled_at = ?, updated_at = ?
+     WHERE id = ? AND deletion_requested_at IS NULL`
+  ).run(now, scheduledAt, now, userId);
+  return getUserById(userId)!;
+}
+
+/** 撤销注销申请；返回 false 表示当前没有待执行的注销 */
+export function cancelAccountDeletion(userId: number): boolean {
+  const result = db
+    .prepare(
+      `UPDATE users SET deletion_requested_at = NULL, deletion_scheduled_at = NULL, updated_at = ?
+       WHERE id = ? AND deletion_requested_at IS NOT NULL`
+    )
+    .run(new Date().toISOString(), userId);
+  return result.changes > 0;
+}
+
+export function listUsersDueForDeletion(now = new Date().toISOString()): number[] {
+  return (
+    db
+      .prepare('SELECT id FROM users WHERE deletion_scheduled_at IS NOT NULL AND deletion_scheduled_at <= ?')
+      .all(now) as Array<{ id: number }>
+  ).map((r) => r.id);
+}
+
+/** 彻底删除用户及其全部数据（同一事务内完成） */
+export function deleteUserCascade(userId: number): void {
+  const run = db.transaction(() => {
+    db.prepare(
+      'DELETE FROM auth_refresh_tokens WHERE session_id IN (SELECT id FROM auth_sessions WHERE user_id = ?)'
+    ).run(userId);
+    for (const table of USER_DATA_TABLES) {
+      db.prepare(`DELETE FROM ${table} WHERE user_id = ?`).run(userId);
+    }
+    // 数据密钥与搜索索引不在 USER_DATA_TABLES 中（不导出），单独删除
+    deleteUserDataKeys(userId);
+    deleteUserSearchDocs(userId);
+    db.prepare('DELETE FROM users WHERE id = ?').run(userId);
+  });
+  run();
+}
+
+// ========== 提示词模板（prompt_template_versions / prompt_template_active / user_prompt_overrides） ==========
+
+export interface PromptVersionRow {
+  id: number;
+  template_key: string;
+  version: number;
+  content: string;
+  note: string | null;
+  created_at: string;
+}
+
+export interface PromptActiveRow {
+  template_key: string;
+  version: number;
+  previous_version: number | null;
+  updated_at: string;
+}
+
+export interface UserPromptOverrideRow {
+  user_id: number;
+  template_key: string;
+  content: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export function listPromptVersions(key: string): PromptVersionRow[] {
+  return db
+    .prepare('SELECT * FROM prompt_template_versions WHERE template_key = ? ORDER BY version DESC')
+    .all(key) as PromptVersionRow[];
+}
+
+export function getPromptVersion(key: string, version: number): PromptVersionRow | undefined {
+  return db
+    .prepare('SELECT * FROM prompt_template_versions WHERE template_key = ? AND version = ?')
+    .get(key, version) as PromptVersionRow | undefined;
+}
+
+/** 新增版本，版本号为该模板当前最大版本 + 1 */
+export function insertPromptVersion(key: string, content: string, note: string | null): PromptVersionRow {
+  const run = db.transaction(() => {
+    const { next } = db
+      .prepare('SELECT COALESCE(MAX(version), 0) + 1 AS next FROM prompt_template_versions WHERE template_key = ?')
+      .get(key) as { next: number };
+    db.prepare(
+      'INSERT INTO prompt_template_versions (template_key, version, content, note, created_at) VALUES (?, ?, ?, ?, ?)'
+    ).run(key, next, content, note, new Date().toISOString());
+    return getPromptVersion(key, next)!;
+  });
+  return run();
+}
+
+export function getActivePromptState(key: string): PromptActiveRow | undefined {
+  return db.prepare('SELECT * FROM prompt_template_active WHERE template_key = ?').get(key) as
+    | PromptActiveRow
+    | undefined;
+}
+
+export function listActivePromptStates(): PromptActiveRow[] {
+  return db.prepare('SELECT * FROM prompt_template_active').all() as PromptActiveRow[];
+}
+
+/** 切换启用版本，原启用版本记为 previous_version（没有记录时视为内置版本 0） */
+export function setActivePromptVersion(key: string, version: number): PromptActiveRow {
+  const previous = getActivePromptState(key)?.version ?? 0;
+  db.prepare(
+    `INSERT INTO prompt_template_active (template_key, version, previous_version, updated_at) VALUES (?, ?, ?, ?)
+     ON CONFLICT(template_key) DO UPDATE SET
+       version = excluded.version, previous_version = excluded.previous_version, updated_at = excluded.updated_at`
+  ).run(key, version, previous, new Date().toISOString());
+  return getActivePromptState(key)!;
+}
+
+export function listUserPromptOverrides(userId: number): UserPromptOverrideRow[] {
+  return db
+    .prepare('SELECT * FROM user_prompt_overrides WHERE user_id = ? ORDER BY template_key')
+    .all(userId) as UserPromptOverrideRow[];
+}
+
+export function getUserPromptOverride(userId: number, key: string): UserPromptOverrideRow | undefined {
+  return db
+    .prepare('SELECT * FROM user_prompt_overrides WHERE user_id = ? AND template_key = ?')
+    .get(userId, key) as UserPromptOverrideRow | undefined;
+}
+
+export function upsertUserPromptOverride(userId: number, key: string, content: string): UserPromptOverrideRow {
+  const now = new Date().toISOString();
+  db.prepare(
+    `INSERT INTO user_prompt_overrides (user_id, template_key, content, created_at, updated_at) VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(user_id, template_key) DO UPDATE SET content = excluded.content, updated_at = excluded.updated_at`
+  ).run(userId, key, content, now, now);
+  return getUserPromptOverride(userId, key)!;
+}
+
+export function deleteUserPromptOverride(userId: number, key: string): boolean {
+  const result = db
+    .prepare('DELETE FROM user_prompt_overrides WHERE user_id = ? AND template_key = ?')
+    .run(userId, key);
+  return result.changes > 0;
+}
+
+// ========== 幸运饼干任务（fortune_tasks） ==========
+
+export type FortuneTaskStatus = 'pending' | 'accepted' | 'completed' | 'skipped';
+
+export interface FortuneTaskRow {
+  id: number;
+  user_id: number;
+  category: string;
+  content: string;
+  date: string;
+  status: FortuneTaskStatus;
+  prompt_version: string | null;
+  source: FortuneTaskSource;
+  library_id: number | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export type FortuneTaskSource = 'ai' | 'offline';
+
+export function insertFortuneTask(
+  userId: number,
+  input: {
+    category: string;
+    content: string;
+    date: string;
+    promptVersion: string | null;
+    source?: FortuneTaskSource;
+    libraryId?: number | null;
+  }
+): FortuneTaskRow {
+  const now = new Date().toISOString();
+  const result = db
+    .prepare(
+      `INSERT INTO fortune_tasks (user_id, category, content, date, status, prompt_version, source, library_id, created_at, updated_at)
+       VALUES (?, ?, ?, ?, 'pending', ?, ?, ?, ?, ?)`
+    )
+    .run(
+      userId,
+      input.category,
+      input.content,
+      input.date,
+      input.promptVersion,
+      input.source ?? 'ai',
+      input.libraryId ?? null,
+      now,
+      now
+    );
+  return db.prepare('SELECT * FROM fortune_tasks WHERE id = ?').get(result.lastInsertRowid) as FortuneTaskRow;
+}
+
+export function getFortuneTask(userId: number, id: number): FortuneTaskRow | undefined {
+  return db
+    .prepare('SELECT * FROM fortune_tasks WHERE id = ? AND user_id = ?')
+    .get(id, userId) as FortuneTaskRow | undefined;
+}
+
+/** 某时间之后生成的任务（created_at 倒序），用于去重 */
+export function listRecentFortuneTasks(userId: number, since: string, limit: number): FortuneTaskRow[] {
+  return db
+    .prepare('SELECT * FROM fortune_tasks WHERE user_id = ? AND created_at >= ? ORDER BY created_at DESC LIMIT ?')
+    .all(userId, since, limit) as FortuneTaskRow[];
+}
+
+/** 任务历史（id 倒序）；beforeId 为游标，多取一条判断是否还有下一页 */
+export function listFortuneTasks(
+  userId: number,
+  opts: { category?: string; status?: string; from?: string; to?: string; beforeId?: number; limit: number }
+): { rows: FortuneTaskRow[]; hasMore: boolean } {
+  const where = ['user_id = ?'];
+  const params: unknown[] = [userId];
+  if (opts.category) {
+    where.push('category = ?');
+    params.push(opts.category);
+  }
+  if (opts.status) {
+    where.push('status = ?');
+    params.push(opts.status);
+  }
+  if (opts.from) {
+    where.push('date >= ?');
+    params.push(opts.from);
+  }
+  if (opts.to) {
+    where.push('date <= ?');
+    params.push(opts.to);
+  }
+  if (opts.beforeId) {
+    where.push('id < ?');
+    params.push(opts.beforeId);
+  }
+  const rows = db
+    .prepare(`SELECT * FROM fortune_tasks WHERE ${where.join(' AND ')} ORDER BY id DESC LIMIT ?`)
+    .all(...params, opts.limit + 1) as FortuneTaskRow[];
+  return { rows: rows.slice(0, opts.limit), hasMore: rows.length > opts.limit };
+}
+
+/**
+ * 状态流转：仅当当前状态在 from 中时更新，返回更新后的行
+ * 状态不允许时返回 'conflict'，任务不存在返回 undefined
+ */
+export function updateFortuneTaskStatus(
+  userId: number,
+  id: number,
+  from: FortuneTaskStatus[],
+  to: FortuneTaskStatus
+): FortuneTaskRow | 'conflict' | undefined {
+  const now = new Date().toISOString();
+  const result = db
+    .prepare(
+      `UPDATE fortune_tasks SET status = ?, updated_at = ?, completed_at = CASE WHEN ? = 'completed' THEN ? ELSE completed_at END
+       WHERE id = ? AND user_id = ? AND status IN (${from.map(() => '?').join(', ')})`
+    )
+    .run(to, now, to, now, id, userId, ...from);
+  if (result.changes > 0) return getFortuneTask(userId, id);
+  return getFortuneTask(userId, id) ? 'conflict' : undefined;
+}
+
+export interface FortuneCategoryCounts {
+  category: string;
+  generated: number;
+  accepted: number;
+  completed: number;
+  skipped: number;
+  last_completed_at: string | null;
+}
+
+/** 按板块统计各状态的任务数量；accepted 为已接受、尚未完成或跳过的任务 */
+export function countFortuneTasksByCategory(userId: number, from?: string, to?: string): FortuneCategoryCounts[] {
+  const where = ['user_id = ?'];
+  const params: unknown[] = [userId];
+  if (from) {
+    where.push('date >= ?');
+    params.push(from);
+  }
+  if (to) {
+    where.push('date <= ?');
+    params.push(to);
+  }
+  return db
+    .prepare(
+      `SELECT category,
+              COUNT(*) AS generated,
+              SUM(status = 'accepted') AS accepted,
+              SUM(status = 'completed') AS completed,
+              SUM(status = 'skipped') AS skipped,
+              MAX(completed_at) AS last_completed_at
+       FROM fortune_tasks WHERE ${where.join(' AND ')}
+       GROUP BY category`
+    )
+    .all(...params) as FortuneCategoryCounts[];
+}
+
+// ========== 离线任务库（fortune_library） ==========
+
+export type FortuneDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface FortuneLibraryRow {
+  id: number;
+  category: string;
+  content: string;
+  tags: string; // JSON 字符串数组
+  difficulty: FortuneDifficulty;
+  weight: number;
+  enabled: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FortuneLibraryInput {
+  category: string;
+  content: string;
+  tags: string[];
+  difficulty: FortuneDifficulty;
+  weight: number;
+  enabled: boolean;
+}
+
+export function getFortuneLibraryItem(id: number): FortuneLibraryRow | undefined {
+  return db.prepare('SELECT * FROM fortune_library WHERE id = ?').get(id) as FortuneLibraryRow | undefined;
+}
+
+/** 任务库列表（id 升序）；enabled 不传时包含停用条目 */
+export function listFortuneLibrary(
+  opts: { category?: string; difficulty?: string; enabled?: boolean } = {}
+): FortuneLibraryRow[] {
+  const where = ['1 = 1'];
+  const params: unknown[] = [];
+  if (opts.category) {
+    where.push('category = ?');
+    params.push(opts.category);
+  }
+  if (opts.difficulty) {
+    where.push('difficulty = ?');
+    params.push(opts.difficulty);
+  }
+  if (opts.enabled !== undefined) {
+    where.push('enabled = ?');
+    params.push(opts.enabled ? 1 : 0);
+  }
+  return db
+    .prepare(`SELECT * FROM fortune_library WHERE ${where.join(' AND ')} ORDER BY id`)
+    .all(...params) as FortuneLibraryRow[];
+}
+
+export function insertFortuneLibraryItem(input: FortuneLibraryInput): FortuneLibraryRow {
+  const now = new Date().toISOString();
+  const result = db
+    .prepare(
+      `INSERT INTO fortune_library (category, content, tags, difficulty, weight, enabled, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      input.category,
+      input.content,
+      JSON.stringify(input.tags),
+      input.difficulty,
+      input.weight,
+      input.enabled ? 1 : 0,
+      now,
+      now
+    );
+  return getFortuneLibraryItem(Number(result.lastInsertRowid))!;
+}
+
+/** 只更新传入的字段；条目不存在返回 undefined */
+export function updateFortuneLibraryItem(
+  id: number,
+  patch: Partial<FortuneLibraryInput>
+): FortuneLibraryRow | undefined {
+  const current = getFortuneLibraryItem(id);
+  if (!current) return undefined;
+  db.prepare(
+    `UPDATE fortune_library SET category = ?, content = ?, tags = ?, difficulty = ?, weight = ?, enabled = ?, updated_at = ?
+     WHERE id = ?`
+  ).run(
+    patch.category ?? current.category,
+    patch.content ?? current.content,
+    patch.tags ? JSON.stringify(patch.tags) : current.tags,
+    patch.difficulty ?? current.difficulty,
+    patch.weight ?? current.weight,
+    patch.enabled === undefined ? current.enabled : patch.enabled ? 1 : 0,
+    new Date().toISOString(),
+    id
+  );
+  return getFortuneLibraryItem(id);
+}
+
+/** 删除条目；已抽取过的任务保留内容，library_id 仍指向原 id */
+export function deleteFortuneLibraryItem(id: number): boolean {
+  return db.prepare('DELETE FROM fortune_library WHERE id = ?').run(id).changes > 0;
+}
+
+// ========== 风险识别审计（匿名） ==========
+
+export function insertSafetyEvent(event: {
+  kind: string;
+  stage: 'input' | 'output';
+  level: string;
+  categories: string[];
+  matchCount: number;
+  action: string;
+}): void {
+  db.prepare(
+    `INSERT INTO safety_events (kind, stage, level, categories, match_count, action, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    event.kind,
+    event.stage,
+    event.level,
+    JSON.stringify(event.categories),
+    event.matchCount,
+    event.action,
+    new Date().toISOString()
+  );
+}
+
+// ========== 管理后台：用户查询、VIP 与停用、元数据、全站统计、审计日志 ==========
+
+/** 按 id、openid、手机号精确查找；纯数字且不少于 4 位时也按手机号尾号匹配 */
+export function searchUsers(q: string, limit: number): UserRow[] {
+  const conditions = ['wx_open_id = ?', 'phone = ?'];
+  const params: Array<string | number> = [q, q];
+  if (/^\d+$/.test(q)) {
+    conditions.push('id = ?');
+    params.push(Number(q));
+    if (q.length >= 4) {
+      conditions.push('phone LIKE ?');
+      params.push(`%${q}`);
+    }
+  }
+  return db
+    .prepare(`SELECT * FROM users WHERE ${conditions.join(' OR ')} ORDER BY id LIMIT ?`)
+    .all(...params, limit) as UserRow[];
+}
+
+/** 管理员设置会员状态；vipExpiresAt 为 null 表示长期有效（降为 free 时一并清空） */
+export function setUserVip(userId: number, vipLevel: 'free' | 'vip', vipExpiresAt: string | null): UserRow | undefined {
+  db.prepare('UPDATE users SET vip_level = ?, vip_expires_at = ?, updated_at = ? WHERE id = ?').run(
+    vipLevel,
+    vipLevel === 'vip' ? vipExpiresAt : null,
+    new Date().toISOString(),
+    userId
+  );
+  return getUserById(userId);
+}
+
+/** 停用账号并撤销全部会话（同一事务）；返回 false 表示已处于停用状态 */
+export function disableUser(userId: number, reason: string | null): boolean {
+  const run = db.transaction(() => {
+    const now = new Date().toISOString();
+    const result = db
+      .prepare('UPDATE users SET disabled_at = ?, disabled_reason = ?, updated_at = ? WHERE id = ? AND disabled_at IS NULL')
+      .run(now, reason, now, userId);
+    if (result.changes === 0) return false;
+    revokeAllAuthSessions(userId, 'account_disabled');
+    return true;
+  });
+  return run();
+}
+
+/** 恢复账号；被撤销的会话不会恢复，用户需重新登录。返回 false 表示未被停用 */
+export function enableUser(userId: number): boolean {
+  const result = db
+    .prepare(
+      'UPDATE users SET disabled_at = NULL, disabled_reason = NULL, updated_at = ? WHERE id = ? AND disabled_at IS NOT NULL'
+    )
+    .run(new Date().toISOString(), userId);
+  return result.changes > 0;
+}
+
+export interface EmotionDayMetaRow {
+  date: string;
+  /** 落库大小（启用加密时为密文长度） */
+  stored_bytes: number;
+  created_at: string;
+  updated_at: string;
+  is_deleted: number;
+}
+
+/** 情绪饼干元数据（不读取正文，含回收站中的记录） */
+export function listEmotionDayMeta(userId: number): EmotionDayMetaRow[] {
+  return db
+    .prepare(
+      `SELECT date, length(data) AS stored_bytes, created_at, updated_at, is_deleted
+       FROM emotion_cookies WHERE user_id = ? ORDER BY date DESC, id DESC`
+    )
+    .all(userId) as EmotionDayMetaRow[];
+}
+
+/** 当前同步快照的更新时间与落库大小（不读取正文） */
+export function getSyncSnapshotMeta(userId: number): { stored_bytes: number; updated_at: string } | undefined {
+  return db
+    .prepare('SELECT length(data) AS stored_bytes, updated_at FROM sync_snapshot WHERE user_id = ?')
+    .get(userId) as { stored_bytes: number; updated_at: string } | undefined;
+}
+
+/** 用户在各数据表中的行数 */
+export function countUserDataRows(userId: number): Record<UserDataTable, number> {
+  const out = {} as Record<UserDataTable, number>;
+  for (const table of USER_DATA_TABLES) {
+    out[table] = (db.prepare(`SELECT COUNT(*) AS n FROM ${table} WHERE user_id = ?`).get(userId) as { n: number }).n;
+  }
+  return out;
+}
+
+/** 全站按接口汇总 [fromDay, toDay] 内的 AI 调用次数 */
+export function sumAllAiUsageByTask(fromDay: string, toDay: string): Record<string, number> {
+  const rows = db
+    .prepare('SELECT task, SUM(count) AS total FROM ai_usage_daily WHERE day >= ? AND day <= ? GROUP BY task')
+    .all(fromDay, toDay) as Array<{ task: string; total: number }>;
+  return Object.fromEntries(rows.map((r) => [r.task, r.total]));
+}
+
+export interface ServiceCounts {
+  users: { total: number; vip: number; disabled: number; pendingDeletion: number; newSince: number; activeSince: number };
+  content: { emotionDays: number; snapshots: number; goals: number; aiResults: number; fortuneTasks: number };
+  orders: { paidSince: number; revenueFenSince: number };
+  safetyEventsSince: Record<string, number>;
+}
+
+/** 全站聚合计数；带 Since 的字段只统计 since（ISO 时间）之后 */
+export function getServiceCounts(since: string, now = new Date().toISOString()): ServiceCounts {
+  const count = (sql: string, ...params: string[]) => (db.prepare(sql).get(...params) as { n: number }).n;
+  const orders = db
+    .prepare("SELECT COUNT(*) AS n, COALESCE(SUM(amount_fen), 0) AS total FROM vip_orders WHERE status = 'paid' AND paid_at >= ?")
+    .get(since) as { n: number; total: number };
+  const safety = db
+    .prepare('SELECT level, COUNT(*) AS n FROM safety_events WHERE created_at >= ? GROUP BY level')
+    .all(since) as Array<{ level: string; n: number }>;
+  return {
+    users: {
+      total: count('SELECT COUNT(*) AS n FROM users'),
+      vip: count(
+        "SELECT COUNT(*) AS n FROM users WHERE vip_level = 'vip' AND (vip_expires_at IS NULL OR vip_expires_at > ?)",
+        now
+      ),
+      disabled: count('SELECT COUNT(*) AS n FROM users WHERE disabled_at IS NOT NULL'),
+      pendingDeletion: count('SELECT COUNT(*) AS n FROM users WHERE deletion_requested_at IS NOT NULL'),
+      newSince: count('SELECT COUNT(*) AS n FROM users WHERE created_at >= ?', since),
+      // 以会话最近使用时间近似活跃（刷新 token 时更新）
+      activeSince: count('SELECT COUNT(DISTINCT user_id) AS n FROM auth_sessions WHERE last_used_at >= ?', since),
+    },
+    content: {
+      emotionDays: count('SELECT COUNT(*) AS n FROM emotion_cookies WHERE is_deleted = 0'),
+      snapshots: count('SELECT COUNT(*) AS n FROM sync_snapshot'),
+      goals: count('SELECT COUNT(*) AS n FROM cookie_goals'),
+      aiResults: count('SELECT COUNT(*) AS n FROM ai_results'),
+      fortuneTasks: count('SELECT COUNT(*) AS n FROM fortune_tasks'),
+    },
+    orders: { paidSince: orders.n, revenueFenSince: orders.total },
+    safetyEventsSince: Object.fromEntries(safety.map((r) => [r.level, r.n])),
+  };
+}
+
+export interface AdminAuditRow {
+  id: number;
+  admin: string | null;
+  role: string | null;
+  method: string;
+  path: string;
+  action: string;
+  target_user_id: number | null;
+  details: string | null;
+  status: number;
+  ip: string | null;
+  created_at: string;
+}
+
+export type AdminAuditInput = Omit<AdminAuditRow, 'id' | 'created_at'>;
+
+/** 追加一条审计记录（表上有触发器，已写入的记录不能修改或删除） */
+export function insertAdminAudit(entry: AdminAuditInput): void {
+  db.prepare(
+    `INSERT INTO admin_audit_log (admin, role, method, path, action, target_user_id, details, status, ip, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    entry.admin,
+    entry.role,
+    entry.method,
+    entry.path,
+    entry.action,
+    entry.target_user_id,
+    entry.details,
+    entry.status,
+    entry.ip,
+    new Date().toISOString()
+  );
+}
+
+/** 按 id 倒序分页；beforeId 为上一页最后一条的 id */
+export function listAdminAudit(
+  filter: { admin?: string; action?: string; targetUserId?: number; beforeId?: number },
+  limit: number
+): AdminAuditRow[] {
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+  if (filter.admin !== undefined) {
+    conditions.push('admin = ?');
+    params.push(filter.admin);
+  }
+  if (filter.action !== undefined) {
+    conditions.push('action = ?');
+    params.push(filter.action);
+  }
+  if (filter.targetUserId !== undefined) {
+    conditions.push('target_user_id = ?');
+    params.push(filter.targetUserId);
+  }
+  if (filter.beforeId !== undefined) {
+    conditions.push('id < ?');
+    params.push(filter.beforeId);
+  }
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+  return db
+    .prepare(`SELECT * FROM admin_audit_log ${where} ORDER BY id DESC LIMIT ?`)
+    .all(...params, limit) as AdminAuditRow[];
 }
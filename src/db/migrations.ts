@@ -0,0 +1,563 @@
+// 数据库迁移：按版本号顺序执行，已应用的版本记录在 schema_migrations；每个迁移在独立事务中执行
+// 新增表或列时在 MIGRATIONS 末尾追加新版本，已发布的迁移不要再修改
+import type { Database } from 'better-sqlite3';
+import path from 'path';
+import fs from 'fs';
+import { dataDir } from './connection';
+import { FORTUNE_LIBRARY_SEED } from './fortuneLibrarySeed';
+import { isFieldEncryptionEnabled, encryptExistingRows } from './fieldCrypto';
+import { createLogger } from '../services/logger';
+
+const log = createLogger('db');
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database) => void;
+}
+
+export interface MigrationStatus {
+  current: number;
+  latest: number;
+  applied: Array<{ version: number; name: string; appliedAt: string }>;
+  pending: Array<{ version: number; name: string }>;
+}
+
+/** 旧表补列；1～8 号迁移可能在引入迁移机制前已建好的库上执行，需要幂等 */
+function addColumnIfMissing(db: Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline',
+    up: (db) =>
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          wx_open_id TEXT NOT NULL UNIQUE,
+          phone TEXT,
+          vip_level TEXT NOT NULL DEFAULT 'free',
+          settings TEXT DEFAULT '{}',
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_users_wx_open_id ON users(wx_open_id);
+
+        -- 情绪饼干：一行代表某用户某一天的数据（entries/analysis 以 JSON 文本存储）
+        CREATE TABLE IF NOT EXISTS emotion_cookies (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          date TEXT NOT NULL,
+          data TEXT NOT NULL, -- { entries: CookieEntry[], analysis?: string }
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          is_deleted INTEGER NOT NULL DEFAULT 0,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_emotion_cookies_user_date
+          ON emotion_cookies(user_id, date);
+
+        -- 目标数据：与 README 中 cookie_goals 表对齐，steps 等结构也放 JSON
+        CREATE TABLE IF NOT EXISTS cookie_goals (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          steps TEXT NOT NULL, -- GoalStep[] JSON
+          candy_count INTEGER NOT NULL DEFAULT 0,
+          is_completed INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_cookie_goals_user
+          ON cookie_goals(user_id);
+
+        -- 云端同步快照：每个用户一份完整 JSON，便于上传/恢复（不占手机内存）
+        CREATE TABLE IF NOT EXISTS sync_snapshot (
+          user_id INTEGER PRIMARY KEY,
+          data TEXT NOT NULL DEFAULT '{}',
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+      `),
+  },
+  {
+    version: 2,
+    name: 'sync_history_and_revisions',
+    up: (db) =>
+      db.exec(`
+        -- 快照历史版本：每次上传/恢复都留一份，按保留策略清理；summary 为各 key 的大小与条数
+        CREATE TABLE IF NOT EXISTS sync_snapshot_versions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          data TEXT NOT NULL,
+          summary TEXT NOT NULL DEFAULT '{}',
+          source TEXT NOT NULL DEFAULT 'upload', -- upload | restore
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_sync_snapshot_versions_user
+          ON sync_snapshot_versions(user_id, created_at);
+
+        -- 增量同步：快照中每个 key 的最新 revision（同一用户内单调递增），is_deleted 表示 key 已被移除
+        CREATE TABLE IF NOT EXISTS sync_key_revisions (
+          user_id INTEGER NOT NULL,
+          key TEXT NOT NULL,
+          revision INTEGER NOT NULL,
+          is_deleted INTEGER NOT NULL DEFAULT 0,
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          PRIMARY KEY (user_id, key),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+      `),
+  },
+  {
+    version: 3,
+    name: 'user_api_keys',
+    up: (db) =>
+      db.exec(`
+        -- 用户托管的 AI API Key：只存主密钥加密后的密文与掩码，不存明文
+        CREATE TABLE IF NOT EXISTS user_api_keys (
+          user_id INTEGER NOT NULL,
+          provider TEXT NOT NULL DEFAULT 'deepseek',
+          ciphertext TEXT NOT NULL,
+          key_hint TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          PRIMARY KEY (user_id, provider),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+      `),
+  },
+  {
+    version: 4,
+    name: 'ai_results',
+    up: (db) =>
+      db.exec(`
+        -- AI 生成结果：日记 / 心理日记 / 长期分析等，按输入哈希缓存，同样的输入不再重复调用大模型
+        CREATE TABLE IF NOT EXISTS ai_results (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          kind TEXT NOT NULL, -- daily | diary | counselorDiary | longTerm
+          date TEXT, -- 单日结果对应的日期
+          range_from TEXT, -- 多日结果的起止日期
+          range_to TEXT,
+          prompt_version TEXT NOT NULL,
+          inputs_hash TEXT NOT NULL,
+          request TEXT NOT NULL, -- { systemPrompt, userContent }，用于重新生成
+          result TEXT NOT NULL, -- 与接口返回的 data 相同的 JSON
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_ai_results_user_kind_hash
+          ON ai_results(user_id, kind, inputs_hash);
+        CREATE INDEX IF NOT EXISTS idx_ai_results_user_date
+          ON ai_results(user_id, date);
+      `),
+  },
+  {
+    version: 5,
+    name: 'ai_usage_daily',
+    up: (db) =>
+      db.exec(`
+        -- AI 调用用量：按用户 + 接口 + 自然日累计，月用量由当月各日相加
+        CREATE TABLE IF NOT EXISTS ai_usage_daily (
+          user_id INTEGER NOT NULL,
+          task TEXT NOT NULL,
+          day TEXT NOT NULL, -- YYYY-MM-DD
+          count INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (user_id, task, day),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+      `),
+  },
+  {
+    version: 6,
+    name: 'vip_orders',
+    up: (db) => {
+      db.exec(`
+        -- VIP 订单：out_trade_no 为商户订单号；支付成功后记录微信支付单号与本单授予的到期时间
+        CREATE TABLE IF NOT EXISTS vip_orders (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          out_trade_no TEXT NOT NULL UNIQUE,
+          user_id INTEGER NOT NULL,
+          plan TEXT NOT NULL, -- monthly | yearly
+          amount_fen INTEGER NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending', -- pending | paid | closed
+          prepay_id TEXT,
+          transaction_id TEXT,
+          paid_at TEXT,
+          vip_expires_at TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_vip_orders_user
+          ON vip_orders(user_id, created_at);
+      `);
+      addColumnIfMissing(db, 'users', 'vip_expires_at', 'TEXT');
+    },
+  },
+  {
+    version: 7,
+    name: 'auth_sessions',
+    up: (db) =>
+      db.exec(`
+        -- 登录会话（每台设备一条）：一次登录产生的 refresh token 轮换链即一个 token 家族，撤销会话即作废整个家族
+        CREATE TABLE IF NOT EXISTS auth_sessions (
+          id TEXT PRIMARY KEY,
+          user_id INTEGER NOT NULL,
+          device_name TEXT,
+          platform TEXT,
+          user_agent TEXT,
+          ip TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          last_used_at TEXT NOT NULL DEFAULT (datetime('now')),
+          expires_at TEXT NOT NULL,
+          revoked_at TEXT,
+          revoke_reason TEXT, -- logout | revoked | reuse_detected | account_deletion
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_auth_sessions_user
+          ON auth_sessions(user_id, revoked_at);
+
+        -- refresh token 只存哈希；rotated_at 非空表示已被轮换，再次出现即为重放
+        CREATE TABLE IF NOT EXISTS auth_refresh_tokens (
+          token_hash TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          rotated_at TEXT,
+          FOREIGN KEY (session_id) REFERENCES auth_sessions(id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_auth_refresh_tokens_session
+          ON auth_refresh_tokens(session_id);
+      `),
+  },
+  {
+    version: 8,
+    name: 'account_deletion',
+    up: (db) => {
+      addColumnIfMissing(db, 'users', 'deletion_requested_at', 'TEXT');
+      addColumnIfMissing(db, 'users', 'deletion_scheduled_at', 'TEXT');
+    },
+  },
+  {
+    version: 9,
+    name: 'safety_events',
+    up: (db) =>
+      db.exec(`
+        -- 风险识别审计：不记录用户 id 与原文，只记录接口、阶段、等级、类别与处理方式
+        CREATE TABLE safety_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          kind TEXT NOT NULL, -- daily | diary | counselorDiary | longTerm
+          stage TEXT NOT NULL, -- input | output
+          level TEXT NOT NULL, -- low | medium | high
+          categories TEXT NOT NULL DEFAULT '[]',
+          match_count INTEGER NOT NULL DEFAULT 0,
+          action TEXT NOT NULL, -- blocked | withheld | notice
+          created_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        CREATE INDEX idx_safety_events_created ON safety_events(created_at);
+      `),
+  },
+  {
+    version: 10,
+    name: 'ai_results_defaulted_fields',
+    up: (db) =>
+      // 结构化输出校验未通过、由默认值补齐的字段路径（JSON 数组），全部合格时为 NULL
+      db.exec('ALTER TABLE ai_results ADD COLUMN defaulted_fields TEXT'),
+  },
+  {
+    version: 11,
+    name: 'prompt_templates',
+    up: (db) => {
+      db.exec(`
+        -- 提示词模板版本：每个模板的版本号从 1 递增，内容不可修改
+        CREATE TABLE prompt_template_versions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          template_key TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          content TEXT NOT NULL,
+          note TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          UNIQUE (template_key, version)
+        );
+
+        -- 各模板当前启用的版本（0 为代码内置内容，没有记录同样视为内置）；previous_version 供回滚
+        CREATE TABLE prompt_template_active (
+          template_key TEXT PRIMARY KEY,
+          version INTEGER NOT NULL,
+          previous_version INTEGER,
+          updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+
+        -- 用户对可覆盖模板保存的自定义指令
+        CREATE TABLE user_prompt_overrides (
+          user_id INTEGER NOT NULL,
+          template_key TEXT NOT NULL,
+          content TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          PRIMARY KEY (user_id, template_key),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+      `);
+      // 原 settings.diaryCustomPrompt 迁为 diary 模板的用户覆盖，并从设置中移除
+      const users = db
+        .prepare("SELECT id, settings FROM users WHERE settings LIKE '%diaryCustomPrompt%'")
+        .all() as Array<{ id: number; settings: string }>;
+      const insert = db.prepare('INSERT INTO user_prompt_overrides (user_id, template_key, content) VALUES (?, ?, ?)');
+      const update = db.prepare('UPDATE users SET settings = ? WHERE id = ?');
+      for (const user of users) {
+        let settings: Record<string, unknown>;
+        try {
+          settings = JSON.parse(user.settings);
+        } catch {
+          continue;
+        }
+        const prompt = settings.diaryCustomPrompt;
+        if (typeof prompt === 'string' && prompt.trim()) insert.run(user.id, 'diary', prompt.trim());
+        delete settings.diaryCustomPrompt;
+        update.run(JSON.stringify(settings), user.id);
+      }
+    },
+  },
+  {
+    version: 12,
+    name: 'fortune_tasks',
+    up: (db) =>
+      db.exec(`
+        -- 幸运饼干任务：每次生成一条，记录用户是否接受、完成或跳过
+        CREATE TABLE fortune_tasks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          category TEXT NOT NULL,
+          content TEXT NOT NULL,
+          date TEXT NOT NULL, -- 生成当天（用户时区）YYYY-MM-DD
+          status TEXT NOT NULL DEFAULT 'pending', -- pending | accepted | completed | skipped
+          prompt_version TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          completed_at TEXT,
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+        CREATE INDEX idx_fortune_tasks_user_created ON fortune_tasks(user_id, created_at);
+        CREATE INDEX idx_fortune_tasks_user_date ON fortune_tasks(user_id, date);
+      `),
+  },
+  {
+    version: 13,
+    name: 'fortune_library',
+    up: (db) => {
+      db.exec(`
+        -- 离线幸运饼干任务库：没有可用 AI 时按权重随机抽取，由管理接口维护
+        CREATE TABLE fortune_library (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          category TEXT NOT NULL,
+          content TEXT NOT NULL,
+          tags TEXT NOT NULL DEFAULT '[]', -- JSON 字符串数组
+          difficulty TEXT NOT NULL DEFAULT 'easy', -- easy | medium | hard
+          weight INTEGER NOT NULL DEFAULT 10,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        CREATE INDEX idx_fortune_library_category ON fortune_library(category, enabled);
+
+        -- 任务来源：ai 为模型生成，offline 为从任务库抽取（library_id 指向 fortune_library）
+        ALTER TABLE fortune_tasks ADD COLUMN source TEXT NOT NULL DEFAULT 'ai';
+        ALTER TABLE fortune_tasks ADD COLUMN library_id INTEGER;
+      `);
+      const insert = db.prepare(
+        'INSERT INTO fortune_library (category, content, tags, difficulty) VALUES (?, ?, ?, ?)'
+      );
+      for (const item of FORTUNE_LIBRARY_SEED) {
+        insert.run(item.category, item.content, JSON.stringify(item.tags), item.difficulty);
+      }
+    },
+  },
+  {
+    version: 14,
+    name: 'user_data_keys',
+    up: (db) => {
+      db.exec(`
+        -- 字段级加密的数据密钥：每个用户一把启用中的密钥（active = 1），由主密钥包装后保存
+        CREATE TABLE user_data_keys (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          wrapped_key TEXT NOT NULL,
+          master_key_id TEXT NOT NULL, -- 包装所用主密钥的指纹，轮换主密钥时据此找到旧主密钥
+          active INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+        CREATE INDEX idx_user_data_keys_user ON user_data_keys(user_id, active);
+      `);
+      // 已配置主密钥时顺带加密存量数据；之后才配置的，用 npm run db -- encrypt 补做
+      if (isFieldEncryptionEnabled()) {
+        const count = encryptExistingRows();
+        log.info('已加密存量数据', { rows: count });
+      }
+    },
+  },
+  {
+    version: 15,
+    name: 'search_index',
+    up: (db) =>
+      db.exec(`
+        -- 搜索文档：每条 entry / 分析 / 目标标题一行；content 为展示用正文（与情绪饼干一样加密保存）
+        CREATE TABLE search_docs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          origin TEXT NOT NULL, -- cookie | snapshot | goal | ai_result
+          ref TEXT NOT NULL, -- 来源内的定位：日期、目标 id、AI 结果 id，快照为 current
+          kind TEXT NOT NULL, -- entry | analysis | goal
+          entry_type TEXT, -- entry 的 type（HMAC 后保存，只用于筛选）
+          date TEXT,
+          content TEXT NOT NULL,
+          fingerprint TEXT NOT NULL, -- 去重用：同一内容在云端与快照中各有一份时只返回一条
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          FOREIGN KEY (user_id) REFERENCES users(id)
+        );
+        CREATE INDEX idx_search_docs_source ON search_docs(user_id, origin, ref);
+        CREATE INDEX idx_search_docs_user_date ON search_docs(user_id, date);
+
+        -- rowid 与 search_docs.id 一致；两列都是 HMAC 后的词元，以空格分隔
+        CREATE VIRTUAL TABLE search_fts USING fts5(bigrams, unigrams);
+
+        -- 记录建索引所用的密钥指纹，不一致（含从未建过）时启动时自动重建
+        CREATE TABLE search_index_meta (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `),
+  },
+  {
+    version: 16,
+    name: 'admin_audit_and_user_disable',
+    up: (db) => {
+      addColumnIfMissing(db, 'users', 'disabled_at', 'TEXT');
+      addColumnIfMissing(db, 'users', 'disabled_reason', 'TEXT');
+      db.exec(`
+        -- 管理操作审计：每个管理接口请求一行（含鉴权失败），只允许追加
+        -- target_user_id 不设外键，用户注销后仍保留记录
+        CREATE TABLE admin_audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          admin TEXT, -- 管理员名称；鉴权失败时为 NULL
+          role TEXT,
+          method TEXT NOT NULL,
+          path TEXT NOT NULL,
+          action TEXT NOT NULL, -- 如 user.vip、user.disable、prompt.activate
+          target_user_id INTEGER,
+          details TEXT, -- JSON：请求参数与变更前后的值
+          status INTEGER NOT NULL,
+          ip TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+        CREATE INDEX idx_admin_audit_log_created ON admin_audit_log(created_at);
+        CREATE INDEX idx_admin_audit_log_target ON admin_audit_log(target_user_id, id);
+
+        CREATE TRIGGER admin_audit_log_no_update BEFORE UPDATE ON admin_audit_log
+        BEGIN SELECT RAISE(ABORT, 'admin_audit_log is append-only'); END;
+        CREATE TRIGGER admin_audit_log_no_delete BEFORE DELETE ON admin_audit_log
+        BEGIN SELECT RAISE(ABORT, 'admin_audit_log is append-only'); END;
+      `);
+    },
+  },
+  {
+    version: 17,
+    name: 'encrypt_ai_results',
+    // ai_results.request / result 加入字段级加密；与 user_data_keys 一样，已配置主密钥时加密存量数据
+    up: () => {
+      if (isFieldEncryptionEnabled()) {
+        const count = encryptExistingRows();
+        log.info('已加密存量数据', { rows: count });
+      }
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function ensureMigrationsTable(db: Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `);
+}
+
+export function getMigrationStatus(db: Database): MigrationStatus {
+  ensureMigrationsTable(db);
+  const rows = db.prepare('SELECT version, name, applied_at FROM schema_migrations ORDER BY version').all() as Array<{
+    version: number;
+    name: string;
+    applied_at: string;
+  }>;
+  const appliedVersions = new Set(rows.map((r) => r.version));
+  return {
+    current: rows.length ? rows[rows.length - 1].version : 0,
+    latest: LATEST_SCHEMA_VERSION,
+    applied: rows.map((r) => ({ version: r.version, name: r.name, appliedAt: r.applied_at })),
+    pending: MIGRATIONS.filter((m) => !appliedVersions.has(m.version)).map((m) => ({
+      version: m.version,
+      name: m.name,
+    })),
+  };
+}
+
+/** 库里是否已有业务表（引入迁移机制前创建的库没有 schema_migrations，但有 users） */
+function hasExistingData(db: Database): boolean {
+  return !!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'users'").get();
+}
+
+/** 用 VACUUM INTO 生成一致性备份（同步执行），返回备份文件路径 */
+export function backupDatabase(db: Database, label: string): string {
+  const dir = path.join(dataDir, 'backups');
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const file = path.join(dir, `emotion_house-${label}-${stamp}.db`);
+  db.prepare('VACUUM INTO ?').run(file);
+  return file;
+}
+
+/**
+ * 执行全部未应用的迁移，返回本次应用的版本
+ * 数据库中有代码不认识的更高版本时抛错（通常是回滚了代码），此时不应启动服务
+ * backup 为 true 且已有数据、存在待执行迁移时，先备份到 data/backups
+ */
+export function runMigrations(db: Database, options: { backup?: boolean } = {}): number[] {
+  const status = getMigrationStatus(db);
+  if (status.current > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `[db] 数据库结构版本 ${status.current} 高于当前代码支持的 ${LATEST_SCHEMA_VERSION}，请升级代码或从备份恢复后再启动`
+    );
+  }
+  if (status.pending.length === 0) return [];
+
+  if (options.backup && hasExistingData(db)) {
+    const file = backupDatabase(db, `v${status.current}`);
+    log.info('迁移前已备份', { file });
+  }
+
+  const applied: number[] = [];
+  const record = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+  for (const pending of status.pending) {
+    const migration = MIGRATIONS.find((m) => m.version === pending.version)!;
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.version, migration.name, new Date().toISOString());
+    })();
+    applied.push(migration.version);
+    log.info('已应用迁移', { version: migration.version, name: migration.name });
+  }
+  return applied;
+}
@@ -0,0 +1,368 @@
+// 全文搜索索引：情绪饼干正文、AI 分析与目标标题，基于 FTS5
+// 中文没有空格分词，入库前自行切成字符二元组（bigrams 列，整句按短语匹配）与单字（unigrams 列，单字查询）；
+// 词元先做 HMAC 再写入 FTS，索引里不出现原文；搜索结果展示用的正文加密保存在 search_docs.content
+import crypto from 'crypto';
+import { db } from './connection';
+import { encryptField, decryptField, deriveSubkey } from './fieldCrypto';
+import { DATE_RE } from '../services/dates';
+
+export type SearchKind = 'entry' | 'analysis' | 'goal';
+/** 索引来源：cookie 为云端按天存储（VIP），snapshot 为同步快照，goal 为目标表，ai_result 为保存的 AI 结果 */
+export type SearchOrigin = 'cookie' | 'snapshot' | 'goal' | 'ai_result';
+
+export interface SearchDocInput {
+  kind: SearchKind;
+  date: string | null;
+  text: string;
+  entryType?: string | null;
+  /** 条目的时间戳（毫秒），用于前端定位 */
+  timestamp?: number | null;
+}
+
+export interface SearchDocRow {
+  id: number;
+  user_id: number;
+  origin: SearchOrigin;
+  ref: string;
+  kind: SearchKind;
+  date: string | null;
+  content: string;
+  created_at: string;
+}
+
+/** search_docs.content 解密后的内容 */
+export interface SearchDocContent {
+  text: string;
+  type: string | null;
+  timestamp: number | null;
+}
+
+const CJK = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}';
+const CJK_RE = new RegExp(`[${CJK}]`, 'u');
+// 中日韩连续字符为一段；其他字母数字（不含中日韩字符）为一段，如「梦见Mom」切成「梦见」「mom」
+const SEGMENT_RE = new RegExp(`[${CJK}]+|(?:(?![${CJK}])[\\p{L}\\p{N}])+`, 'gu');
+const TOKEN_HEX_LENGTH = 16;
+// 单条文本最多索引的字数，避免超长内容撑大索引
+const MAX_INDEXED_CHARS = 5000;
+const META_KEY_ID = 'key_id';
+
+let blindKey: Buffer | undefined;
+
+function getBlindKey(): Buffer {
+  if (!blindKey) blindKey = deriveSubkey('search-index');
+  return blindKey;
+}
+
+function currentKeyId(): string {
+  return crypto.createHash('sha256').update(getBlindKey()).digest('hex').slice(0, 16);
+}
+
+function normalizeText(text: string): string {
+  return text.normalize('NFKC').toLowerCase();
+}
+
+/**
+ * 切词：中日韩连续字符切成二元组（只有一个字时保留单字），其他字母数字按整词
+ * 返回 bigrams（按出现顺序，用于短语匹配）与 unigrams（每个中日韩字符）
+ */
+export function tokenizeForSearch(text: string): { bigrams: string[]; unigrams: string[] } {
+  const bigrams: string[] = [];
+  const unigrams: string[] = [];
+  for (const segment of normalizeText(text).slice(0, MAX_INDEXED_CHARS).match(SEGMENT_RE) ?? []) {
+    if (!CJK_RE.test(segment)) {
+      bigrams.push(segment);
+      continue;
+    }
+    const chars = [...segment];
+    unigrams.push(...chars);
+    if (chars.length === 1) bigrams.push(chars[0]);
+    for (let i = 0; i < chars.length - 1; i++) bigrams.push(chars[i] + chars[i + 1]);
+  }
+  return { bigrams, unigrams };
+}
+
+/** 词元按用户做 HMAC：同一个词在不同用户的索引里也不相同 */
+function blindToken(userId: number, token: string): string {
+  return crypto
+    .createHmac('sha256', getBlindKey())
+    .update(`${userId}|${token}`)
+    .digest('hex')
+    .slice(0, TOKEN_HEX_LENGTH);
+}
+
+function blindTokens(userId: number, tokens: string[]): string {
+  return tokens.map((t) => blindToken(userId, t)).join(' ');
+}
+
+/** 同一段内容在云端与快照里可能各有一份，搜索时按指纹去重 */
+function fingerprint(userId: number, doc: SearchDocInput): string {
+  return blindToken(userId, `doc|${doc.kind}|${doc.date ?? ''}|${normalizeText(doc.text)}`);
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+
+/** 收集对象中的全部字符串（AI 结果、结构化分析等） */
+function collectStrings(value: unknown, depth = 0): string[] {
+  if (depth > 5) return [];
+  if (typeof value === 'string') return value.trim() ? [value.trim()] : [];
+  if (Array.isArray(value)) return value.flatMap((v) => collectStrings(v, depth + 1));
+  if (isObject(value)) return Object.values(value).flatMap((v) => collectStrings(v, depth + 1));
+  return [];
+}
+
+/** 一天的数据 { entries, analysis } 拆成索引文档：每条 entry 一条，分析一条 */
+export function dayToSearchDocs(date: string, day: unknown): SearchDocInput[] {
+  const docs: SearchDocInput[] = [];
+  const entries = Array.isArray(day) ? day : isObject(day) && Array.isArray(day.entries) ? day.entries : [];
+  for (const e of entries) {
+    if (!isObject(e) || typeof e.text !== 'string' || !e.text.trim()) continue;
+    docs.push({
+      kind: 'entry',
+      date,
+      text: e.text.trim(),
+      entryType: typeof e.type === 'string' && e.type.trim() ? e.type.trim() : null,
+      timestamp: typeof e.timestamp === 'number' ? e.timestamp : null,
+    });
+  }
+  if (isObject(day) && day.analysis !== undefined) {
+    const text = collectStrings(day.analysis).join('\n');
+    if (text) docs.push({ kind: 'analysis', date, text });
+  }
+  return docs;
+}
+
+function goalToSearchDoc(title: unknown, createdAt: unknown): SearchDocInput | undefined {
+  if (typeof title !== 'string' || !title.trim()) return undefined;
+  const date = typeof createdAt === 'string' && DATE_RE.test(createdAt.slice(0, 10)) ? createdAt.slice(0, 10) : null;
+  return { kind: 'goal', date, text: title.trim() };
+}
+
+/** 同步快照拆成索引文档：emotion_cookies（数组或以日期为 key 的对象）与 cookie_goals 的标题 */
+export function snapshotToSearchDocs(snapshot: Record<string, unknown>): SearchDocInput[] {
+  const docs: SearchDocInput[] = [];
+  const days = snapshot.emotion_cookies;
+  if (Array.isArray(days)) {
+    for (const d of days) {
+      if (isObject(d) && typeof d.date === 'string' && DATE_RE.test(d.date)) docs.push(...dayToSearchDocs(d.date, d));
+    }
+  } else if (isObject(days)) {
+    for (const [date, d] of Object.entries(days)) {
+      if (DATE_RE.test(date)) docs.push(...dayToSearchDocs(date, d));
+    }
+  }
+  if (Array.isArray(snapshot.cookie_goals)) {
+    for (const g of snapshot.cookie_goals) {
+      if (!isObject(g)) continue;
+      const doc = goalToSearchDoc(g.title, g.createdAt ?? g.created_at);
+      if (doc) docs.push(doc);
+    }
+  }
+  return docs;
+}
+
+export function goalRowToSearchDocs(title: string, createdAt: string): SearchDocInput[] {
+  const doc = goalToSearchDoc(title, createdAt);
+  return doc ? [doc] : [];
+}
+
+/** AI 结果：result 中的全部文字合成一条分析文档；多日结果取区间结束日 */
+export function aiResultToSearchDocs(row: {
+  result: string;
+  date: string | null;
+  range_to: string | null;
+  created_at: string;
+}): SearchDocInput[] {
+  let parsed: unknown = row.result;
+  try {
+    parsed = JSON.parse(row.result);
+  } catch {
+    // 纯文本结果
+  }
+  const text = collectStrings(parsed).join('\n');
+  if (!text) return [];
+  return [{ kind: 'analysis', date: row.date ?? row.range_to ?? row.created_at.slice(0, 10), text }];
+}
+
+/** 删除某来源下的文档；ref 不传时删除该来源的全部文档 */
+export function removeSearchDocs(userId: number, origin: SearchOrigin, ref?: string): void {
+  const where = ref === undefined ? 'user_id = ? AND origin = ?' : 'user_id = ? AND origin = ? AND ref = ?';
+  const params = ref === undefined ? [userId, origin] : [userId, origin, ref];
+  db.prepare(`DELETE FROM search_fts WHERE rowid IN (SELECT id FROM search_docs WHERE ${where})`).run(...params);
+  db.prepare(`DELETE FROM search_docs WHERE ${where}`).run(...params);
+}
+
+/** 用新内容替换某来源下 ref 对应的文档（调用方负责事务） */
+export function replaceSearchDocs(userId: number, origin: SearchOrigin, ref: string, docs: SearchDocInput[]): void {
+  removeSearchDocs(userId, origin, ref);
+  const insertDoc = db.prepare(
+    `INSERT INTO search_docs (user_id, origin, ref, kind, entry_type, date, content, fingerprint, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  const insertFts = db.prepare('INSERT INTO search_fts (rowid, bigrams, unigrams) VALUES (?, ?, ?)');
+  const now = new Date().toISOString();
+  for (const doc of docs) {
+    const content: SearchDocContent = { text: doc.text, type: doc.entryType ?? null, timestamp: doc.timestamp ?? null };
+    const result = insertDoc.run(
+      userId,
+      origin,
+      ref,
+      doc.kind,
+      doc.entryType ? blindToken(userId, `type|${doc.entryType}`) : null,
+      doc.date,
+      encryptField(userId, 'search_docs.content', JSON.stringify(content)),
+      fingerprint(userId, doc),
+      now
+    );
+    const { bigrams, unigrams } = tokenizeForSearch(doc.text);
+    insertFts.run(result.lastInsertRowid, blindTokens(userId, bigrams), blindTokens(userId, unigrams));
+  }
+}
+
+export function deleteUserSearchDocs(userId: number): void {
+  db.prepare('DELETE FROM search_fts WHERE rowid IN (SELECT id FROM search_docs WHERE user_id = ?)').run(userId);
+  db.prepare('DELETE FROM search_docs WHERE user_id = ?').run(userId);
+}
+
+export function openSearchDoc(row: SearchDocRow): SearchDocContent {
+  return JSON.parse(decryptField(row.user_id, 'search_docs.content', row.content)) as SearchDocContent;
+}
+
+/**
+ * 查询词转成 FTS5 表达式：按空白拆成多个词，词与词之间为 AND；
+ * 单个汉字查 unigrams 列，其余按二元组短语查 bigrams 列（要求连续出现，即原文包含该词）
+ * 没有可检索的字符时返回 undefined
+ */
+function buildMatchExpression(userId: number, query: string): string | undefined {
+  const clauses: string[] = [];
+  for (const term of query.split(/\s+/).filter(Boolean)) {
+    const { bigrams, unigrams } = tokenizeForSearch(term);
+    if (!bigrams.length) continue;
+    if (bigrams.length === 1 && unigrams.length === 1 && bigrams[0] === unigrams[0]) {
+      clauses.push(`unigrams : "${blindToken(userId, unigrams[0])}"`);
+    } else {
+      clauses.push(`bigrams : "${blindTokens(userId, bigrams)}"`);
+    }
+  }
+  return clauses.length ? clauses.join(' AND ') : undefined;
+}
+
+export interface SearchQuery {
+  q: string;
+  from?: string;
+  to?: string;
+  kind?: SearchKind;
+  entryType?: string;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * 搜索（date 倒序，最近写的在前；无日期的目标排在最后），相同内容只返回一条
+ * 多取一条判断是否还有下一页；查询词没有可检索字符时返回空结果
+ */
+export function searchUserDocs(userId: number, query: SearchQuery): { rows: SearchDocRow[]; hasMore: boolean } {
+  const match = buildMatchExpression(userId, query.q);
+  if (!match) return { rows: [], hasMore: false };
+
+  const where = ['user_id = ?', 'id IN (SELECT rowid FROM search_fts WHERE search_fts MATCH ?)'];
+  const params: unknown[] = [userId, match];
+  if (query.from) {
+    where.push('date >= ?');
+    params.push(query.from);
+  }
+  if (query.to) {
+    where.push('date <= ?');
+    params.push(query.to);
+  }
+  if (query.kind) {
+    where.push('kind = ?');
+    params.push(query.kind);
+  }
+  if (query.entryType) {
+    where.push('entry_type = ?');
+    params.push(blindToken(userId, `type|${query.entryType}`));
+  }
+  const rows = db
+    .prepare(
+      `SELECT * FROM search_docs WHERE id IN (
+         SELECT MIN(id) FROM search_docs WHERE ${where.join(' AND ')} GROUP BY fingerprint
+       )
+       ORDER BY date IS NULL, date DESC, id DESC LIMIT ? OFFSET ?`
+    )
+    .all(...params, query.limit + 1, query.offset) as SearchDocRow[];
+  return { rows: rows.slice(0, query.limit), hasMore: rows.length > query.limit };
+}
+
+/** 从源数据重建某个用户的索引（调用方负责事务） */
+function rebuildUserSearchDocs(userId: number): void {
+  deleteUserSearchDocs(userId);
+
+  const days = db
+    .prepare('SELECT user_id, date, data FROM emotion_cookies WHERE user_id = ? AND is_deleted = 0')
+    .all(userId) as Array<{ user_id: number; date: string; data: string }>;
+  for (const d of days) {
+    let parsed: unknown = {};
+    try {
+      parsed = JSON.parse(decryptField(userId, 'emotion_cookies.data', d.data) || '{}');
+    } catch {
+      // 损坏的数据不建索引
+    }
+    replaceSearchDocs(userId, 'cookie', d.date, dayToSearchDocs(d.date, parsed));
+  }
+
+  const snapshot = db.prepare('SELECT data FROM sync_snapshot WHERE user_id = ?').get(userId) as
+    | { data: string }
+    | undefined;
+  if (snapshot) {
+    try {
+      const parsed = JSON.parse(decryptField(userId, 'sync_snapshot.data', snapshot.data) || '{}');
+      if (isObject(parsed)) replaceSearchDocs(userId, 'snapshot', 'current', snapshotToSearchDocs(parsed));
+    } catch {
+      // 忽略损坏的快照
+    }
+  }
+
+  const goals = db.prepare('SELECT id, title, created_at FROM cookie_goals WHERE user_id = ?').all(userId) as Array<{
+    id: number;
+    title: string;
+    created_at: string;
+  }>;
+  for (const g of goals) replaceSearchDocs(userId, 'goal', String(g.id), goalRowToSearchDocs(g.title, g.created_at));
+
+  const results = db
+    .prepare('SELECT id, result, date, range_to, created_at FROM ai_results WHERE user_id = ?')
+    .all(userId) as Array<{ id: number; result: string; date: string | null; range_to: string | null; created_at: string }>;
+  for (const r of results) {
+    let result: string;
+    try {
+      result = decryptField(userId, 'ai_results.result', r.result);
+    } catch {
+      // 无法解密的结果（如主密钥配置有误）不建索引，不影响其他数据
+      continue;
+    }
+    replaceSearchDocs(userId, 'ai_result', String(r.id), aiResultToSearchDocs({ ...r, result }));
+  }
+}
+
+/** 重建全部用户的索引，每个用户一个事务；返回处理的用户数 */
+export function rebuildSearchIndex(): number {
+  blindKey = undefined;
+  const users = db.prepare('SELECT id FROM users').all() as Array<{ id: number }>;
+  for (const { id } of users) db.transaction(() => rebuildUserSearchDocs(id))();
+  db.prepare(
+    `INSERT INTO search_index_meta (key, value) VALUES (?, ?)
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value`
+  ).run(META_KEY_ID, currentKeyId());
+  return users.length;
+}
+
+/** 索引是否需要重建：从未建过，或主密钥变化导致词元 HMAC 密钥不同 */
+export function searchIndexIsStale(): boolean {
+  blindKey = undefined;
+  const row = db.prepare('SELECT value FROM search_index_meta WHERE key = ?').get(META_KEY_ID) as
+    | { value: string }
+    | undefined;
+  return row?.value !== currentKeyId();
+}
@@ -0,0 +1,121 @@
+// 管理接口鉴权：请求头 X-Admin-Token 对应 ADMIN_ACCOUNTS 中的某个管理员（或旧版 ADMIN_TOKEN），与小程序用户的 JWT 无关
+// 每个管理接口请求（含鉴权失败）在响应结束时写入 admin_audit_log
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { insertAdminAudit } from '../db';
+import { sendError } from './errors';
+import { createLogger, errorFields } from '../services/logger';
+
+const log = createLogger('admin');
+
+/** 由低到高，高等级拥有低等级的全部权限 */
+export const ADMIN_ROLES = ['viewer', 'operator', 'superadmin'] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export interface AdminRequest extends Request {
+  admin?: { name: string; role: AdminRole };
+}
+
+interface AdminAccount {
+  name: string;
+  role: AdminRole;
+  token: string;
+}
+
+function isAdminRole(value: unknown): value is AdminRole {
+  return ADMIN_ROLES.includes(value as AdminRole);
+}
+
+/** 启动时整理一次；token 或 role 不合法的账号忽略并告警 */
+const ACCOUNTS: AdminAccount[] = (() => {
+  const accounts: AdminAccount[] = [];
+  for (const [name, entry] of Object.entries(config.admin.accounts)) {
+    if (!entry || typeof entry.token !== 'string' || !entry.token || !isAdminRole(entry.role)) {
+      log.warn('ADMIN_ACCOUNTS 中的账号缺少 token 或 role 不合法，已忽略', { name });
+      continue;
+    }
+    accounts.push({ name, role: entry.role, token: entry.token });
+  }
+  if (config.admin.token) accounts.push({ name: 'admin', role: 'superadmin', token: config.admin.token });
+  return accounts;
+})();
+
+/** 先做哈希再比较，长度不同也不会提前返回，避免计时侧信道；/metrics 的令牌同样用它比较 */
+export function tokenMatches(token: string, expected: string): boolean {
+  const a = crypto.createHash('sha256').update(token).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+/** 逐个比较全部账号（不提前退出），耗时与命中哪个账号无关 */
+function findAccount(token: string): AdminAccount | undefined {
+  let found: AdminAccount | undefined;
+  for (const account of ACCOUNTS) {
+    if (tokenMatches(token, account.token) && !found) found = account;
+  }
+  return found;
+}
+
+/**
+ * 记录本次请求要写入审计日志的操作名、目标用户与细节（如变更前后的值）
+ * 未调用时操作名为 "METHOD 路径"
+ */
+export function setAuditEntry(
+  res: Response,
+  action: string,
+  targetUserId?: number,
+  details?: Record<string, unknown>
+): void {
+  res.locals.auditAction = action;
+  res.locals.auditTarget = targetUserId;
+  res.locals.auditDetails = details;
+}
+
+function recordAudit(req: AdminRequest, res: Response): void {
+  const path = req.originalUrl.split('?')[0];
+  const details = res.locals.auditDetails as Record<string, unknown> | undefined;
+  try {
+    insertAdminAudit({
+      admin: req.admin?.name ?? null,
+      role: req.admin?.role ?? null,
+      method: req.method,
+      path,
+      action: (res.locals.auditAction as string | undefined) ?? `${req.method} ${path}`,
+      target_user_id: (res.locals.auditTarget as number | undefined) ?? null,
+      details: details ? JSON.stringify(details) : null,
+      status: res.statusCode,
+      ip: req.ip ?? null,
+    });
+  } catch (e) {
+    log.error('写入审计日志失败', errorFields(e));
+  }
+}
+
+export function adminMiddleware(req: AdminRequest, res: Response, next: NextFunction): void {
+  res.on('finish', () => recordAudit(req, res));
+  if (ACCOUNTS.length === 0) {
+    sendError(res, 503, '服务端未配置管理员账号', 'NOT_CONFIGURED');
+    return;
+  }
+  const token = req.headers['x-admin-token'];
+  const account = typeof token === 'string' ? findAccount(token) : undefined;
+  if (!account) {
+    sendError(res, 401, '管理员令牌无效');
+    return;
+  }
+  req.admin = { name: account.name, role: account.role };
+  next();
+}
+
+/** 需在 adminMiddleware 之后使用；角色低于 min 时返回 403 */
+export function requireAdminRole(min: AdminRole) {
+  return (req: AdminRequest, res: Response, next: NextFunction): void => {
+    if (!req.admin || ADMIN_ROLES.indexOf(req.admin.role) < ADMIN_ROLES.indexOf(min)) {
+      sendError(res, 403, `需要 ${min} 及以上权限`);
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,103 @@
+// AI 接口限流与配额：按 IP / 用户的突发限流 + 按 vip_level 的每日/每月配额，超限返回 429 并带剩余额度响应头
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { getUserById } from '../db';
+import { authMiddleware, AuthRequest } from './auth';
+import { sendError } from './errors';
+import { validate, RequestSchema } from './validate';
+import { hitRateLimit, RateLimitResult } from '../services/rateLimit';
+import { reserveQuota, refundAiUsage } from '../services/quota';
+import { LlmTask } from '../services/llm';
+
+function setRateLimitHeaders(res: Response, result: RateLimitResult): void {
+  res.setHeader('X-RateLimit-Limit', String(result.limit));
+  res.setHeader('X-RateLimit-Remaining', String(result.remaining));
+  res.setHeader('X-RateLimit-Reset', String(Math.ceil(result.resetAt / 1000)));
+}
+
+function rejectBurst(res: Response, scope: 'ip' | 'user', result: RateLimitResult): void {
+  res.setHeader('Retry-After', String(Math.max(Math.ceil((result.resetAt - Date.now()) / 1000), 1)));
+  sendError(res, 429, '请求太频繁，请稍后再试', 'RATE_LIMITED', {
+    scope: `burst-${scope}`,
+    limit: result.limit,
+    remaining: 0,
+    resetAt: new Date(result.resetAt).toISOString(),
+  });
+}
+
+/** 按 IP 的突发限流，放在鉴权之前，未登录的请求也会计数 */
+export function aiIpRateLimit(req: Request, res: Response, next: NextFunction): void {
+  const ip = req.ip || req.socket?.remoteAddress || 'unknown';
+  const result = hitRateLimit(`ip:${ip}`, config.quota.burstPerIp, config.quota.burstWindowMs);
+  if (!result.allowed) {
+    setRateLimitHeaders(res, result);
+    rejectBurst(res, 'ip', result);
+    return;
+  }
+  next();
+}
+
+/**
+ * 用户级突发限流 + 配额检查，需放在 authMiddleware 之后
+ * task 可以是固定值，也可以从请求中解析（如重新生成时取原结果的类型）；解析不到时不做配额检查
+ * 通过检查时即预占一次用量，并发请求不会越过配额；响应失败（状态码 >= 400）或处理函数设置了
+ * res.locals.aiNoCharge = true（命中缓存、上游失败等）时在连接关闭后退回。客户端中途断开的请求已调用大模型，照常计入
+ */
+export function aiQuota(task: LlmTask | ((req: AuthRequest) => LlmTask | undefined)) {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    const user = req.user && getUserById(req.user.id);
+    if (!user) {
+      sendError(res, 401, '未登录');
+      return;
+    }
+
+    const burst = hitRateLimit(`user:${user.id}`, config.quota.burstPerUser, config.quota.burstWindowMs);
+    setRateLimitHeaders(res, burst);
+    if (!burst.allowed) {
+      rejectBurst(res, 'user', burst);
+      return;
+    }
+
+    const resolved = typeof task === 'function' ? task(req) : task;
+    if (!resolved) {
+      next();
+      return;
+    }
+
+    const reservation = reserveQuota(user.id, user.vip_level, resolved);
+    const { status } = reservation;
+    res.setHeader('X-Quota-Daily-Limit', String(status.daily.limit));
+    res.setHeader('X-Quota-Daily-Remaining', String(status.daily.remaining));
+    res.setHeader('X-Quota-Monthly-Limit', String(status.monthly.limit));
+    res.setHeader('X-Quota-Monthly-Remaining', String(status.monthly.remaining));
+
+    if (reservation.exhausted) {
+      const scope = reservation.exhausted;
+      const exhausted = status[scope];
+      res.setHeader('Retry-After', String(Math.max(Math.ceil((Date.parse(exhausted.resetAt) - Date.now()) / 1000), 1)));
+      sendError(
+        res,
+        429,
+        scope === 'daily' ? '今日 AI 次数已用完，明天再来吧' : '本月 AI 次数已用完',
+        'QUOTA_EXCEEDED',
+        { scope, task: resolved, limit: exhausted.limit, remaining: 0, resetAt: exhausted.resetAt }
+      );
+      return;
+    }
+
+    res.on('close', () => {
+      if (res.statusCode >= 400 || res.locals.aiNoCharge) {
+        refundAiUsage(user.id, resolved, reservation.day);
+      }
+    });
+    next();
+  };
+}
+
+/**
+ * AI 接口统一的中间件链：IP 限流 → 登录鉴权 → 参数校验 → 用户限流与配额
+ * 校验放在配额之前，参数不合法的请求不占用户的突发限流与配额
+ */
+export function aiGuard(task: LlmTask | ((req: AuthRequest) => LlmTask | undefined), schema?: RequestSchema) {
+  return [aiIpRateLimit, authMiddleware, ...(schema ? [validate(schema)] : []), aiQuota(task)];
+}
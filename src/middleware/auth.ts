@@ -2,40 +2,56 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { config } from '../config';
-import { getUserById } from '../db';
+import { getUserById, expireVipIfNeeded, getAuthSession, isAuthSessionActive } from '../db';
+import { sendError } from './errors';
 
 export interface JwtPayload {
   userId: number;
   wxOpenId: string;
+  /** 会话 id；旧版 7 天 token 没有该字段，过期前仍可使用 */
+  sid?: string;
   iat?: number;
   exp?: number;
 }
 
 export interface AuthRequest extends Request {
-  user?: { id: number; wxOpenId: string };
+  user?: { id: number; wxOpenId: string; sessionId?: string };
 }
 
 export function authMiddleware(req: AuthRequest, res: Response, next: NextFunction): void {
   const auth = req.headers.authorization;
   const token = auth?.startsWith('Bearer ') ? auth.slice(7) : null;
   if (!token) {
-    res.status(401).json({ code: 401, message: '未登录或 token 无效' });
+    sendError(res, 401, '未登录或 token 无效');
     return;
   }
   if (!config.jwt.secret) {
-    res.status(500).json({ code: 500, message: '服务端未配置 JWT' });
+    sendError(res, 500, '服务端未配置 JWT', 'NOT_CONFIGURED');
     return;
   }
   try {
     const payload = jwt.verify(token, config.jwt.secret) as JwtPayload;
-    const user = getUserById(payload.userId);
-    if (!user) {
-      res.status(401).json({ code: 401, message: '用户不存在' });
+    if (payload.sid) {
+      const session = getAuthSession(payload.sid);
+      if (!session || session.user_id !== payload.userId || !isAuthSessionActive(session)) {
+        sendError(res, 401, '登录已失效，请重新登录');
+        return;
+      }
+    }
+    const found = getUserById(payload.userId);
+    if (!found) {
+      sendError(res, 401, '用户不存在');
+      return;
+    }
+    if (found.disabled_at) {
+      sendError(res, 403, '账号已被停用', 'ACCOUNT_DISABLED');
       return;
     }
-    req.user = { id: user.id, wxOpenId: user.wx_open_id };
+    // VIP 到期惰性降级，后续读取 vip_level 的逻辑拿到的都是最新状态
+    const user = expireVipIfNeeded(found);
+    req.user = { id: user.id, wxOpenId: user.wx_open_id, sessionId: payload.sid };
     next();
   } catch {
-    res.status(401).json({ code: 401, message: '登录已过期或 token 无效' });
+    sendError(res, 401, '登录已过期或 token 无效');
   }
 }
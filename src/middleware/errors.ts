@@ -0,0 +1,117 @@
+// 统一错误响应：{ code: HTTP 状态码, error: 机器可读的错误码, message: 给用户看的说明, data?: 附加信息 }
+// 路由中的错误都经 sendError 返回；未捕获的异常、请求体解析失败与未匹配的路由由 app.ts 末尾的 errorHandler / notFoundHandler 兜底
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { createLogger, errorFields } from '../services/logger';
+
+const log = createLogger('error');
+
+/**
+ * 对外承诺稳定的错误码：客户端应按 error 分支处理，message 可能调整文案
+ * VALIDATION_FAILED 的 data.errors 为逐字段明细（见 middleware/validate）；INVALID_SETTINGS / INVALID_TEMPLATE 沿用各自原有的 data.errors 结构
+ */
+export type ErrorCode =
+  | 'BAD_REQUEST'
+  | 'VALIDATION_FAILED'
+  | 'INVALID_SETTINGS'
+  | 'INVALID_TEMPLATE'
+  | 'INVALID_JSON'
+  | 'MISSING_API_KEY'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'ACCOUNT_DISABLED'
+  | 'VIP_REQUIRED'
+  | 'NOT_FOUND'
+  | 'ROUTE_NOT_FOUND'
+  | 'CONFLICT'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'UNSUPPORTED_MEDIA_TYPE'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXCEEDED'
+  | 'INTERNAL_ERROR'
+  | 'NOT_CONFIGURED'
+  | 'UPSTREAM_ERROR'
+  | 'SERVICE_UNAVAILABLE';
+
+/** 未指定错误码时按状态码取默认值 */
+const DEFAULT_CODES: Record<number, ErrorCode> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  413: 'PAYLOAD_TOO_LARGE',
+  415: 'UNSUPPORTED_MEDIA_TYPE',
+  429: 'RATE_LIMITED',
+  500: 'INTERNAL_ERROR',
+  502: 'UPSTREAM_ERROR',
+  503: 'SERVICE_UNAVAILABLE',
+};
+
+function defaultCode(status: number): ErrorCode {
+  return DEFAULT_CODES[status] ?? (status >= 500 ? 'INTERNAL_ERROR' : 'BAD_REQUEST');
+}
+
+/** 错误响应体；SSE 的 error 事件也使用同样的结构 */
+export function errorBody(status: number, message: string, error?: ErrorCode, data?: unknown) {
+  return { code: status, error: error ?? defaultCode(status), message, ...(data !== undefined ? { data } : {}) };
+}
+
+export function sendError(res: Response, status: number, message: string, error?: ErrorCode, data?: unknown): void {
+  res.status(status).json(errorBody(status, message, error, data));
+}
+
+/**
+ * 包装 async 处理函数：Express 4 不会捕获 Promise 的拒绝，未包装时异常会使请求一直挂起
+ * 这里把拒绝转交给 next，由 errorHandler 返回 JSON
+ */
+export function asyncHandler<T extends Request>(
+  fn: (req: T, res: Response, next: NextFunction) => Promise<void>
+): RequestHandler {
+  return (req, res, next) => {
+    fn(req as T, res, next).catch(next);
+  };
+}
+
+/** body-parser 抛出的错误带 type 与 status（见其文档） */
+interface HttpError extends Error {
+  status?: number;
+  statusCode?: number;
+  type?: string;
+  expose?: boolean;
+  limit?: number;
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Math.round(bytes / 1024 / 1024)}MB` : `${Math.round(bytes / 1024)}KB`;
+}
+
+/** 未匹配任何路由：返回 JSON 而非 Express 默认的 HTML 页面 */
+export function notFoundHandler(req: Request, res: Response): void {
+  sendError(res, 404, `接口不存在：${req.method} ${req.path}`, 'ROUTE_NOT_FOUND');
+}
+
+/** 兜底错误处理，需挂在所有路由之后；响应已开始输出（如 SSE）时交回 Express 断开连接 */
+export function errorHandler(err: unknown, req: Request, res: Response, next: NextFunction): void {
+  if (res.headersSent) {
+    log.error('响应已开始输出后发生异常', { ...errorFields(err), method: req.method, path: req.originalUrl.split('?')[0] });
+    next(err);
+    return;
+  }
+  const httpError = err as HttpError;
+  const status = httpError?.status ?? httpError?.statusCode;
+  if (httpError?.type === 'entity.too.large') {
+    const limit = httpError.limit ? `（上限 ${formatBytes(httpError.limit)}）` : '';
+    sendError(res, 413, `请求体过大${limit}`, 'PAYLOAD_TOO_LARGE');
+    return;
+  }
+  if (httpError?.type === 'entity.parse.failed') {
+    sendError(res, 400, '请求体不是合法的 JSON', 'INVALID_JSON');
+    return;
+  }
+  if (typeof status === 'number' && status >= 400 && status < 500 && httpError.expose) {
+    sendError(res, status, '请求无法解析', defaultCode(status));
+    return;
+  }
+  log.error('未处理的异常', { ...errorFields(err), method: req.method, path: req.originalUrl.split('?')[0] });
+  sendError(res, 500, '服务器内部错误', 'INTERNAL_ERROR');
+}
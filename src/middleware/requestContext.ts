@@ -0,0 +1,53 @@
+// 请求上下文：分配请求 ID（沿用合法的 X-Request-Id，否则生成）并在响应头回传
+// 请求结束时写一条访问日志，并记录按路由统计的请求数与耗时
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { requestContext, createLogger } from '../services/logger';
+import { httpRequestsTotal, httpRequestDuration, secondsSince } from '../services/metrics';
+import type { AuthRequest } from './auth';
+import type { AdminRequest } from './admin';
+
+const log = createLogger('http');
+
+const REQUEST_ID_RE = /^[\w.-]{1,64}$/;
+// 探活与采集请求频繁，访问日志降为 debug
+const QUIET_PATHS = new Set(['/api/health', '/metrics']);
+
+/** 指标用的路由标签：命中的路由模板；未命中具体路由时为挂载点，都没有时为 unmatched */
+function routeLabel(req: Request): string {
+  if (req.route?.path) return `${req.baseUrl}${req.route.path}`;
+  return req.baseUrl ? `${req.baseUrl}/*` : 'unmatched';
+}
+
+export function requestContextMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const incoming = req.get('x-request-id');
+  const requestId = incoming && REQUEST_ID_RE.test(incoming) ? incoming : crypto.randomUUID();
+  res.setHeader('X-Request-Id', requestId);
+  const start = process.hrtime.bigint();
+
+  // 用 close 而非 finish：客户端中途断开（如流式输出时离开页面）也要记录
+  res.on('close', () => {
+    const seconds = secondsSince(start);
+    // 经过子路由后 req.path 只剩挂载点之后的部分，这里用原始路径
+    const path = req.originalUrl.split('?')[0];
+    const route = routeLabel(req);
+    httpRequestsTotal.inc({ method: req.method, route, status: String(res.statusCode) });
+    httpRequestDuration.observe({ method: req.method, route }, seconds);
+    const fields = {
+      requestId,
+      method: req.method,
+      path,
+      route,
+      status: res.statusCode,
+      aborted: !res.writableFinished || undefined,
+      durationMs: Math.round(seconds * 1000),
+      ip: req.ip,
+      userId: (req as AuthRequest).user?.id,
+      admin: (req as AdminRequest).admin?.name,
+    };
+    if (QUIET_PATHS.has(path)) log.debug('request', fields);
+    else log.info('request', fields);
+  });
+
+  requestContext.run({ requestId }, next);
+}
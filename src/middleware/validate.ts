@@ -0,0 +1,304 @@
+// 请求参数校验：每个路由声明 body / query / params 的结构，不合法时统一返回 400 与逐字段错误 data.errors
+// 请求体也在这里按路由解析，各路由可设置自己的大小上限（app.ts 不再挂全局的 express.json）
+import express, { Request, Response, NextFunction, RequestHandler } from 'express';
+import { sendError } from './errors';
+import { DATE_RE, isValidDate } from '../services/dates';
+
+interface FieldOptions {
+  /** 允许缺省（undefined） */
+  optional?: boolean;
+  /** 允许显式传 null */
+  nullable?: boolean;
+}
+
+/**
+ * 字段 schema：字符串的长度按去除首尾空白后计算；object 未声明的字段默认原样放行，strict 时视为错误
+ * query 与 params 的取值都是字符串，integer / number / boolean 会按字符串解析
+ */
+export type FieldSchema = FieldOptions &
+  (
+    | {
+        type: 'string';
+        minLength?: number;
+        maxLength?: number;
+        pattern?: RegExp;
+        /** 格式说明，用于错误信息，如 YYYY-MM-DD */
+        format?: string;
+        /** pattern 之外的格式检查，不通过时与 pattern 一样报 invalid_format */
+        check?: (value: string) => boolean;
+        enum?: readonly string[];
+      }
+    | { type: 'integer' | 'number'; min?: number; max?: number }
+    | { type: 'boolean' }
+    | { type: 'array'; items: FieldSchema; minItems?: number; maxItems?: number }
+    | {
+        type: 'object';
+        properties?: Record<string, FieldSchema>;
+        /** 未在 properties 中声明的字段的 schema（键名不固定的字典） */
+        values?: FieldSchema;
+        maxKeys?: number;
+        strict?: boolean;
+      }
+    | { type: 'any' }
+    /** 按取值的类型选用其中一个 schema，如「字符串或对象」；没有类型相符的时报 invalid_type */
+    | { type: 'oneOf'; variants: FieldSchema[] }
+    /** 已下线的字段：缺省时通过，出现（含 null）即报错，message 告知替代方式 */
+    | { type: 'removed'; message: string }
+  );
+
+export type ValidationErrorCode =
+  | 'required'
+  | 'invalid_type'
+  | 'invalid_format'
+  | 'invalid_value'
+  | 'too_short'
+  | 'too_long'
+  | 'out_of_range'
+  | 'too_few'
+  | 'too_many'
+  | 'unknown_field';
+
+export interface ValidationIssue {
+  /** 字段路径，如 body.entries[0].text、query.limit */
+  path: string;
+  code: ValidationErrorCode;
+  message: string;
+}
+
+export interface RequestSchema {
+  params?: Record<string, FieldSchema>;
+  query?: Record<string, FieldSchema>;
+  body?: Record<string, FieldSchema>;
+  /** 请求体大小上限（如 '256kb'），仅在声明了 body 时生效 */
+  bodyLimit?: string;
+}
+
+const DEFAULT_BODY_LIMIT = '16kb';
+// application/merge-patch+json 用于 PATCH /api/settings
+const JSON_TYPES = ['application/json', 'application/merge-patch+json'];
+// 大数组逐项出错时只返回前若干条
+const MAX_REPORTED_ISSUES = 20;
+
+/** YYYY-MM-DD 日期字符串，且需为真实存在的日期（不接受 2026-02-30） */
+export const DATE: FieldSchema = { type: 'string', pattern: DATE_RE, check: isValidDate, format: 'YYYY-MM-DD' };
+
+/** 路径或查询中的自增 id */
+export const ID: FieldSchema = { type: 'integer', min: 1 };
+
+/** 分页条数 */
+export function pageLimit(max: number): FieldSchema {
+  return { type: 'integer', min: 1, max, optional: true };
+}
+
+/** 标记为可缺省，如 optional(DATE) */
+export function optional(schema: FieldSchema): FieldSchema {
+  return { ...schema, optional: true };
+}
+
+/** AI 接口可选的 apiKey；未传时使用服务端托管的密钥 */
+export const API_KEY: FieldSchema = { type: 'string', maxLength: 512, optional: true };
+
+/** 单条情绪饼干的正文上限与每天的条数上限 */
+export const MAX_ENTRY_TEXT_LENGTH = 5000;
+export const MAX_ENTRIES_PER_DAY = 200;
+
+/** 情绪饼干条目 { text, type?, timestamp? }；其余字段（如前端的 id）原样保留 */
+export const ENTRY: FieldSchema = {
+  type: 'object',
+  properties: {
+    text: { type: 'string', maxLength: MAX_ENTRY_TEXT_LENGTH },
+    type: { type: 'string', maxLength: 32, optional: true },
+    timestamp: { type: 'number', min: 0, optional: true, nullable: true },
+  },
+};
+
+export const ENTRIES: FieldSchema = { type: 'array', items: ENTRY, maxItems: MAX_ENTRIES_PER_DAY };
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+const TYPE_LABELS: Partial<Record<FieldSchema['type'], string>> = {
+  string: '字符串',
+  integer: '整数',
+  number: '数字',
+  boolean: '布尔值',
+  array: '数组',
+  object: '对象',
+};
+
+/** oneOf 选用 schema 时只看取值的 JSON 类型，具体约束仍由选中的 schema 检查 */
+function matchesType(schema: FieldSchema, value: unknown): boolean {
+  switch (schema.type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'integer':
+    case 'number':
+      return typeof value === 'number';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'any':
+      return true;
+    default:
+      return false;
+  }
+}
+
+function rangeMessage(min?: number, max?: number): string {
+  if (min !== undefined && max !== undefined) return `应在 ${min}～${max} 之间`;
+  return min !== undefined ? `不能小于 ${min}` : `不能大于 ${max}`;
+}
+
+/**
+ * 按 schema 检查取值，问题记入 issues；返回检查后的值
+ * fromString 为 true 时（query、params）把字符串解析为数字与布尔值，其余情况原样返回
+ */
+function checkField(
+  schema: FieldSchema,
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  fromString: boolean
+): unknown {
+  const fail = (code: ValidationErrorCode, message: string) => {
+    issues.push({ path, code, message });
+    return value;
+  };
+  if (schema.type === 'removed') return value === undefined ? value : fail('unknown_field', schema.message);
+  if (value === undefined) return schema.optional ? value : fail('required', '缺少该字段');
+  if (value === null) {
+    if (schema.nullable) return value;
+    return schema.optional ? fail('invalid_type', '不能为 null') : fail('required', '缺少该字段');
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') return fail('invalid_type', '应为字符串');
+      if (schema.enum && !schema.enum.includes(value)) return fail('invalid_value', `只能为 ${schema.enum.join(' / ')}`);
+      const length = value.trim().length;
+      if (schema.minLength !== undefined && length < schema.minLength) {
+        return fail('too_short', schema.minLength === 1 ? '不能为空' : `长度不能少于 ${schema.minLength}`);
+      }
+      if (schema.maxLength !== undefined && length > schema.maxLength) {
+        return fail('too_long', `长度不能超过 ${schema.maxLength}`);
+      }
+      if ((schema.pattern && !schema.pattern.test(value)) || (schema.check && !schema.check(value))) {
+        return fail('invalid_format', schema.format ? `需为 ${schema.format} 格式` : '格式不正确');
+      }
+      return value;
+    }
+    case 'integer':
+    case 'number': {
+      const num = fromString && typeof value === 'string' ? (value.trim() === '' ? NaN : Number(value)) : value;
+      const label = schema.type === 'integer' ? '应为整数' : '应为数字';
+      if (typeof num !== 'number' || !Number.isFinite(num)) return fail('invalid_type', label);
+      if (schema.type === 'integer' && !Number.isInteger(num)) return fail('invalid_type', label);
+      if ((schema.min !== undefined && num < schema.min) || (schema.max !== undefined && num > schema.max)) {
+        return fail('out_of_range', rangeMessage(schema.min, schema.max));
+      }
+      return num;
+    }
+    case 'boolean': {
+      const bool = fromString && (value === 'true' || value === 'false') ? value === 'true' : value;
+      if (typeof bool !== 'boolean') return fail('invalid_type', '应为布尔值');
+      return bool;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return fail('invalid_type', '应为数组');
+      // 超出上限时不再逐项检查
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return fail('too_many', `最多 ${schema.maxItems} 项`);
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return fail('too_few', schema.minItems === 1 ? '不能为空' : `至少 ${schema.minItems} 项`);
+      }
+      value.forEach((item, idx) => checkField(schema.items, item, joinPath(path, idx), issues, fromString));
+      return value;
+    }
+    case 'object': {
+      if (!isPlainObject(value)) return fail('invalid_type', '应为对象');
+      const keys = Object.keys(value);
+      if (schema.maxKeys !== undefined && keys.length > schema.maxKeys) {
+        return fail('too_many', `最多 ${schema.maxKeys} 个字段`);
+      }
+      const properties = schema.properties ?? {};
+      const out: Record<string, unknown> = { ...value };
+      for (const [key, child] of Object.entries(properties)) {
+        const checked = checkField(child, value[key], joinPath(path, key), issues, fromString);
+        if (checked !== undefined) out[key] = checked;
+      }
+      for (const key of keys) {
+        if (Object.prototype.hasOwnProperty.call(properties, key)) continue;
+        if (schema.values) out[key] = checkField(schema.values, value[key], joinPath(path, key), issues, fromString);
+        else if (schema.strict) issues.push({ path: joinPath(path, key), code: 'unknown_field', message: '不支持该字段' });
+      }
+      return fromString ? out : value;
+    }
+    case 'oneOf': {
+      const variant = schema.variants.find((v) => matchesType(v, value));
+      if (!variant) return fail('invalid_type', `应为${schema.variants.map((v) => TYPE_LABELS[v.type]).join('或')}`);
+      return checkField(variant, value, path, issues, fromString);
+    }
+    case 'any':
+      return value;
+  }
+}
+
+/** 经 validate 校验并解析后的 query（声明为 integer / boolean 的字段已是数字与布尔值） */
+export function validatedQuery<T>(req: Request): T {
+  return req.query as unknown as T;
+}
+
+/** 写回 400；message 取第一处问题，data.errors 为逐字段明细 */
+export function sendValidationError(res: Response, issues: ValidationIssue[]): void {
+  const [first] = issues;
+  sendError(res, 400, `请求参数不合法：${first.path} ${first.message}`, 'VALIDATION_FAILED', {
+    errors: issues.slice(0, MAX_REPORTED_ISSUES),
+  });
+}
+
+/**
+ * 按声明校验请求；声明了 body 时先按 bodyLimit 解析 JSON 请求体（超限或不是合法 JSON 时交给 errorHandler）
+ * query 中解析出的数字与布尔值写回 req.query；params 仍为字符串，只做校验
+ */
+export function validate(schema: RequestSchema): RequestHandler {
+  const parseBody = schema.body
+    ? express.json({ limit: schema.bodyLimit ?? DEFAULT_BODY_LIMIT, type: JSON_TYPES })
+    : undefined;
+
+  const check = (req: Request, res: Response, next: NextFunction): void => {
+    const issues: ValidationIssue[] = [];
+    if (schema.params) {
+      checkField({ type: 'object', properties: schema.params }, req.params, 'params', issues, true);
+    }
+    const query = schema.query
+      ? checkField({ type: 'object', properties: schema.query }, req.query, 'query', issues, true)
+      : undefined;
+    if (schema.body) {
+      checkField({ type: 'object', properties: schema.body }, req.body, 'body', issues, false);
+    }
+    if (issues.length) {
+      sendValidationError(res, issues);
+      return;
+    }
+    if (query) req.query = query as Request['query'];
+    next();
+  };
+
+  if (!parseBody) return check;
+  return (req, res, next) => {
+    parseBody(req, res, (err?: unknown) => {
+      if (err) next(err);
+      else check(req, res, next);
+    });
+  };
+}
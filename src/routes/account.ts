@@ -0,0 +1,83 @@
+// 账号：个人数据导出与注销（冷静期内可撤销）
+import { Router, Response } from 'express';
+import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { sendError } from '../middleware/errors';
+import { validate } from '../middleware/validate';
+import { getUserById, cancelAccountDeletion, revokeAllAuthSessions } from '../db';
+import { buildAccountExport, scheduleAccountDeletion, toDeletionStatus } from '../services/account';
+
+const router = Router();
+
+/**
+ * GET /api/account/export
+ * 下载当前用户的全部个人数据（JSON 文件）：用户资料、情绪饼干（含回收站）、目标、同步快照及历史、AI 结果与用量、订单、登录设备、自定义提示词
+ * 托管的 AI Key 只导出掩码
+ */
+router.get('/export', authMiddleware, (req: AuthRequest, res: Response) => {
+  const archive = req.user && buildAccountExport(req.user.id);
+  if (!archive) {
+    sendError(res, 401, '用户不存在');
+    return;
+  }
+  const day = archive.exportedAt.slice(0, 10);
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="emotion-house-export-${day}.json"`);
+  res.setHeader('Cache-Control', 'no-store');
+  res.send(JSON.stringify(archive, null, 2));
+});
+
+/**
+ * GET /api/account/deletion
+ * 注销申请状态
+ */
+router.get('/deletion', authMiddleware, (req: AuthRequest, res: Response) => {
+  const user = req.user && getUserById(req.user.id);
+  if (!user) {
+    sendError(res, 401, '用户不存在');
+    return;
+  }
+  res.json({ code: 0, data: toDeletionStatus(user) });
+});
+
+/**
+ * DELETE /api/account
+ * Body: { confirm: true }
+ * 申请注销：进入冷静期（默认 15 天），期间可撤销；到期后删除账号及全部数据，且无法恢复
+ * 同时下线其他设备，仅保留当前设备以便撤销
+ */
+router.delete('/', authMiddleware, validate({ body: { confirm: { type: 'boolean' } } }), (req: AuthRequest, res: Response) => {
+  const user = req.user && getUserById(req.user.id);
+  if (!user) {
+    sendError(res, 401, '用户不存在');
+    return;
+  }
+  if ((req.body as { confirm: boolean }).confirm !== true) {
+    sendError(res, 400, '请确认注销：confirm 需为 true');
+    return;
+  }
+  const updated = scheduleAccountDeletion(user);
+  revokeAllAuthSessions(user.id, 'account_deletion', req.user!.sessionId);
+  res.json({
+    code: 0,
+    message: `已申请注销，将于 ${updated.deletion_scheduled_at} 后删除全部数据，期间可撤销`,
+    data: toDeletionStatus(updated),
+  });
+});
+
+/**
+ * POST /api/account/deletion/cancel
+ * 冷静期内撤销注销
+ */
+router.post('/deletion/cancel', authMiddleware, (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  if (!cancelAccountDeletion(req.user.id)) {
+    sendError(res, 400, '当前没有待执行的注销申请');
+    return;
+  }
+  res.json({ code: 0, message: '已撤销注销', data: toDeletionStatus(getUserById(req.user.id)!) });
+});
+
+export default router;
@@ -0,0 +1,204 @@
+// 管理接口：用户查询、数据元数据、VIP 调整、停用账号、全站统计与审计日志
+// viewer 可查看，修改用户需 operator，审计日志仅 superadmin 可查看；所有请求都会写入审计日志
+import { Router, Response } from 'express';
+import { adminMiddleware, requireAdminRole, setAuditEntry, AdminRequest } from '../middleware/admin';
+import { sendError } from '../middleware/errors';
+import { validate, validatedQuery, sendValidationError, ID, FieldSchema, RequestSchema } from '../middleware/validate';
+import { getUserById, searchUsers, setUserVip, disableUser, enableUser, listAdminAudit, UserRow } from '../db';
+import { toAdminUserDto, buildUserDataOverview, buildServiceStats, toAuditDto } from '../services/admin';
+
+const router = Router();
+
+router.use(adminMiddleware);
+
+const MAX_SEARCH_RESULTS = 50;
+const MAX_QUERY_LENGTH = 64;
+const MAX_REASON_LENGTH = 200;
+const DEFAULT_STATS_DAYS = 30;
+const MAX_STATS_DAYS = 365;
+const DEFAULT_AUDIT_PAGE_SIZE = 50;
+const MAX_AUDIT_PAGE_SIZE = 200;
+
+/** 可选的操作原因 */
+const REASON: FieldSchema = { type: 'string', maxLength: MAX_REASON_LENGTH, optional: true, nullable: true };
+
+const searchSchema: RequestSchema = { query: { q: { type: 'string', minLength: 1, maxLength: MAX_QUERY_LENGTH } } };
+const userIdSchema: RequestSchema = { params: { id: ID } };
+const setVipSchema: RequestSchema = {
+  params: { id: ID },
+  body: {
+    vipLevel: { type: 'string', enum: ['free', 'vip'] },
+    expiresAt: { type: 'string', maxLength: 64, optional: true, nullable: true },
+    reason: REASON,
+  },
+};
+const reasonSchema: RequestSchema = { params: { id: ID }, body: { reason: REASON } };
+const statsSchema: RequestSchema = { query: { days: { type: 'integer', min: 1, max: MAX_STATS_DAYS, optional: true } } };
+const auditSchema: RequestSchema = {
+  query: {
+    admin: { type: 'string', maxLength: 64, optional: true },
+    action: { type: 'string', maxLength: 64, optional: true },
+    targetUserId: { ...ID, optional: true },
+    cursor: { ...ID, optional: true },
+    limit: { type: 'integer', min: 1, max: MAX_AUDIT_PAGE_SIZE, optional: true },
+  },
+};
+
+/** 取路径中的用户；不存在时直接写回 404 并返回 undefined */
+function requireUser(req: AdminRequest, res: Response): UserRow | undefined {
+  const user = getUserById(Number(req.params.id));
+  if (!user) {
+    sendError(res, 404, '用户不存在');
+    return undefined;
+  }
+  return user;
+}
+
+/** 操作原因去除首尾空白，空串视为未填写 */
+function parseReason(value: string | null | undefined): string | null {
+  return value?.trim() || null;
+}
+
+/**
+ * GET /api/admin/me
+ * 当前管理员名称与角色
+ */
+router.get('/me', (req: AdminRequest, res: Response) => {
+  setAuditEntry(res, 'admin.me');
+  res.json({ code: 0, data: req.admin });
+});
+
+/**
+ * GET /api/admin/users?q=
+ * 按用户 id、openid 或手机号精确查找；4 位及以上纯数字也会匹配手机号尾号
+ */
+router.get('/users', validate(searchSchema), (req: AdminRequest, res: Response) => {
+  const q = (req.query.q as string).trim();
+  setAuditEntry(res, 'user.search', undefined, { q });
+  res.json({ code: 0, data: { items: searchUsers(q, MAX_SEARCH_RESULTS).map(toAdminUserDto) } });
+});
+
+/**
+ * GET /api/admin/users/:id
+ */
+router.get('/users/:id', validate(userIdSchema), (req: AdminRequest, res: Response) => {
+  const user = requireUser(req, res);
+  if (!user) return;
+  setAuditEntry(res, 'user.view', user.id);
+  res.json({ code: 0, data: toAdminUserDto(user) });
+});
+
+/**
+ * GET /api/admin/users/:id/data
+ * 云端数据概况：情绪饼干各天的大小与时间、同步状态与历史版本摘要、会话、AI 用量、订单；不含任何正文
+ */
+router.get('/users/:id/data', validate(userIdSchema), (req: AdminRequest, res: Response) => {
+  const user = requireUser(req, res);
+  if (!user) return;
+  setAuditEntry(res, 'user.data', user.id);
+  res.json({ code: 0, data: { user: toAdminUserDto(user), ...buildUserDataOverview(user) } });
+});
+
+/**
+ * PUT /api/admin/users/:id/vip
+ * Body: { vipLevel: 'free' | 'vip'; expiresAt?: string | null; reason?: string }
+ * expiresAt 为空表示长期有效，需晚于当前时间；改为 free 时清空到期时间。不生成订单
+ */
+router.put('/users/:id/vip', requireAdminRole('operator'), validate(setVipSchema), (req: AdminRequest, res: Response) => {
+  const user = requireUser(req, res);
+  if (!user) return;
+  const { vipLevel, expiresAt, reason } = req.body as {
+    vipLevel: 'free' | 'vip';
+    expiresAt?: string | null;
+    reason?: string | null;
+  };
+  let expires: string | null = null;
+  if (vipLevel === 'vip' && expiresAt !== undefined && expiresAt !== null) {
+    const time = Date.parse(expiresAt);
+    if (Number.isNaN(time) || time <= Date.now()) {
+      sendValidationError(res, [{ path: 'body.expiresAt', code: 'invalid_value', message: '需为晚于当前时间的 ISO 时间' }]);
+      return;
+    }
+    expires = new Date(time).toISOString();
+  }
+  const note = parseReason(reason);
+  const updated = setUserVip(user.id, vipLevel, expires)!;
+  setAuditEntry(res, 'user.vip', user.id, {
+    before: { vipLevel: user.vip_level, vipExpiresAt: user.vip_expires_at },
+    after: { vipLevel: updated.vip_level, vipExpiresAt: updated.vip_expires_at },
+    reason: note,
+  });
+  res.json({ code: 0, message: '已更新', data: toAdminUserDto(updated) });
+});
+
+/**
+ * POST /api/admin/users/:id/disable
+ * Body: { reason?: string }
+ * 停用账号：撤销全部登录会话，之后无法登录，已签发的 access token 也会被拒绝；数据保留
+ */
+router.post('/users/:id/disable', requireAdminRole('operator'), validate(reasonSchema), (req: AdminRequest, res: Response) => {
+  const user = requireUser(req, res);
+  if (!user) return;
+  const note = parseReason((req.body as { reason?: string | null }).reason);
+  setAuditEntry(res, 'user.disable', user.id, { reason: note });
+  if (!disableUser(user.id, note)) {
+    sendError(res, 409, '账号已处于停用状态');
+    return;
+  }
+  res.json({ code: 0, message: '已停用', data: toAdminUserDto(getUserById(user.id)!) });
+});
+
+/**
+ * POST /api/admin/users/:id/enable
+ * Body: { reason?: string }
+ * 恢复账号；停用时撤销的会话不会恢复，用户需重新登录
+ */
+router.post('/users/:id/enable', requireAdminRole('operator'), validate(reasonSchema), (req: AdminRequest, res: Response) => {
+  const user = requireUser(req, res);
+  if (!user) return;
+  const note = parseReason((req.body as { reason?: string | null }).reason);
+  setAuditEntry(res, 'user.enable', user.id, { reason: note, disabledAt: user.disabled_at });
+  if (!enableUser(user.id)) {
+    sendError(res, 409, '账号未被停用');
+    return;
+  }
+  res.json({ code: 0, message: '已恢复', data: toAdminUserDto(getUserById(user.id)!) });
+});
+
+/**
+ * GET /api/admin/stats?days=30
+ * 全站统计：用户数、VIP、停用、注销中、近 days 天新增与活跃、内容量、订单与收入、风险事件、今日/本月 AI 用量
+ */
+router.get('/stats', validate(statsSchema), (req: AdminRequest, res: Response) => {
+  const { days = DEFAULT_STATS_DAYS } = validatedQuery<{ days?: number }>(req);
+  setAuditEntry(res, 'stats.view', undefined, { days });
+  res.json({ code: 0, data: buildServiceStats(days) });
+});
+
+/**
+ * GET /api/admin/audit
+ * Query: admin?, action?, targetUserId?, cursor?（上一页的 nextCursor）, limit?
+ * 按时间倒序；nextCursor 为 null 表示没有更多
+ */
+router.get('/audit', requireAdminRole('superadmin'), validate(auditSchema), (req: AdminRequest, res: Response) => {
+  const {
+    admin,
+    action,
+    targetUserId,
+    cursor,
+    limit: pageSize = DEFAULT_AUDIT_PAGE_SIZE,
+  } = validatedQuery<{ admin?: string; action?: string; targetUserId?: number; cursor?: number; limit?: number }>(req);
+  setAuditEntry(res, 'audit.view', targetUserId);
+  // 多取一条判断是否还有下一页
+  const rows = listAdminAudit({ admin, action, targetUserId, beforeId: cursor }, pageSize + 1);
+  const items = rows.slice(0, pageSize);
+  res.json({
+    code: 0,
+    data: {
+      items: items.map(toAuditDto),
+      nextCursor: rows.length > pageSize ? String(items[items.length - 1].id) : null,
+    },
+  });
+});
+
+export default router;
@@ -0,0 +1,156 @@
+// 管理接口：离线幸运饼干任务库的增删改查；停用的条目不会被抽取，但保留在库中
+import { Router, Request, Response } from 'express';
+import { adminMiddleware, requireAdminRole, setAuditEntry } from '../middleware/admin';
+import { sendError } from '../middleware/errors';
+import { validate, validatedQuery, optional, ID, FieldSchema, RequestSchema } from '../middleware/validate';
+import {
+  listFortuneLibrary,
+  getFortuneLibraryItem,
+  insertFortuneLibraryItem,
+  updateFortuneLibraryItem,
+  deleteFortuneLibraryItem,
+  FortuneLibraryInput,
+  FortuneDifficulty,
+} from '../db';
+import { FORTUNE_DIFFICULTIES, toFortuneLibraryDto } from '../services/fortune';
+import { FORTUNE_CATEGORIES } from '../services/prompts';
+
+const router = Router();
+
+// viewer 可查看，增删改需 operator
+router.use(adminMiddleware);
+
+const MAX_CONTENT_LENGTH = 100;
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 20;
+const MAX_WEIGHT = 1000;
+const DEFAULT_WEIGHT = 10;
+
+// 新增与修改共用的字段；新增时 category、content 必填，其余取默认值
+const ITEM_FIELDS: Record<string, FieldSchema> = {
+  category: { type: 'string', enum: FORTUNE_CATEGORIES },
+  content: { type: 'string', minLength: 1, maxLength: MAX_CONTENT_LENGTH },
+  tags: {
+    type: 'array',
+    items: { type: 'string', minLength: 1, maxLength: MAX_TAG_LENGTH },
+    maxItems: MAX_TAGS,
+    optional: true,
+  },
+  difficulty: { type: 'string', enum: FORTUNE_DIFFICULTIES, optional: true },
+  weight: { type: 'integer', min: 0, max: MAX_WEIGHT, optional: true },
+  enabled: { type: 'boolean', optional: true },
+};
+
+const ID_PARAMS = { id: ID };
+
+const listSchema: RequestSchema = {
+  query: {
+    category: { type: 'string', enum: FORTUNE_CATEGORIES, optional: true },
+    difficulty: { type: 'string', enum: FORTUNE_DIFFICULTIES, optional: true },
+    enabled: { type: 'boolean', optional: true },
+  },
+};
+const createSchema: RequestSchema = { body: ITEM_FIELDS };
+const itemIdSchema: RequestSchema = { params: ID_PARAMS };
+const patchSchema: RequestSchema = {
+  params: ID_PARAMS,
+  body: Object.fromEntries(Object.entries(ITEM_FIELDS).map(([name, field]) => [name, optional(field)])),
+};
+
+interface LibraryBody {
+  category?: string;
+  content?: string;
+  tags?: string[];
+  difficulty?: FortuneDifficulty;
+  weight?: number;
+  enabled?: boolean;
+}
+
+/** 整理已校验的字段：去除首尾空白、标签去重；只保留传入的字段 */
+function toLibraryInput(body: LibraryBody): Partial<FortuneLibraryInput> {
+  const input: Partial<FortuneLibraryInput> = {};
+  if (body.category !== undefined) input.category = body.category;
+  if (body.content !== undefined) input.content = body.content.trim();
+  if (body.tags !== undefined) input.tags = [...new Set(body.tags.map((t) => t.trim()))];
+  if (body.difficulty !== undefined) input.difficulty = body.difficulty;
+  if (body.weight !== undefined) input.weight = body.weight;
+  if (body.enabled !== undefined) input.enabled = body.enabled;
+  return input;
+}
+
+/**
+ * GET /api/admin/fortune-library
+ * Query: category?, difficulty?, enabled?（true | false）
+ */
+router.get('/', validate(listSchema), (req: Request, res: Response) => {
+  const { category, difficulty, enabled } = validatedQuery<{
+    category?: string;
+    difficulty?: FortuneDifficulty;
+    enabled?: boolean;
+  }>(req);
+  const rows = listFortuneLibrary({ category, difficulty, enabled });
+  res.json({ code: 0, data: { items: rows.map(toFortuneLibraryDto) } });
+});
+
+/**
+ * POST /api/admin/fortune-library
+ * Body: { category, content, tags?: string[], difficulty?: 'easy' | 'medium' | 'hard', weight?: number, enabled?: boolean }
+ * weight 为抽取权重（默认 10，0 表示不会被抽到）
+ */
+router.post('/', requireAdminRole('operator'), validate(createSchema), (req: Request, res: Response) => {
+  const input = toLibraryInput(req.body as LibraryBody);
+  const row = insertFortuneLibraryItem({
+    tags: [],
+    difficulty: 'easy',
+    weight: DEFAULT_WEIGHT,
+    enabled: true,
+    ...input,
+  } as FortuneLibraryInput);
+  setAuditEntry(res, 'fortune_library.create', undefined, { id: row.id });
+  res.json({ code: 0, message: '已添加', data: toFortuneLibraryDto(row) });
+});
+
+/**
+ * GET /api/admin/fortune-library/:id
+ */
+router.get('/:id', validate(itemIdSchema), (req: Request, res: Response) => {
+  const id = Number(req.params.id);
+  const row = getFortuneLibraryItem(id);
+  if (!row) {
+    sendError(res, 404, '任务不存在');
+    return;
+  }
+  res.json({ code: 0, data: toFortuneLibraryDto(row) });
+});
+
+/**
+ * PATCH /api/admin/fortune-library/:id
+ * Body: 与新增相同，只更新传入的字段；停用传 { enabled: false }
+ */
+router.patch('/:id', requireAdminRole('operator'), validate(patchSchema), (req: Request, res: Response) => {
+  const id = Number(req.params.id);
+  const input = toLibraryInput(req.body as LibraryBody);
+  const row = updateFortuneLibraryItem(id, input);
+  if (!row) {
+    sendError(res, 404, '任务不存在');
+    return;
+  }
+  setAuditEntry(res, 'fortune_library.update', undefined, { id, fields: Object.keys(input) });
+  res.json({ code: 0, message: '已更新', data: toFortuneLibraryDto(row) });
+});
+
+/**
+ * DELETE /api/admin/fortune-library/:id
+ * 从库中删除；已发给用户的任务不受影响。只想暂时不用时建议改为停用
+ */
+router.delete('/:id', requireAdminRole('operator'), validate(itemIdSchema), (req: Request, res: Response) => {
+  const id = Number(req.params.id);
+  if (!deleteFortuneLibraryItem(id)) {
+    sendError(res, 404, '任务不存在');
+    return;
+  }
+  setAuditEntry(res, 'fortune_library.delete', undefined, { id });
+  res.json({ code: 0, message: '已删除' });
+});
+
+export default router;
@@ -0,0 +1,209 @@
+// 管理接口：提示词模板的版本管理（新增版本、预览、切换启用版本、回滚），修改后即时生效，无需重新部署
+import { Router, Request, Response } from 'express';
+import { adminMiddleware, requireAdminRole, setAuditEntry } from '../middleware/admin';
+import { sendError } from '../middleware/errors';
+import { validate, FieldSchema, RequestSchema } from '../middleware/validate';
+import {
+  listPromptVersions,
+  getPromptVersion,
+  insertPromptVersion,
+  getActivePromptState,
+  listActivePromptStates,
+  setActivePromptVersion,
+  PromptVersionRow,
+} from '../db';
+import {
+  PROMPT_KEYS,
+  PROMPT_TEMPLATES,
+  BUILTIN_VERSION,
+  PromptKey,
+  availableVariables,
+  validateTemplateContent,
+  getActiveTemplate,
+  previewTemplate,
+} from '../services/prompts';
+import { DEFAULT_SETTINGS } from '../services/settings';
+
+const router = Router();
+
+// viewer 可查看与预览，新增版本、启用与回滚需 operator
+router.use(adminMiddleware);
+
+// 模板正文的长度与变量由 validateTemplateContent 检查，错误沿用 INVALID_TEMPLATE
+const TEMPLATE_BODY_LIMIT = '64kb';
+
+// 路径中的模板 key 需为已知模板，未知时按统一的校验错误返回 400
+const KEY_PARAM: Record<string, FieldSchema> = { key: { type: 'string', enum: PROMPT_KEYS } };
+
+const keySchema: RequestSchema = { params: KEY_PARAM };
+const createVersionSchema: RequestSchema = {
+  params: KEY_PARAM,
+  body: {
+    content: { type: 'any' },
+    note: { type: 'string', maxLength: 200, optional: true },
+    activate: { type: 'boolean', optional: true },
+  },
+  bodyLimit: TEMPLATE_BODY_LIMIT,
+};
+const activateSchema: RequestSchema = {
+  params: KEY_PARAM,
+  body: { version: { type: 'integer', min: BUILTIN_VERSION } },
+};
+const previewSchema: RequestSchema = {
+  params: KEY_PARAM,
+  body: {
+    content: { type: 'string', optional: true },
+    version: { type: 'integer', min: BUILTIN_VERSION, optional: true },
+    variables: { type: 'object', values: { type: 'string', maxLength: 2000 }, maxKeys: 50, optional: true },
+    timezone: { type: 'string', maxLength: 64, optional: true },
+  },
+  bodyLimit: TEMPLATE_BODY_LIMIT,
+};
+
+function toVersionDto(row: PromptVersionRow) {
+  return { version: row.version, content: row.content, note: row.note, createdAt: row.created_at };
+}
+
+/** 路径中的模板 key（已由 KEY_PARAM 校验） */
+function promptKey(req: Request): PromptKey {
+  return req.params.key as PromptKey;
+}
+
+/** 版本号需为已有版本，0 表示内置内容 */
+function versionExists(key: PromptKey, version: number): boolean {
+  return version === BUILTIN_VERSION || !!getPromptVersion(key, version);
+}
+
+/**
+ * GET /api/admin/prompts
+ * 全部模板及其启用版本（0 为内置内容）
+ */
+router.get('/', (_req: Request, res: Response) => {
+  const active = new Map(listActivePromptStates().map((r) => [r.template_key, r]));
+  const items = PROMPT_KEYS.map((key) => ({
+    key,
+    description: PROMPT_TEMPLATES[key].description,
+    userOverridable: !!PROMPT_TEMPLATES[key].overrideSuffix,
+    activeVersion: active.get(key)?.version ?? BUILTIN_VERSION,
+    latestVersion: listPromptVersions(key)[0]?.version ?? BUILTIN_VERSION,
+  }));
+  res.json({ code: 0, data: { items } });
+});
+
+/**
+ * GET /api/admin/prompts/:key
+ * 模板详情：可用变量、内置内容、全部版本（倒序）与启用状态
+ */
+router.get('/:key', validate(keySchema), (req: Request, res: Response) => {
+  const key = promptKey(req);
+  const state = getActivePromptState(key);
+  res.json({
+    code: 0,
+    data: {
+      key,
+      description: PROMPT_TEMPLATES[key].description,
+      variables: availableVariables(key),
+      builtin: PROMPT_TEMPLATES[key].builtin,
+      activeVersion: state?.version ?? BUILTIN_VERSION,
+      previousVersion: state?.previous_version ?? null,
+      versions: listPromptVersions(key).map(toVersionDto),
+    },
+  });
+});
+
+/**
+ * POST /api/admin/prompts/:key/versions
+ * Body: { content: string; note?: string; activate?: boolean }
+ * 新增版本（版本号自动递增）；activate 为 true 时同时启用
+ */
+router.post('/:key/versions', requireAdminRole('operator'), validate(createVersionSchema), (req: Request, res: Response) => {
+  const key = promptKey(req);
+  const { content, note, activate } = req.body as { content: unknown; note?: string; activate?: boolean };
+  const errors = validateTemplateContent(key, content);
+  if (errors.length) {
+    sendError(res, 400, '模板内容校验失败', 'INVALID_TEMPLATE', { errors });
+    return;
+  }
+  const row = insertPromptVersion(key, content as string, note?.trim() || null);
+  if (activate === true) setActivePromptVersion(key, row.version);
+  setAuditEntry(res, 'prompt.version.create', undefined, { key, version: row.version, activate: activate === true });
+  res.json({
+    code: 0,
+    message: activate === true ? '已保存并启用' : '已保存',
+    data: { ...toVersionDto(row), active: activate === true },
+  });
+});
+
+/**
+ * POST /api/admin/prompts/:key/activate
+ * Body: { version: number }（0 表示恢复内置内容）
+ */
+router.post('/:key/activate', requireAdminRole('operator'), validate(activateSchema), (req: Request, res: Response) => {
+  const key = promptKey(req);
+  const { version } = req.body as { version: number };
+  if (!versionExists(key, version)) {
+    sendError(res, 400, '版本不存在');
+    return;
+  }
+  const state = setActivePromptVersion(key, version);
+  setAuditEntry(res, 'prompt.activate', undefined, { key, version: state.version, previous: state.previous_version });
+  res.json({ code: 0, message: '已启用', data: { activeVersion: state.version, previousVersion: state.previous_version } });
+});
+
+/**
+ * POST /api/admin/prompts/:key/rollback
+ * 回到上一个启用的版本；连续两次回滚等于撤销回滚
+ */
+router.post('/:key/rollback', requireAdminRole('operator'), validate(keySchema), (req: Request, res: Response) => {
+  const key = promptKey(req);
+  const previous = getActivePromptState(key)?.previous_version;
+  if (previous === undefined || previous === null) {
+    sendError(res, 409, '没有可回滚的版本');
+    return;
+  }
+  const state = setActivePromptVersion(key, previous);
+  setAuditEntry(res, 'prompt.rollback', undefined, { key, version: state.version, previous: state.previous_version });
+  res.json({ code: 0, message: '已回滚', data: { activeVersion: state.version, previousVersion: state.previous_version } });
+});
+
+/**
+ * POST /api/admin/prompts/:key/preview
+ * Body: { content?: string; version?: number; variables?: Record<string, string>; timezone?: string }
+ * 渲染预览：优先用 content，其次指定版本，都不传时为当前启用版本；未传的变量取服务端实际值
+ */
+router.post('/:key/preview', validate(previewSchema), (req: Request, res: Response) => {
+  const key = promptKey(req);
+  const { content, version, variables, timezone } = req.body as {
+    content?: string;
+    version?: number;
+    variables?: Record<string, string>;
+    timezone?: string;
+  };
+
+  let source: string;
+  let errors: string[] = [];
+  if (content !== undefined) {
+    errors = validateTemplateContent(key, content);
+    source = content;
+  } else if (version !== undefined) {
+    if (!versionExists(key, version)) {
+      sendError(res, 400, '版本不存在');
+      return;
+    }
+    source = version === BUILTIN_VERSION ? PROMPT_TEMPLATES[key].builtin : getPromptVersion(key, version)!.content;
+  } else {
+    source = getActiveTemplate(key).content;
+  }
+
+  const tz = timezone ?? DEFAULT_SETTINGS.timezone;
+  let text: string;
+  try {
+    text = previewTemplate(source, tz, variables ?? {});
+  } catch {
+    sendError(res, 400, 'timezone 不合法');
+    return;
+  }
+  res.json({ code: 0, data: { text, errors } });
+});
+
+export default router;
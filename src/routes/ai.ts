@@ -1,254 +1,433 @@
-// AI 网关：将小程序传来的用户 API Key 转发到 DeepSeek
+// AI 网关：将小程序传来的用户 API Key 转发到大模型（默认 DeepSeek，provider 见 services/llm）；未传时回退到登录用户托管在服务端的密钥
+// 所有接口需登录，并按 vip_level 计配额、按用户/IP 限流（见 middleware/aiLimit）
+// /analysis/* 在调用大模型前后都做心理风险筛查（见 services/safety）
+// 提示词取自模板库当前启用的版本，用户保存了自定义指令的模板优先使用自定义指令（见 services/prompts）
 import { Router, Response } from 'express';
-import axios from 'axios';
+import { AuthRequest } from '../middleware/auth';
+import { aiGuard } from '../middleware/aiLimit';
+import { sendError, errorBody, asyncHandler } from '../middleware/errors';
+import {
+  optional,
+  DATE,
+  ENTRY,
+  ENTRIES,
+  API_KEY,
+  MAX_ENTRIES_PER_DAY,
+  FieldSchema,
+  RequestSchema,
+} from '../middleware/validate';
+import { resolveLlmClient, callLlm, callLlmStream, LlmTask } from '../services/llm';
+import {
+  AnalysisKind,
+  AnalysisOutcome,
+  PreparedAnalysis,
+  findCachedAnalysis,
+  completeAnalysis,
+  runAnalysis,
+  createStreamScreen,
+} from '../services/analysis';
+import {
+  assessTexts,
+  collectEntryTexts,
+  inputAction,
+  buildSafetyBlock,
+  recordSafetyEvent,
+  SafetyBlock,
+} from '../services/safety';
+import { getUserSettings, AiPersona, UserSettings } from '../services/settings';
+import { resolvePrompt, FORTUNE_CATEGORIES, FortuneCategory } from '../services/prompts';
+import { generateFortune, pickOfflineFortune, toFortuneTaskDto, FORTUNE_DIFFICULTIES } from '../services/fortune';
+import { FortuneDifficulty } from '../db';
+import { computeMoodStats, resolveStatsRange, MoodStats, StatsRange } from '../services/stats';
+import { createLogger, errorFields } from '../services/logger';
 
 const router = Router();
+const log = createLogger('ai');
+
+const MISSING_API_KEY_MESSAGE = '缺少 apiKey，请在前端填写 AI 助手密钥或在服务端托管密钥';
+
+// 多日分析最多一年的数据；单日条目数与正文长度的上限见 middleware/validate
+const MAX_FOLDERS = 366;
+const MAX_GOAL_TITLE_LENGTH = 100;
+
+/** 一天的数据 { date, entries, diaryAnalysis? } */
+const FOLDER: FieldSchema = {
+  type: 'object',
+  properties: {
+    date: DATE,
+    entries: ENTRIES,
+    diaryAnalysis: { type: 'object', optional: true, nullable: true },
+  },
+};
 
-const DEEPSEEK_BASE_URL = 'https://api.deepseek.com';
-const DEFAULT_MODEL = 'deepseek-chat';
+const dayEntriesSchema: RequestSchema = {
+  body: {
+    apiKey: API_KEY,
+    entries: { type: 'array', items: ENTRY, minItems: 1, maxItems: MAX_ENTRIES_PER_DAY },
+    date: optional(DATE),
+  },
+  bodyLimit: '256kb',
+};
+// 日记接口不再接受请求级 customPrompt，显式报错，避免旧客户端的指令被静默忽略
+const diarySchema: RequestSchema = {
+  ...dayEntriesSchema,
+  body: {
+    ...dayEntriesSchema.body,
+    customPrompt: { type: 'removed', message: '已不再支持，请改用 PUT /api/prompts/overrides/diary 保存自定义指令' },
+  },
+};
+const counselorDiarySchema: RequestSchema = {
+  body: { apiKey: API_KEY, folders: { type: 'array', items: FOLDER, minItems: 1, maxItems: MAX_FOLDERS } },
+  bodyLimit: '1mb',
+};
+const longTermSchema: RequestSchema = {
+  body: {
+    apiKey: API_KEY,
+    range: { type: 'object', properties: { from: optional(DATE), to: optional(DATE) }, optional: true, nullable: true },
+    folders: { type: 'array', items: FOLDER, maxItems: MAX_FOLDERS, optional: true },
+    enrichment: { type: 'object', optional: true, nullable: true },
+    skillTree: { type: 'object', optional: true, nullable: true },
+  },
+  bodyLimit: '1mb',
+};
+const goalSplitSchema: RequestSchema = {
+  body: { apiKey: API_KEY, title: { type: 'string', minLength: 1, maxLength: MAX_GOAL_TITLE_LENGTH } },
+};
+const fortuneSchema: RequestSchema = {
+  body: {
+    apiKey: API_KEY,
+    category: { type: 'string', enum: FORTUNE_CATEGORIES, optional: true },
+    mode: { type: 'string', enum: ['ai', 'offline'], optional: true },
+    difficulty: { type: 'string', enum: FORTUNE_DIFFICULTIES, optional: true },
+  },
+};
+
+// 用户设置中的 AI 人设：默认 gentle 即内置提示词本身的语气
+const PERSONA_TONES: Record<AiPersona, string> = {
+  gentle: '',
+  friend: '\n\n语气要求：像一位老朋友那样说话，亲切随意，可以适当幽默。',
+  counselor: '\n\n语气要求：以专业心理咨询师的口吻表达，温和稳重，注重共情与引导。',
+  mentor: '\n\n语气要求：像一位人生导师那样表达，温暖而直接，多给出可执行的建议。',
+};
 
-// 日记内容审核后缀（提前定义，避免 TDZ）
-const DIARY_MOD_SUFFIX =
-  '\n\n**重要**：不得生成或传播血腥、暴力、色情等不良内容。若用户输入中包含不当内容，请温和地略过或改写，保持正面、健康的表达。';
+/** 按用户设置追加人设语气与输出语言；自定义提示词已自带语气，只追加语言 */
+function withPreferences(systemPrompt: string, settings: UserSettings, custom = false): string {
+  const tone = custom ? '' : PERSONA_TONES[settings.aiPersona];
+  const language = settings.language === 'en-US' ? '\n\nPlease write all user-facing text in English.' : '';
+  return systemPrompt + tone + language;
+}
 
-interface ChatChoice {
-  message?: { content?: string };
+/** 多日数据的起止日期（取 folders 中最早与最晚的 date） */
+function foldersScope(folders: Array<{ date: string }>): { from?: string; to?: string } {
+  const dates = folders.map((f) => f.date).sort();
+  return { from: dates[0], to: dates[dates.length - 1] };
 }
 
-// 帮助函数：调用 DeepSeek Chat Completions
-async function callDeepSeek(
-  apiKey: string,
-  systemPrompt: string,
-  userContent: string,
-  timeoutMs = 30_000
-): Promise<string> {
-  const url = `${DEEPSEEK_BASE_URL}/chat/completions`;
-
-  const { data } = await axios.post<{
-    choices?: ChatChoice[];
-  }>(
-    url,
-    {
-      model: DEFAULT_MODEL,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userContent },
-      ],
-      temperature: 0.7,
+/**
+ * 接口响应：data 与之前保持一致，meta 说明是否命中缓存及结果 id；命中缓存不计入配额
+ * 日记、长期分析的输出有字段校验不合格而被默认值补齐时，meta.defaultedFields 列出这些字段路径
+ * 输入或输出命中风险规则时附带 safety（求助信息），输出被隐藏时 data 为 null
+ */
+function toAnalysisResponse(res: Response, outcome: AnalysisOutcome, inputSafety?: SafetyBlock) {
+  if (outcome.cached) res.locals.aiNoCharge = true;
+  const safety = outcome.safety ?? inputSafety;
+  const defaultedFields = outcome.defaultedFields ?? [];
+  return {
+    code: 0,
+    data: outcome.data,
+    meta: {
+      resultId: outcome.resultId,
+      cached: outcome.cached,
+      ...(defaultedFields.length ? { defaultedFields } : {}),
     },
-    {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      timeout: timeoutMs,
-    }
-  );
+    ...(safety ? { safety } : {}),
+  };
+}
 
-  const content =
-    data.choices?.[0]?.message?.content?.toString().trim() ?? '';
-  if (!content) {
-    throw new Error('DeepSeek 返回内容为空');
-  }
-  return content;
+/**
+ * 输入风险筛查（本地规则，先于 API Key 解析与大模型调用）：返回需附带的 safety 块，无风险时返回 undefined
+ * action 为 blocked 时调用方不再调用大模型，直接返回 blockedResponse
+ */
+function screenInput(kind: AnalysisKind, body: unknown): SafetyBlock | undefined {
+  const assessment = assessTexts(collectEntryTexts(body));
+  const action = inputAction(assessment);
+  if (!action) return undefined;
+  recordSafetyEvent(kind, 'input', assessment, action);
+  return buildSafetyBlock(assessment, action);
+}
+
+/** 高风险输入：只返回求助信息，不计入配额 */
+function blockedResponse(res: Response, safety: SafetyBlock) {
+  res.locals.aiNoCharge = true;
+  return { code: 0, data: null, meta: { resultId: null, cached: false }, safety };
 }
 
 /**
  * POST /api/analysis/daily
- * Body: { apiKey: string; entries: { text: string; type: string }[] }
- * 返回情绪分析文本
+ * Body: { apiKey?: string; entries: { text: string; type: string }[]; date?: string }
+ * 返回情绪分析文本；登录用户的结果会保存，相同输入直接返回已保存结果
  */
-router.post('/analysis/daily', async (req, res: Response) => {
-  const { apiKey, entries } = req.body as {
+function prepareDaily(req: AuthRequest, res: Response): PreparedAnalysis | undefined {
+  const { apiKey: bodyApiKey, entries, date } = req.body as {
     apiKey?: string;
-    entries?: Array<{ text: string; type: string }>;
+    entries: Array<{ text: string; type?: string }>;
+    date?: string;
   };
 
-  if (!apiKey || typeof apiKey !== 'string') {
-    res
-      .status(400)
-      .json({ code: 400, message: '缺少 apiKey，请在前端填写 AI 助手密钥' });
-    return;
-  }
-  if (!Array.isArray(entries) || entries.length === 0) {
-    res.status(400).json({ code: 400, message: '没有可分析的内容' });
-    return;
+  const llm = resolveLlmClient(req.user?.id, bodyApiKey);
+  if (!llm) {
+    sendError(res, 400, MISSING_API_KEY_MESSAGE, 'MISSING_API_KEY');
+    return undefined;
   }
 
-  try {
-    const systemPrompt =
-      '你是「情绪饼干屋」的小程序助手，请根据用户今天记录的多条情绪碎片，给出一段温柔、具体的中文情绪总结和一点小建议，语气轻松，不超过 200 字。';
+  const settings = getUserSettings(req.user!.id);
+  const prompt = resolvePrompt('daily', { userId: req.user!.id, timezone: settings.timezone });
+  const systemPrompt = withPreferences(prompt.text, settings, prompt.overridden);
 
-    const userContent = JSON.stringify(
-      entries.map((e, idx) => ({
-        index: idx + 1,
-        text: e.text,
-        type: e.type,
-      })),
-      null,
-      2
-    );
+  const userContent = JSON.stringify(
+    entries.map((e, idx) => ({
+      index: idx + 1,
+      text: e.text,
+      type: e.type,
+    })),
+    null,
+    2
+  );
 
-    const analysis = await callDeepSeek(apiKey, systemPrompt, userContent);
+  return {
+    llm,
+    systemPrompt,
+    userContent,
+    promptVersion: prompt.version,
+    scope: { date },
+  };
+}
 
-    res.json({
-      code: 0,
-      data: { analysis },
-    });
+router.post('/analysis/daily', ...aiGuard('daily', dayEntriesSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const safety = screenInput('daily', req.body);
+  if (safety?.action === 'blocked') {
+    res.json(blockedResponse(res, safety));
+    return;
+  }
+  const prepared = prepareDaily(req, res);
+  if (!prepared) return;
+
+  try {
+    const outcome = await runAnalysis(req.user?.id, 'daily', prepared);
+    res.json(toAnalysisResponse(res, outcome, safety));
   } catch (error: any) {
-    console.error('调用 DeepSeek 分析失败:', error?.response?.data || error);
+    log.error('调用 AI 分析失败', errorFields(error));
     const msg =
       error?.response?.data?.error?.message ||
       error?.message ||
       'AI 分析失败';
-    res.status(502).json({ code: 502, message: msg });
+    sendError(res, 502, msg);
+  }
+}));
+
+// 流式接口：以 Server-Sent Events 推送 delta（逐段文本），最后一个 done 事件携带与阻塞接口相同的 { code, data, meta }
+function sendSseEvent(res: Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function openSseStream(res: Response): void {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+}
+
+/** 风险筛查先于 prepare（解析 API Key 等）执行：高风险输入即使未配置 API Key 也能拿到求助信息 */
+async function streamAnalysis(
+  req: AuthRequest,
+  res: Response,
+  kind: AnalysisKind,
+  prepare: (req: AuthRequest, res: Response) => PreparedAnalysis | undefined,
+  failMessage: string
+): Promise<void> {
+  const safety = screenInput(kind, req.body);
+  if (safety?.action === 'blocked') {
+    openSseStream(res);
+    sendSseEvent(res, 'done', blockedResponse(res, safety));
+    res.end();
+    return;
+  }
+
+  // prepare 失败时已写回普通 JSON 错误，此时尚未切换为 SSE
+  const prepared = prepare(req, res);
+  if (!prepared) return;
+  openSseStream(res);
+
+  // 已有相同输入的结果时直接结束，不再调用大模型
+  const cached = findCachedAnalysis(req.user?.id, kind, prepared);
+  if (cached) {
+    sendSseEvent(res, 'done', toAnalysisResponse(res, cached, safety));
+    res.end();
+    return;
+  }
+
+  // 客户端断开时取消上游请求；心跳注释行防止中间代理因空闲断开连接
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15_000);
+
+  // 增量文本先经风险筛查再下发；命中时停止推送并取消上游，done 事件的 data 为 null、只带 safety
+  const screen = createStreamScreen(kind);
+  let withheld: SafetyBlock | undefined;
+  const sendWithheld = () =>
+    sendSseEvent(res, 'done', toAnalysisResponse(res, { data: null, resultId: null, cached: false, safety: withheld }));
+
+  try {
+    const raw = await callLlmStream(
+      prepared.llm,
+      kind,
+      prepared.systemPrompt,
+      prepared.userContent,
+      (delta) => {
+        if (withheld) return;
+        const screened = screen.push(delta);
+        if ('safety' in screened) {
+          withheld = screened.safety;
+          controller.abort();
+        } else if (screened.text) {
+          sendSseEvent(res, 'delta', { text: screened.text });
+        }
+      },
+      controller.signal
+    );
+    if (withheld) {
+      sendWithheld();
+      return;
+    }
+    const rest = screen.flush();
+    if (rest) sendSseEvent(res, 'delta', { text: rest });
+    // 修复后的结构化输出仍可能命中风险规则，此时 done 事件的 data 同样为 null
+    const outcome = await completeAnalysis(req.user?.id, kind, prepared, raw);
+    sendSseEvent(res, 'done', toAnalysisResponse(res, outcome, safety));
+  } catch (error: any) {
+    if (withheld) {
+      sendWithheld();
+      return;
+    }
+    // 客户端断开导致的取消照常计入用量（上游已开始生成）
+    if (!controller.signal.aborted) {
+      res.locals.aiNoCharge = true;
+      log.error(`${failMessage}（流式）`, errorFields(error));
+      const msg = error?.response?.data?.error?.message || error?.message || failMessage;
+      sendSseEvent(res, 'error', errorBody(502, msg));
+    }
+  } finally {
+    clearInterval(heartbeat);
+    res.end();
   }
-});
+}
 
 /**
  * POST /api/analysis/diary
- * Body: { apiKey: string; entries: [...]; customPrompt?: string }
+ * Body: { apiKey?: string; entries: [...]; date?: string }
  * 返回 AI 生成的日记 { diary, keyPoints, insights }
- * customPrompt 为自定义日记指令，不传则使用默认
+ * 用户在 /api/prompts/overrides/diary 保存了自定义指令时使用该指令，否则使用当前启用的 diary 模板
+ * 已不支持请求级 customPrompt，带上该字段时返回 400
  */
-const DIARY_DEFAULT_PROMPT =
-  '你是一位温柔的日记记录者。用户会提供 ta 一天中的想法和笔记。请像一位旁观者，在看过 ta 的一天之后，用**第二人称「你」**为 ta 写一份日记。\n\n' +
-  '要求：\n' +
-  '1. **diary（完整日记）**：语气柔和、感情细腻真实，注重剖析内心世界。以「你」为主语，像外面的人客观地回看 ta 的一天，温柔地描述 ta 做了什么、想了什么、感受到了什么。不改变原意，但可以梳理逻辑、提升表达。**全文不超过 600 字**。\n\n' +
-  '2. **keyPoints（关键要点）**：简要总结这一天的主要脉络。\n\n' +
-  '3. **insights（洞察与建议）**：基于日记，像一位温和的心理师或人生导师，给出客观的洞察、鼓励或建议。\n\n' +
-  '请**严格**用 JSON 格式返回，只输出一个 JSON 对象，不要其他文字。格式示例：\n' +
-  '{"diary":"完整日记正文","keyPoints":"要点1、要点2、要点3","insights":"洞察与建议内容"}' +
-  DIARY_MOD_SUFFIX;
-
-const DIARY_JSON_SUFFIX =
-  '\n\n请**严格**用 JSON 格式返回，只输出一个 JSON 对象，不要其他文字。格式示例：\n' +
-  '{"diary":"完整日记正文","keyPoints":"要点1、要点2、要点3","insights":"洞察与建议内容"}' +
-  DIARY_MOD_SUFFIX;
-
-router.post('/analysis/diary', async (req, res: Response) => {
-  const { apiKey, entries, customPrompt } = req.body as {
+/** 校验并组装日记请求；不合法时直接写回 400 并返回 undefined */
+function prepareDiary(req: AuthRequest, res: Response): PreparedAnalysis | undefined {
+  const { apiKey: bodyApiKey, entries, date } = req.body as {
     apiKey?: string;
-    entries?: Array<{ text: string; type: string; timestamp?: number }>;
-    customPrompt?: string;
+    entries: Array<{ text: string; type?: string; timestamp?: number | null }>;
+    date?: string;
   };
 
-  if (!apiKey || typeof apiKey !== 'string') {
-    res
-      .status(400)
-      .json({ code: 400, message: '缺少 apiKey，请在前端填写 AI 助手密钥' });
-    return;
-  }
-  if (!Array.isArray(entries) || entries.length === 0) {
-    res.status(400).json({ code: 400, message: '没有可分析的内容' });
-    return;
+  const llm = resolveLlmClient(req.user?.id, bodyApiKey);
+  if (!llm) {
+    sendError(res, 400, MISSING_API_KEY_MESSAGE, 'MISSING_API_KEY');
+    return undefined;
   }
 
-  const systemPrompt =
-    customPrompt && typeof customPrompt === 'string' && customPrompt.trim().length > 0
-      ? customPrompt.trim() + DIARY_JSON_SUFFIX
-      : DIARY_DEFAULT_PROMPT;
+  const settings = getUserSettings(req.user!.id);
+  const prompt = resolvePrompt('diary', { userId: req.user!.id, timezone: settings.timezone });
+  const systemPrompt = withPreferences(prompt.text, settings, prompt.overridden);
 
-  try {
-    const userContent = JSON.stringify(
-      entries
-        .sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0))
-        .map((e, idx) => ({
-          index: idx + 1,
-          text: e.text,
-          type: e.type,
-          time: e.timestamp
-            ? new Date(e.timestamp).toLocaleTimeString('zh-CN', {
-                hour: '2-digit',
-                minute: '2-digit',
-              })
-            : null,
-        })),
-      null,
-      2
-    );
+  const userContent = JSON.stringify(
+    entries
+      .sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0))
+      .map((e, idx) => ({
+        index: idx + 1,
+        text: e.text,
+        type: e.type,
+        time: e.timestamp
+          ? new Date(e.timestamp).toLocaleTimeString('zh-CN', {
+              hour: '2-digit',
+              minute: '2-digit',
+            })
+          : null,
+      })),
+    null,
+    2
+  );
 
-    const raw = await callDeepSeek(apiKey, systemPrompt, userContent);
-
-    // 尝试解析 JSON（AI 可能返回带 markdown 代码块的内容）
-    let parsed: { diary?: string; keyPoints?: string; insights?: string } = {
-      diary: raw,
-      keyPoints: '',
-      insights: '',
-    };
-
-    const jsonMatch = raw.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      try {
-        const obj = JSON.parse(jsonMatch[0]);
-        if (obj.diary) parsed.diary = obj.diary;
-        if (obj.keyPoints) parsed.keyPoints = obj.keyPoints;
-        if (obj.insights) parsed.insights = obj.insights;
-      } catch {
-        // 尝试按段落拆分：完整日记、关键要点、洞察与建议
-        const diaryMatch = raw.match(/(?:完整日记|日记)[：:]\s*([\s\S]*?)(?=关键要点|要点|$)/i);
-        const pointsMatch = raw.match(/(?:关键要点|要点)[：:]\s*([\s\S]*?)(?=洞察|建议|$)/i);
-        const insightsMatch = raw.match(/(?:洞察|建议|洞察与建议)[：:]\s*([\s\S]*)/i);
-        if (diaryMatch) parsed.diary = diaryMatch[1].trim();
-        if (pointsMatch) parsed.keyPoints = pointsMatch[1].trim();
-        if (insightsMatch) parsed.insights = insightsMatch[1].trim();
-      }
-    }
+  return {
+    llm,
+    systemPrompt,
+    userContent,
+    promptVersion: prompt.version,
+    scope: { date },
+  };
+}
 
-    res.json({
-      code: 0,
-      data: {
-        diary: parsed.diary || raw,
-        keyPoints: parsed.keyPoints || '',
-        insights: parsed.insights || '',
-      },
-    });
+router.post('/analysis/diary', ...aiGuard('diary', diarySchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const safety = screenInput('diary', req.body);
+  if (safety?.action === 'blocked') {
+    res.json(blockedResponse(res, safety));
+    return;
+  }
+  const prepared = prepareDiary(req, res);
+  if (!prepared) return;
+
+  try {
+    const outcome = await runAnalysis(req.user?.id, 'diary', prepared);
+    res.json(toAnalysisResponse(res, outcome, safety));
   } catch (error: any) {
-    console.error('调用 DeepSeek 日记生成失败:', error?.response?.data || error);
+    log.error('调用 AI 日记生成失败', errorFields(error));
     const msg =
       error?.response?.data?.error?.message ||
       error?.message ||
       'AI 日记生成失败';
-    res.status(502).json({ code: 502, message: msg });
+    sendError(res, 502, msg);
   }
-});
+}));
+
+/**
+ * POST /api/analysis/diary/stream
+ * 参数同 /analysis/diary；SSE 事件：delta { text } → done { code, data: { diary, keyPoints, insights }, meta } 或 error { code, error, message }
+ */
+router.post('/analysis/diary/stream', ...aiGuard('diary', diarySchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  await streamAnalysis(req, res, 'diary', prepareDiary, 'AI 日记生成失败');
+}));
 
 /**
  * POST /api/analysis/counselor-diary
- * Body: { apiKey: string; folders: [{ date, entries: [...] }] }
+ * Body: { apiKey?: string; folders: [{ date, entries: [...] }] }
  * 根据所有输入数据，以心理咨询师视角生成深度心理日记，约 1500 字
  */
-const COUNSELOR_DIARY_PROMPT =
-  '你是一位专业的心理咨询师。用户会提供 ta 多日以来的想法、笔记和记录。请根据这些数据，从最初的记录开始，以心理咨询师的视角为用户写一份深度心理日记。\n\n' +
-  '要求：\n' +
-  '1. 叙事完整，感情细腻真实，注重剖析内心世界。\n' +
-  '2. 尽量串联完整对话与记录，形成连贯的心理脉络。\n' +
-  '3. 直接呈现日记内容，以第二人称「你」或第一人称均可。\n' +
-  '4. 字数约 1500 字左右。\n' +
-  '5. 不得生成或传播血腥、暴力、色情等不良内容。若用户输入中包含不当内容，请温和地略过或改写，保持正面、健康的表达。';
-
-router.post('/analysis/counselor-diary', async (req, res: Response) => {
-  const { apiKey, folders } = req.body as {
+function prepareCounselorDiary(req: AuthRequest, res: Response): PreparedAnalysis | undefined {
+  const { apiKey: bodyApiKey, folders } = req.body as {
     apiKey?: string;
-    folders?: Array<{
+    folders: Array<{
       date: string;
-      entries: Array<{ text: string; type?: string; timestamp?: number }>;
+      entries: Array<{ text: string; type?: string; timestamp?: number | null }>;
     }>;
   };
 
-  if (!apiKey || typeof apiKey !== 'string') {
-    res
-      .status(400)
-      .json({ code: 400, message: '缺少 apiKey，请在前端填写 AI 助手密钥' });
-    return;
-  }
-  if (!Array.isArray(folders) || folders.length === 0) {
-    res.status(400).json({ code: 400, message: '没有可分析的内容' });
-    return;
+  const llm = resolveLlmClient(req.user?.id, bodyApiKey);
+  if (!llm) {
+    sendError(res, 400, MISSING_API_KEY_MESSAGE, 'MISSING_API_KEY');
+    return undefined;
   }
 
   const allEntries = folders.flatMap((f) =>
-    (f.entries || []).map((e) => ({
+    f.entries.map((e) => ({
       date: f.date,
       text: e.text,
       type: e.type || '碎碎念',
@@ -262,8 +441,8 @@ router.post('/analysis/counselor-diary', async (req, res: Response) => {
   );
 
   if (allEntries.length === 0) {
-    res.status(400).json({ code: 400, message: '没有可分析的内容' });
-    return;
+    sendError(res, 400, '没有可分析的内容');
+    return undefined;
   }
 
   const userContent = JSON.stringify(
@@ -276,31 +455,51 @@ router.post('/analysis/counselor-diary', async (req, res: Response) => {
     2
   );
 
+  const settings = getUserSettings(req.user!.id);
+  const prompt = resolvePrompt('counselorDiary', { userId: req.user!.id, timezone: settings.timezone });
+  return {
+    llm,
+    systemPrompt: withPreferences(prompt.text, settings, prompt.overridden),
+    userContent,
+    promptVersion: prompt.version,
+    scope: foldersScope(folders),
+  };
+}
+
+router.post('/analysis/counselor-diary', ...aiGuard('counselorDiary', counselorDiarySchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const safety = screenInput('counselorDiary', req.body);
+  if (safety?.action === 'blocked') {
+    res.json(blockedResponse(res, safety));
+    return;
+  }
+  const prepared = prepareCounselorDiary(req, res);
+  if (!prepared) return;
+
   try {
-    const diary = await callDeepSeek(
-      apiKey,
-      COUNSELOR_DIARY_PROMPT,
-      userContent,
-      60_000
-    );
-    res.json({ code: 0, data: { diary } });
+    const outcome = await runAnalysis(req.user?.id, 'counselorDiary', prepared);
+    res.json(toAnalysisResponse(res, outcome, safety));
   } catch (error: any) {
-    console.error(
-      '调用 DeepSeek 心理日记生成失败:',
-      error?.response?.data || error
-    );
+    log.error('调用 AI 心理日记生成失败', errorFields(error));
     const msg =
       error?.response?.data?.error?.message ||
       error?.message ||
       'AI 心理日记生成失败';
-    res.status(502).json({ code: 502, message: msg });
+    sendError(res, 502, msg);
   }
-});
+}));
+
+/**
+ * POST /api/analysis/counselor-diary/stream
+ * 参数同 /analysis/counselor-diary；done 事件的 data 为 { diary }
+ */
+router.post('/analysis/counselor-diary/stream', ...aiGuard('counselorDiary', counselorDiarySchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  await streamAnalysis(req, res, 'counselorDiary', prepareCounselorDiary, 'AI 心理日记生成失败');
+}));
 
 /**
  * POST /api/analysis/long-term
  * Body: {
- *   apiKey: string;
+ *   apiKey?: string;
  *   range?: { from?: string; to?: string };
  *   folders?: [...];
  *   enrichment?: {...};
@@ -308,160 +507,122 @@ router.post('/analysis/counselor-diary', async (req, res: Response) => {
  * }
  * 结合所有日记 / 丰容 / 技能树做长期分析，返回结构化结果
  */
-router.post('/analysis/long-term', async (req, res: Response) => {
-  const { apiKey, range, folders, enrichment, skillTree } = req.body as {
+/** 给模型的统计摘要：去掉逐日序列与逐小时分布，控制提示词长度 */
+function toLongTermStats(stats: MoodStats) {
+  const { daily: _daily, timeOfDay, ...rest } = stats;
+  return { ...rest, timeOfDay: timeOfDay.buckets };
+}
+
+function prepareLongTerm(req: AuthRequest, res: Response): PreparedAnalysis | undefined {
+  const { apiKey: bodyApiKey, range, folders, enrichment, skillTree } = req.body as {
     apiKey?: string;
-    range?: { from?: string; to?: string };
+    range?: { from?: string; to?: string } | null;
     folders?: Array<{
       date: string;
-      entries: Array<{ text: string; type?: string; timestamp?: number }>;
-      diaryAnalysis?: { diary?: string; keyPoints?: string; insights?: string };
+      entries: Array<{ text: string; type?: string; timestamp?: number | null }>;
+      diaryAnalysis?: { diary?: string; keyPoints?: string; insights?: string } | null;
     }>;
     enrichment?: any;
     skillTree?: any;
   };
 
-  if (!apiKey || typeof apiKey !== 'string') {
-    res
-      .status(400)
-      .json({ code: 400, message: '缺少 apiKey，请在前端填写 AI 助手密钥' });
-    return;
+  const llm = resolveLlmClient(req.user?.id, bodyApiKey);
+  if (!llm) {
+    sendError(res, 400, MISSING_API_KEY_MESSAGE, 'MISSING_API_KEY');
+    return undefined;
   }
   const hasAnyData =
     (Array.isArray(folders) && folders.length > 0) ||
     (enrichment && Object.keys(enrichment).length > 0) ||
     (skillTree && Object.keys(skillTree).length > 0);
   if (!hasAnyData) {
-    res.status(400).json({ code: 400, message: '没有可分析的长期数据' });
-    return;
+    sendError(res, 400, '没有可分析的长期数据');
+    return undefined;
   }
 
-  const LONG_TERM_PROMPT =
-    '你是「情绪饼干屋」的长期分析助手，也是温柔的心理咨询师/人生导师。\n' +
-    '系统会把用户一段时间内的**日记碎片、AI 日记分析、丰容板块记录、技能树信息**整理成 JSON 给你。\n' +
-    '请你基于这些数据，给出一份**一语中的**的整体人生方向与建议报告（不要复述具体日记），侧重：\n' +
-    '1）最近一段时间的关键生活要点（主次分明、按重要性排序）；\n' +
-    '2）从心理与人生视角，对用户当前阶段的「模式/困惑/优势」做提炼与点评；\n' +
-    '3）分主题、可执行的行动建议；\n' +
-    '4）用简单数字结构给出可视化指标（情绪趋势、生活维度雷达、丰容与技能分布）。\n\n' +
-    '**重要风格要求**：\n' +
-    '- 全篇**一语中的**：直接说结论和建议，不绕弯、不流水账、不讲故事；\n' +
-    '- **有分点**：用 1、2、3 或短横线分点，条理清晰；\n' +
-    '- **关键处用加粗**：在 letter 中，重要结论、核心建议用 **粗体** 标出（用两个星号包裹，例如 **这是重点**）；\n' +
-    '- 整份报告（含 letter）总字数控制在**约 1000 字**；\n' +
-    '- 语气温柔、具体，多用第二人称「你」；\n' +
-    '- 不得生成或传播血腥、暴力、色情等不良内容，保持正面、健康的表达。\n\n' +
-    '**字段内容要求**：\n' +
-    '- summary.keyPoints：3～6 条中文要点，按重要性从高到低排序，每条不超过 40 字；\n' +
-    '- psychologicalInsight.letter：主报告正文，**约 800～1000 字**。要求：分段、分点（1 2 3 或 •），关键句用 **...** 加粗；内容聚焦「你最近在经历什么阶段」「你展现出的力量」「可能需要注意的模式」及可执行建议；\n' +
-    '- psychologicalInsight.themes：2～4 个核心主题词；\n' +
-    '- lifeAdvice.adviceBlocks[*].content：每个主题下 2～4 条简洁建议，可分点。\n\n' +
-    '请严格按以下 JSON 结构返回（不要多余文字）：\n' +
-    '{\n' +
-    '  "summary": {\n' +
-    '    "timeRange": "近 90 天或你认为合适的描述",\n' +
-    '    "keyPoints": ["要点1", "要点2", "要点3"]\n' +
-    '  },\n' +
-    '  "psychologicalInsight": {\n' +
-    '    "letter": "约1000字的主报告，分点、关键句用**粗体**",\n' +
-    '    "themes": ["主题1", "主题2"]\n' +
-    '  },\n' +
-    '  "lifeAdvice": {\n' +
-    '    "adviceBlocks": [\n' +
-    '      { "title": "工作与学习", "content": "具体建议", "tags": ["节奏","边界"] },\n' +
-    '      { "title": "身体与自我照顾", "content": "具体建议", "tags": ["睡眠","休息"] }\n' +
-    '    ]\n' +
-    '  },\n' +
-    '  "metrics": {\n' +
-    '    "emotionTrend": [ { "label": "第1周", "score": 0.2 }, { "label": "第2周", "score": -0.1 } ],\n' +
-    '    "lifeRadar": {\n' +
-    '      "workStudy": 0.0,\n' +
-    '      "relationship": 0.0,\n' +
-    '      "selfCare": 0.0,\n' +
-    '      "play": 0.0,\n' +
-    '      "growth": 0.0\n' +
-    '    },\n' +
-    '    "enrichmentCounts": [ { "id": "physical", "name": "物理环境", "count": 0 } ],\n' +
-    '    "skillStats": [ { "categoryId": "sports", "avgLove": 0, "avgMastery": 0, "count": 0 } ]\n' +
-    '  }\n' +
-    '}\n' +
-    DIARY_MOD_SUFFIX;
+  const scope = foldersScope(folders || []);
+  const settings = getUserSettings(req.user!.id);
+  const { timezone } = settings;
+  const requested = resolveStatsRange(range?.from ?? scope.from, range?.to ?? scope.to, timezone);
+  // 区间不合法或过长时退回默认区间，长期分析本身不因统计区间报错
+  const statsRange = typeof requested === 'string' ? (resolveStatsRange(undefined, undefined, timezone) as StatsRange) : requested;
+  const stats = computeMoodStats(req.user!.id, statsRange, timezone, {
+    days: (folders || []).map((f) => ({ date: f.date, entries: f.entries })),
+    enrichment,
+    skillTree,
+  });
+
+  const payload = {
+    range: range || null,
+    folders: folders || [],
+    enrichment: enrichment || {},
+    skillTree: skillTree || {},
+    stats: toLongTermStats(stats),
+  };
 
-  try {
-    const payload = {
-      range: range || null,
-      folders: folders || [],
-      enrichment: enrichment || {},
-      skillTree: skillTree || {},
-    };
-
-    const userContent = JSON.stringify(payload, null, 2);
-    const raw = await callDeepSeek(apiKey, LONG_TERM_PROMPT, userContent, 45_000);
-
-    let parsed: any = null;
-    const jsonMatch = raw.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      try {
-        parsed = JSON.parse(jsonMatch[0]);
-      } catch {
-        // ignore, fallback below
-      }
-    }
+  const prompt = resolvePrompt('longTerm', { timezone });
+  return {
+    llm,
+    systemPrompt: withPreferences(prompt.text, settings, prompt.overridden),
+    userContent: JSON.stringify(payload, null, 2),
+    promptVersion: prompt.version,
+    scope: { from: range?.from ?? scope.from, to: range?.to ?? scope.to },
+  };
+}
 
-    if (!parsed) {
-      parsed = {
-        summary: { timeRange: '近期', keyPoints: [raw.slice(0, 200)] },
-        psychologicalInsight: { letter: raw, themes: [] },
-        lifeAdvice: { adviceBlocks: [] },
-        metrics: {},
-      };
-    }
+router.post('/analysis/long-term', ...aiGuard('longTerm', longTermSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const safety = screenInput('longTerm', req.body);
+  if (safety?.action === 'blocked') {
+    res.json(blockedResponse(res, safety));
+    return;
+  }
+  const prepared = prepareLongTerm(req, res);
+  if (!prepared) return;
 
-    res.json({ code: 0, data: parsed });
+  try {
+    const outcome = await runAnalysis(req.user?.id, 'longTerm', prepared);
+    res.json(toAnalysisResponse(res, outcome, safety));
   } catch (error: any) {
-    console.error(
-      '调用 DeepSeek 长期分析失败:',
-      error?.response?.data || error
-    );
+    log.error('调用 AI 长期分析失败', errorFields(error));
     const msg =
       error?.response?.data?.error?.message ||
       error?.message ||
       'AI 长期分析失败';
-    res.status(502).json({ code: 502, message: msg });
+    sendError(res, 502, msg);
   }
-});
+}));
+
+/**
+ * POST /api/analysis/long-term/stream
+ * 参数同 /analysis/long-term；done 事件的 data 为与阻塞接口相同的长期分析 JSON
+ */
+router.post('/analysis/long-term/stream', ...aiGuard('longTerm', longTermSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  await streamAnalysis(req, res, 'longTerm', prepareLongTerm, 'AI 长期分析失败');
+}));
 
 /**
  * POST /api/goals/split
- * Body: { apiKey: string; title: string }
+ * Body: { apiKey?: string; title: string }
  * 返回拆解后的步骤数组 string[]
  */
-router.post('/goals/split', async (req, res: Response) => {
-  const { apiKey, title } = req.body as {
+router.post('/goals/split', ...aiGuard('goalSplit', goalSplitSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { apiKey: bodyApiKey, title } = req.body as {
     apiKey?: string;
-    title?: string;
+    title: string;
   };
 
-  if (!apiKey || typeof apiKey !== 'string') {
-    res
-      .status(400)
-      .json({ code: 400, message: '缺少 apiKey，请在前端填写 AI 助手密钥' });
-    return;
-  }
-  if (!title || typeof title !== 'string') {
-    res.status(400).json({ code: 400, message: '请提供要拆解的目标标题' });
+  const llm = resolveLlmClient(req.user?.id, bodyApiKey);
+  if (!llm) {
+    sendError(res, 400, MISSING_API_KEY_MESSAGE, 'MISSING_API_KEY');
     return;
   }
 
   try {
-    const systemPrompt =
-      '你是「情绪饼干屋」里的目标拆解助手。请把用户的目标拆解成「一步一步要看什么、准备什么、做什么」的少量步骤，让人容易达到一个可触及的结果。\n' +
-      '要求：\n' +
-      '1. 主步骤约 4～6 条即可，顺序清晰，每步都可执行、易完成；\n' +
-      '2. 可额外补充 1～2 条更高的可选目标（进阶或延伸）；\n' +
-      '3. 输出为纯文本列表，每行一个步骤，不要序号、不要多余说明。';
+    const settings = getUserSettings(req.user!.id);
+    const prompt = resolvePrompt('goalSplit', { timezone: settings.timezone });
+    const systemPrompt = withPreferences(prompt.text, settings, prompt.overridden);
 
-    const stepsText = await callDeepSeek(apiKey, systemPrompt, title);
+    const stepsText = await callLlm(llm, 'goalSplit', systemPrompt, title);
 
     // 将返回的多行文本拆成数组
     const steps = stepsText
@@ -475,77 +636,88 @@ router.post('/goals/split', async (req, res: Response) => {
       data: { steps },
     });
   } catch (error: any) {
-    console.error('调用 DeepSeek 拆解失败:', error?.response?.data || error);
+    log.error('调用 AI 拆解失败', errorFields(error));
     const msg =
       error?.response?.data?.error?.message ||
       error?.message ||
       '目标拆解失败';
-    res.status(502).json({ code: 502, message: msg });
+    sendError(res, 502, msg);
   }
-});
-
-// 丰容板块 prompt 配置（低成本、易实践、具体可操作，参考人类丰容指南风格）
-const FORTUNE_PROMPTS: Record<string, string> = {
-  physical:
-    '你是「情绪饼干屋」的丰容助手，风格参考「人类丰容指南：低成本易实践版」。用户选择了「物理环境丰容」。请生成**一条**具体、马上能做、低成本的小任务。参考示例：整理书桌（改变摆件位置让学习区焕然一新）、整理衣柜并把当季搭配挂好、坐地铁/公交去一个从没去过的地方探索、给桌面加一件小物（迷你香薰/小装饰画/多肉盆栽）、买一盆好上手的绿植（如多肉、龟背竹）。要求：只输出1条任务，50字以内，语气亲切，不要序号、不要引号，要像生活中随手可做的小事。',
-  touch:
-    '你是「情绪饼干屋」的丰容助手，风格参考「人类丰容指南：低成本易实践版」。用户选择了「丰富触感」板块。请生成**一条**具体、可执行的小任务。参考示例：光脚踩地毯或榻榻米几分钟、去草地或沙滩走一走、撸猫狗或摸羊毛毯、做一次陶艺/泥塑体验、用不同材质的抱枕或毯子窝一会儿。要求：只输出1条任务，50字以内，语气亲切，不要序号、不要引号，要容易马上做。',
-  social:
-    '你是「情绪饼干屋」的丰容助手，风格参考「人类丰容指南：低成本易实践版」。用户选择了「社会与生物互动丰容」。请生成**一条**具体、可执行的小任务。参考示例：约一个朋友去没去过的咖啡店、给很久没联系的人发一条消息、参加一次线下体验课或活动、去公园/宠物店看看小动物、做一次短时志愿者。要求：只输出1条任务，50字以内，语气亲切，不要序号、不要引号。',
-  cognitive:
-    '你是「情绪饼干屋」的丰容助手，风格参考「人类丰容指南：低成本易实践版」。用户选择了「认知丰容」。请生成**一条**具体、可执行的小任务。参考示例：今天花10分钟学一个小技能或看一集速成课、选一个从没试过的领域看一篇入门文章、玩一局逻辑/策略小游戏、用非惯用手做一件小事（刷牙/拿筷子）。要求：只输出1条任务，50字以内，语气亲切，不要序号、不要引号，要容易上手。',
-  sensory:
-    '你是「情绪饼干屋」的丰容助手，风格参考「人类丰容指南：低成本易实践版」。用户选择了「感官丰容」。请生成**一条**具体、可执行的小任务。参考示例：每周尝试一种从没吃过的新食物或没点过的菜、换一种新味道的香氛/护手霜/身体乳、听一张从没听过的专辑或播客、看一部没看过的类型的短片、去一个没去过的公园或街区走一走。要求：只输出1条任务，50字以内，语气亲切，不要序号、不要引号，要具体到动作或物品。',
-  food:
-    '你是「情绪饼干屋」的丰容助手，风格参考「人类丰容指南：低成本易实践版」。用户选择了「食物丰容」。请生成**一条**具体、可执行的小任务。参考示例：今天点一道以前没点过的菜、买一种从没吃过但想试的零食、自己做一次简单的摆盘、去一家没去过的早餐店/小吃摊、试做一道从没做过的快手菜。要求：只输出1条任务，50字以内，语气亲切，不要序号、不要引号，要马上能做。',
-  selfCare:
-    '你是「情绪饼干屋」的丰容助手，风格参考「人类丰容指南：低成本易实践版」。用户选择了「老己/心理丰容」。请生成**一条**具体、可执行的小任务。参考示例：准备一个「快乐收集本」记下今天一件开心小事、对自己说3句肯定的话或写一张鼓励小纸条贴起来、留10分钟不刷手机只发呆放空、睡前花2分钟简单复盘今天心情、随便写几句碎碎念想到什么写什么。要求：只输出1条任务，50字以内，语气亲切，不要序号、不要引号，要容易坚持。',
-};
+}));
 
-const FORTUNE_CATEGORIES = Object.keys(FORTUNE_PROMPTS);
+/** 离线任务不调用大模型，不占配额：显式要求离线或当前没有可用的 API Key 时跳过配额检查 */
+function fortuneQuotaTask(req: AuthRequest): LlmTask | undefined {
+  const body = req.body as { mode?: string; apiKey?: string };
+  if (body.mode === 'offline') return undefined;
+  return resolveLlmClient(req.user?.id, body.apiKey) ? 'fortune' : undefined;
+}
 
 /**
  * POST /api/fortune/generate
- * Body: { apiKey: string; category?: string }
- * 返回 AI 生成的幸运饼干任务 content + category
+ * Body: { apiKey?: string; category?: string; mode?: 'ai' | 'offline'; difficulty?: 'easy' | 'medium' | 'hard' }
+ * category 缺省时随机选一个板块
+ * 返回幸运饼干任务 { id, content, category, date, status, source, ... }，已保存到任务历史（见 routes/fortune）
+ * 会避开近期给过的相似任务；多次尝试仍相似时 meta.similarToRecent 为 true
+ * mode 为 offline、没有可用的 API Key 或 AI 调用失败时从离线任务库抽取（difficulty 仅对离线任务生效），
+ * 此时 meta.source 为 offline，meta.fallbackReason 为 requested | no_api_key | ai_error，不计入 AI 用量
  */
-router.post('/fortune/generate', async (req, res: Response) => {
-  const { apiKey, category } = req.body as {
+router.post('/fortune/generate', ...aiGuard(fortuneQuotaTask, fortuneSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { apiKey: bodyApiKey, category, mode, difficulty } = req.body as {
     apiKey?: string;
-    category?: string;
+    category?: FortuneCategory;
+    mode?: 'ai' | 'offline';
+    difficulty?: FortuneDifficulty;
   };
 
-  if (!apiKey || typeof apiKey !== 'string') {
-    res
-      .status(400)
-      .json({ code: 400, message: '缺少 apiKey，请在前端填写 AI 助手密钥' });
+  const finalCategory = category ?? FORTUNE_CATEGORIES[Math.floor(Math.random() * FORTUNE_CATEGORIES.length)];
+  const { timezone } = getUserSettings(req.user!.id);
+
+  /** 从离线任务库抽取并写回响应；任务库中该板块没有可用条目时返回 false */
+  const serveOffline = (fallbackReason: 'requested' | 'no_api_key' | 'ai_error'): boolean => {
+    const picked = pickOfflineFortune(req.user!.id, finalCategory, timezone, difficulty);
+    if (!picked) return false;
+    res.locals.aiNoCharge = true;
+    res.json({
+      code: 0,
+      data: toFortuneTaskDto(picked.task),
+      meta: { source: 'offline', similarToRecent: picked.similarToRecent, fallbackReason },
+    });
+    return true;
+  };
+
+  if (mode === 'offline') {
+    if (!serveOffline('requested')) {
+      sendError(res, 404, '离线任务库中暂无该板块的任务');
+    }
     return;
   }
 
-  const finalCategory =
-    category && FORTUNE_CATEGORIES.includes(category)
-      ? category
-      : FORTUNE_CATEGORIES[Math.floor(Math.random() * FORTUNE_CATEGORIES.length)];
+  const llm = resolveLlmClient(req.user?.id, bodyApiKey);
+  if (!llm) {
+    if (!serveOffline('no_api_key')) {
+      sendError(res, 400, MISSING_API_KEY_MESSAGE, 'MISSING_API_KEY');
+    }
+    return;
+  }
 
   try {
-    const systemPrompt = FORTUNE_PROMPTS[finalCategory];
-    const userContent = `请为「${finalCategory}」板块生成一条今日小任务。`;
-
-    const content = await callDeepSeek(apiKey, systemPrompt, userContent);
+    const { task, similarToRecent } = await generateFortune(llm, req.user!.id, finalCategory, timezone);
 
     res.json({
       code: 0,
-      data: { content: content.trim(), category: finalCategory },
+      data: toFortuneTaskDto(task),
+      meta: { source: 'ai', similarToRecent },
     });
   } catch (error: any) {
-    console.error('调用 DeepSeek 幸运饼干生成失败:', error?.response?.data || error);
+    log.error('调用 AI 幸运饼干生成失败', errorFields(error));
+    if (serveOffline('ai_error')) return;
     const msg =
       error?.response?.data?.error?.message ||
       error?.message ||
       'AI 生成失败';
-    res.status(502).json({ code: 502, message: msg });
+    sendError(res, 502, msg);
   }
-});
+}));
 
 export default router;
 
@@ -0,0 +1,92 @@
+// AI 密钥托管：登录用户把 DeepSeek 等 provider 的 API Key 交给服务端加密保存，之后 AI 接口无需再从前端传 apiKey
+import { Router, Response } from 'express';
+import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { sendError } from '../middleware/errors';
+import { validate, FieldSchema, RequestSchema } from '../middleware/validate';
+import { setUserApiKey, deleteUserApiKey } from '../db';
+import {
+  encryptSecret,
+  isVaultConfigured,
+  maskSecret,
+  getApiKeyStatus,
+  toApiKeyStatus,
+} from '../services/vault';
+import { getLlmProvider } from '../services/llm';
+
+const router = Router();
+
+const PROVIDER: FieldSchema = { type: 'string', maxLength: 32, optional: true };
+
+const providerQuerySchema: RequestSchema = { query: { provider: PROVIDER } };
+const saveKeySchema: RequestSchema = {
+  body: { apiKey: { type: 'string', minLength: 1, maxLength: 512 }, provider: PROVIDER },
+};
+
+/** provider 缺省为 deepseek；只接受需要密钥的 provider */
+function parseProvider(raw: unknown): string | null {
+  if (raw === undefined || raw === '') return 'deepseek';
+  if (typeof raw !== 'string') return null;
+  const provider = getLlmProvider(raw);
+  return provider && provider.requiresApiKey ? provider.name : null;
+}
+
+/**
+ * GET /api/ai-key?provider=deepseek
+ * 返回密钥状态（仅掩码，不返回明文）
+ */
+router.get('/', authMiddleware, validate(providerQuerySchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const provider = parseProvider(req.query.provider);
+  if (!provider) {
+    sendError(res, 400, '不支持的 provider');
+    return;
+  }
+  res.json({ code: 0, data: { provider, aiKey: getApiKeyStatus(req.user.id, provider) } });
+});
+
+/**
+ * PUT /api/ai-key
+ * Body: { apiKey: string; provider?: string }
+ * 保存或轮换密钥
+ */
+router.put('/', authMiddleware, validate(saveKeySchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const { apiKey, provider: rawProvider } = req.body as { apiKey: string; provider?: string };
+  const provider = parseProvider(rawProvider);
+  if (!provider) {
+    sendError(res, 400, '不支持的 provider');
+    return;
+  }
+  if (!isVaultConfigured()) {
+    sendError(res, 500, '服务端未配置密钥加密，暂不支持托管', 'NOT_CONFIGURED');
+    return;
+  }
+  const plain = apiKey.trim();
+  const row = setUserApiKey(req.user.id, encryptSecret(plain), maskSecret(plain), provider);
+  res.json({ code: 0, message: '密钥已保存', data: { provider, aiKey: toApiKeyStatus(row) } });
+});
+
+/**
+ * DELETE /api/ai-key?provider=deepseek
+ */
+router.delete('/', authMiddleware, validate(providerQuerySchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const provider = parseProvider(req.query.provider);
+  if (!provider) {
+    sendError(res, 400, '不支持的 provider');
+    return;
+  }
+  deleteUserApiKey(req.user.id, provider);
+  res.json({ code: 0, message: '密钥已删除', data: { provider, aiKey: toApiKeyStatus(undefined) } });
+});
+
+export default router;
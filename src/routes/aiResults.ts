@@ -0,0 +1,177 @@
+// 已保存的 AI 结果：查看历史日记/分析、重新生成与删除（生成见 routes/ai 的 /api/analysis/*）
+import { Router, Response } from 'express';
+import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { aiGuard } from '../middleware/aiLimit';
+import { sendError, asyncHandler } from '../middleware/errors';
+import {
+  validate,
+  validatedQuery,
+  optional,
+  pageLimit,
+  DATE,
+  ID,
+  API_KEY,
+  RequestSchema,
+} from '../middleware/validate';
+import {
+  listAiResults,
+  getAiResult,
+  updateAiResultContent,
+  deleteAiResult,
+  AiResultRow,
+} from '../db';
+import { resolveLlmClient, callLlm } from '../services/llm';
+import { AnalysisKind, ANALYSIS_KINDS, processModelOutput } from '../services/analysis';
+import { createLogger, errorFields } from '../services/logger';
+
+const router = Router();
+const log = createLogger('ai-results');
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const listSchema: RequestSchema = {
+  query: {
+    kind: { type: 'string', enum: ANALYSIS_KINDS, optional: true },
+    date: optional(DATE),
+    from: optional(DATE),
+    to: optional(DATE),
+    cursor: optional(ID),
+    limit: pageLimit(MAX_PAGE_SIZE),
+  },
+};
+const resultIdSchema: RequestSchema = { params: { id: ID } };
+const regenerateSchema: RequestSchema = { params: { id: ID }, body: { apiKey: API_KEY } };
+
+function toAiResultDto(row: AiResultRow, withResult: boolean) {
+  return {
+    id: row.id,
+    kind: row.kind,
+    date: row.date,
+    range: row.range_from || row.range_to ? { from: row.range_from, to: row.range_to } : null,
+    promptVersion: row.prompt_version,
+    defaultedFields: row.defaulted_fields ? (JSON.parse(row.defaulted_fields) as string[]) : [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    ...(withResult ? { result: JSON.parse(row.result) as unknown } : {}),
+  };
+}
+
+/** 重新生成按原结果的类型计配额 */
+function resultKindOf(req: AuthRequest): AnalysisKind | undefined {
+  const row = req.user ? getAiResult(req.user.id, Number(req.params.id)) : undefined;
+  return row ? (row.kind as AnalysisKind) : undefined;
+}
+
+/**
+ * GET /api/ai-results
+ * Query: { kind?; date?: YYYY-MM-DD; from?; to?; cursor?: number; limit?: number }
+ * 结果列表（不含正文），id 倒序；nextCursor 为 null 表示没有更多
+ */
+router.get('/', authMiddleware, validate(listSchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const { kind, date, from, to, cursor, limit } = validatedQuery<{
+    kind?: AnalysisKind;
+    date?: string;
+    from?: string;
+    to?: string;
+    cursor?: number;
+    limit?: number;
+  }>(req);
+  const { rows, hasMore } = listAiResults(req.user.id, {
+    kind,
+    date,
+    from,
+    to,
+    beforeId: cursor,
+    limit: limit ?? DEFAULT_PAGE_SIZE,
+  });
+  res.json({
+    code: 0,
+    data: {
+      items: rows.map((r) => toAiResultDto(r, false)),
+      nextCursor: hasMore ? String(rows[rows.length - 1].id) : null,
+    },
+  });
+});
+
+/**
+ * GET /api/ai-results/:id
+ * 单条结果（含正文，结构与生成接口返回的 data 相同）
+ */
+router.get('/:id', authMiddleware, validate(resultIdSchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const row = getAiResult(req.user.id, Number(req.params.id));
+  if (!row) {
+    sendError(res, 404, '结果不存在');
+    return;
+  }
+  res.json({ code: 0, data: toAiResultDto(row, true) });
+});
+
+/**
+ * POST /api/ai-results/:id/regenerate
+ * Body: { apiKey?: string }
+ * 用当时的输入重新调用大模型，并覆盖该条结果
+ */
+router.post('/:id/regenerate', ...aiGuard(resultKindOf, regenerateSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const row = getAiResult(req.user.id, Number(req.params.id));
+  if (!row) {
+    sendError(res, 404, '结果不存在');
+    return;
+  }
+  const llm = resolveLlmClient(req.user.id, (req.body as { apiKey?: string }).apiKey);
+  if (!llm) {
+    sendError(res, 400, '缺少 apiKey，请在前端填写 AI 助手密钥或在服务端托管密钥', 'MISSING_API_KEY');
+    return;
+  }
+
+  const kind = row.kind as AnalysisKind;
+  const { systemPrompt, userContent } = JSON.parse(row.request) as { systemPrompt: string; userContent: string };
+  try {
+    const raw = await callLlm(llm, kind, systemPrompt, userContent);
+    const output = await processModelOutput(llm, kind, raw, userContent);
+    if (output.safety) {
+      // 输出命中风险规则：保留原结果，不覆盖
+      res.json({ code: 0, data: null, safety: output.safety });
+      return;
+    }
+    const defaulted = output.defaultedFields.length ? JSON.stringify(output.defaultedFields) : null;
+    const updated = updateAiResultContent(req.user.id, row.id, JSON.stringify(output.data), defaulted)!;
+    res.json({ code: 0, message: '已重新生成', data: toAiResultDto(updated, true) });
+  } catch (error: any) {
+    log.error('调用 AI 重新生成失败', errorFields(error));
+    const msg =
+      error?.response?.data?.error?.message ||
+      error?.message ||
+      'AI 重新生成失败';
+    sendError(res, 502, msg);
+  }
+}));
+
+/**
+ * DELETE /api/ai-results/:id
+ */
+router.delete('/:id', authMiddleware, validate(resultIdSchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  if (!deleteAiResult(req.user.id, Number(req.params.id))) {
+    sendError(res, 404, '结果不存在');
+    return;
+  }
+  res.json({ code: 0, message: '已删除' });
+});
+
+export default router;
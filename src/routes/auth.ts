@@ -1,13 +1,41 @@
 // 登录/注册：使用微信 code 换取 openid，自动注册或登录；可选绑定手机号（与 README 用户注册方案一致）
 import { Router, Response } from 'express';
-import jwt, { SignOptions, Secret } from 'jsonwebtoken';
 import { config } from '../config';
-import { findUserByWxOpenId, createUser, getUserById, updateUserPhone, UserRow } from '../db';
+import {
+  findUserByWxOpenId,
+  createUser,
+  getUserById,
+  updateUserPhone,
+  expireVipIfNeeded,
+  listActiveAuthSessions,
+  revokeAuthSession,
+  revokeAllAuthSessions,
+  UserRow,
+} from '../db';
 import { code2Session, getPhoneNumber } from '../services/wechat';
+import { getApiKeyStatus } from '../services/vault';
+import { issueSession, refreshSession, toSessionDto } from '../services/session';
+import { parseSettings } from '../services/settings';
 import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { sendError, asyncHandler } from '../middleware/errors';
+import { validate, FieldSchema, RequestSchema } from '../middleware/validate';
 
 const router = Router();
 
+const DEVICE_FIELD: FieldSchema = { type: 'string', maxLength: 128, optional: true };
+
+const loginSchema: RequestSchema = {
+  body: {
+    code: { type: 'string', minLength: 1, maxLength: 128 },
+    deviceName: DEVICE_FIELD,
+    platform: DEVICE_FIELD,
+  },
+};
+const refreshSchema: RequestSchema = { body: { refreshToken: { type: 'string', minLength: 1, maxLength: 512 } } };
+const logoutSchema: RequestSchema = { body: { all: { type: 'boolean', optional: true } } };
+const sessionIdSchema: RequestSchema = { params: { id: { type: 'string', maxLength: 64 } } };
+const phoneSchema: RequestSchema = { body: { code: { type: 'string', minLength: 1, maxLength: 128 } } };
+
 // 统一返回给前端的用户信息（不含敏感字段）
 function toUserDto(row: UserRow) {
   return {
@@ -15,64 +43,154 @@ function toUserDto(row: UserRow) {
     wxOpenId: row.wx_open_id,
     phone: row.phone ?? undefined,
     vipLevel: row.vip_level as 'free' | 'vip',
-    settings: row.settings ? JSON.parse(row.settings) : {},
+    vipExpiresAt: row.vip_expires_at ?? undefined,
+    // 处于注销冷静期时为计划删除时间
+    deletionScheduledAt: row.deletion_scheduled_at ?? undefined,
+    settings: parseSettings(row.settings),
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
 }
 
+/** 设备信息只保留较短的字符串，避免客户端写入超长内容 */
+function pickDeviceField(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, 64) : undefined;
+}
+
 /**
  * POST /api/auth/login
- * Body: { code: string }  —— 小程序 wx.login() 得到的 code
- * 后端用 code 换 openid，若用户不存在则自动注册，返回 token 与用户信息
+ * Body: { code: string; deviceName?: string; platform?: string }  —— code 为小程序 wx.login() 得到的 code
+ * 后端用 code 换 openid，若用户不存在则自动注册；每次登录为当前设备创建一个会话
+ * 返回 token（短期 access token）、refreshToken 与用户信息
  */
-router.post('/login', async (req: AuthRequest, res: Response) => {
-  const { code } = req.body as { code?: string };
-  if (!code || typeof code !== 'string') {
-    res.status(400).json({ code: 400, message: '请提供微信登录 code' });
-    return;
-  }
+router.post('/login', validate(loginSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { code, deviceName, platform } = req.body as { code: string; deviceName?: string; platform?: string };
   if (!config.jwt.secret) {
-    res.status(500).json({ code: 500, message: '服务端未配置 JWT' });
+    sendError(res, 500, '服务端未配置 JWT', 'NOT_CONFIGURED');
     return;
   }
   try {
     const { openid } = await code2Session(code);
     let user = findUserByWxOpenId(openid);
-    if (!user) {
-      user = createUser(openid);
+    user = user ? expireVipIfNeeded(user) : createUser(openid);
+    if (user.disabled_at) {
+      sendError(res, 403, '账号已被停用', 'ACCOUNT_DISABLED');
+      return;
     }
-    const token = jwt.sign(
-      { userId: user.id, wxOpenId: user.wx_open_id },
-      config.jwt.secret as Secret,
-      { expiresIn: config.jwt.expiresIn } as SignOptions
-    );
+    const tokens = issueSession(user, {
+      deviceName: pickDeviceField(deviceName),
+      platform: pickDeviceField(platform),
+      userAgent: req.get('user-agent')?.slice(0, 256),
+      ip: req.ip,
+    });
     res.json({
       code: 0,
       message: '登录成功',
       data: {
-        token,
+        ...tokens,
         user: toUserDto(user),
       },
     });
   } catch (e) {
     const message = e instanceof Error ? e.message : '登录失败';
-    res.status(401).json({ code: 401, message });
+    sendError(res, 401, message);
+  }
+}));
+
+/**
+ * POST /api/auth/refresh
+ * Body: { refreshToken: string }
+ * 换取新的 token 与 refreshToken（旧 refreshToken 随即失效）
+ * 已用过的 refreshToken 再次出现视为泄露，撤销该设备会话，需重新登录
+ */
+router.post('/refresh', validate(refreshSchema), (req: AuthRequest, res: Response) => {
+  const { refreshToken } = req.body as { refreshToken: string };
+  if (!config.jwt.secret) {
+    sendError(res, 500, '服务端未配置 JWT', 'NOT_CONFIGURED');
+    return;
+  }
+  const outcome = refreshSession(refreshToken, {
+    userAgent: req.get('user-agent')?.slice(0, 256),
+    ip: req.ip,
+  });
+  if (!outcome.ok) {
+    sendError(
+      res,
+      401,
+      outcome.reason === 'reused' ? 'refreshToken 已被使用，该设备登录已失效，请重新登录' : 'refreshToken 无效或已过期'
+    );
+    return;
+  }
+  // 停用账号时已撤销全部会话，正常不会走到这里，仅作兜底
+  if (outcome.user.disabled_at) {
+    sendError(res, 403, '账号已被停用', 'ACCOUNT_DISABLED');
+    return;
   }
+  res.json({ code: 0, data: { ...outcome.tokens, user: toUserDto(expireVipIfNeeded(outcome.user)) } });
+});
+
+/**
+ * POST /api/auth/logout
+ * Body: { all?: boolean }
+ * 退出当前设备；all 为 true 时退出全部设备
+ */
+router.post('/logout', authMiddleware, validate(logoutSchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const { all } = req.body as { all?: boolean };
+  if (all === true) {
+    const count = revokeAllAuthSessions(req.user.id, 'logout');
+    res.json({ code: 0, message: '已退出全部设备', data: { revoked: count } });
+    return;
+  }
+  if (req.user.sessionId) revokeAuthSession(req.user.id, req.user.sessionId, 'logout');
+  res.json({ code: 0, message: '已退出登录' });
+});
+
+/**
+ * GET /api/auth/sessions
+ * 我的设备：当前有效的登录会话，current 标记本设备
+ */
+router.get('/sessions', authMiddleware, (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const sessionId = req.user.sessionId;
+  const items = listActiveAuthSessions(req.user.id).map((s) => toSessionDto(s, sessionId));
+  res.json({ code: 0, data: { items } });
+});
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * 下线指定设备
+ */
+router.delete('/sessions/:id', authMiddleware, validate(sessionIdSchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  if (!revokeAuthSession(req.user.id, req.params.id, 'revoked')) {
+    sendError(res, 404, '会话不存在或已下线');
+    return;
+  }
+  res.json({ code: 0, message: '已下线该设备' });
 });
 
 /**
  * GET /api/auth/me
  * Header: Authorization: Bearer <token>
- * 返回当前登录用户信息
+ * 返回当前登录用户信息；aiKey 为托管密钥状态（仅掩码）
  */
 router.get('/me', authMiddleware, (req: AuthRequest, res: Response) => {
   const user = req.user && getUserById(req.user.id);
   if (!user) {
-    res.status(401).json({ code: 401, message: '用户不存在' });
+    sendError(res, 401, '用户不存在');
     return;
   }
-  res.json({ code: 0, data: { user: toUserDto(user) } });
+  res.json({ code: 0, data: { user: toUserDto(user), aiKey: getApiKeyStatus(user.id) } });
 });
 
 /**
@@ -81,14 +199,10 @@ router.get('/me', authMiddleware, (req: AuthRequest, res: Response) => {
  * Body: { code: string }  —— 小程序 getPhoneNumber 返回的 code（需企业认证）
  * 绑定/更新当前用户手机号
  */
-router.post('/phone', authMiddleware, async (req: AuthRequest, res: Response) => {
-  const { code } = req.body as { code?: string };
-  if (!code || typeof code !== 'string') {
-    res.status(400).json({ code: 400, message: '请提供手机号授权 code' });
-    return;
-  }
+router.post('/phone', authMiddleware, validate(phoneSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { code } = req.body as { code: string };
   if (!req.user) {
-    res.status(401).json({ code: 401, message: '未登录' });
+    sendError(res, 401, '未登录');
     return;
   }
   try {
@@ -98,8 +212,8 @@ router.post('/phone', authMiddleware, async (req: AuthRequest, res: Response) =>
     res.json({ code: 0, message: '手机号已更新', data: { user: toUserDto(user) } });
   } catch (e) {
     const message = e instanceof Error ? e.message : '绑定手机号失败';
-    res.status(400).json({ code: 400, message });
+    sendError(res, 400, message);
   }
-});
+}));
 
 export default router;
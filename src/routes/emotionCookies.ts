@@ -1,36 +1,80 @@
 // 情绪饼干云端接口：仅对 VIP 开放，普通用户继续使用本地存储
 import { Router, Response } from 'express';
 import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { sendError } from '../middleware/errors';
+import { validate, validatedQuery, optional, pageLimit, DATE, ENTRIES, RequestSchema } from '../middleware/validate';
 import {
   upsertEmotionDay,
   listEmotionDaysWithinMonths,
+  listEmotionDaysInRange,
+  getEmotionDay,
+  softDeleteEmotionDay,
+  listDeletedEmotionDays,
+  restoreEmotionDay,
   getUserById,
+  EmotionDayRow,
+  UserRow,
 } from '../db';
+import { isVipActive } from '../services/vip';
 
 const router = Router();
 
-// 保存某一天的情绪饼干（VIP 云端存储）
-router.post('/', authMiddleware, (req: AuthRequest, res: Response) => {
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+const MAX_ANALYSIS_LENGTH = 20000;
+
+const saveDaySchema: RequestSchema = {
+  body: {
+    date: DATE,
+    entries: optional(ENTRIES),
+    analysis: { type: 'string', maxLength: MAX_ANALYSIS_LENGTH, optional: true, nullable: true },
+  },
+  bodyLimit: '256kb',
+};
+const listDaysSchema: RequestSchema = {
+  query: { from: optional(DATE), to: optional(DATE), cursor: optional(DATE), limit: pageLimit(MAX_PAGE_SIZE) },
+};
+const dateParamSchema: RequestSchema = { params: { date: DATE } };
+
+/** 取当前 VIP 用户；不满足时直接写回错误响应并返回 undefined */
+function requireVipUser(req: AuthRequest, res: Response): UserRow | undefined {
   const user = req.user && getUserById(req.user.id);
   if (!user) {
-    res.status(401).json({ code: 401, message: '未登录' });
-    return;
+    sendError(res, 401, '未登录');
+    return undefined;
   }
-  if (user.vip_level !== 'vip') {
-    res.status(403).json({ code: 403, message: '仅 VIP 用户可使用云端存储' });
-    return;
+  if (!isVipActive(user)) {
+    sendError(res, 403, '仅 VIP 用户可使用云端存储（会员已过期请续费）', 'VIP_REQUIRED');
+    return undefined;
   }
+  return user;
+}
 
-  const { date, entries, analysis } = req.body as {
-    date?: string;
+function toEmotionDayDto(r: EmotionDayRow) {
+  const parsed = JSON.parse(r.data || '{}') as {
     entries?: unknown;
     analysis?: string;
   };
+  return {
+    id: r.id,
+    date: r.date,
+    entries: parsed.entries ?? [],
+    analysis: parsed.analysis,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  };
+}
 
-  if (!date || typeof date !== 'string') {
-    res.status(400).json({ code: 400, message: '请提供日期 date' });
-    return;
-  }
+// 保存某一天的情绪饼干（VIP 云端存储）
+router.post('/', authMiddleware, validate(saveDaySchema), (req: AuthRequest, res: Response) => {
+  const user = requireVipUser(req, res);
+  if (!user) return;
+
+  const { date, entries, analysis } = req.body as {
+    date: string;
+    entries?: unknown[];
+    analysis?: string | null;
+  };
 
   const dataJson = JSON.stringify({ entries, analysis });
   const row = upsertEmotionDay(user.id, date, dataJson);
@@ -45,41 +89,117 @@ router.post('/', authMiddleware, (req: AuthRequest, res: Response) => {
   });
 });
 
-// 获取最近半年的情绪饼干（VIP 云端读取，“半年可见”）
-router.get('/', authMiddleware, (req: AuthRequest, res: Response) => {
-  const user = req.user && getUserById(req.user.id);
-  if (!user) {
-    res.status(401).json({ code: 401, message: '未登录' });
-    return;
-  }
-  if (user.vip_level !== 'vip') {
-    res.status(403).json({ code: 403, message: '仅 VIP 用户可使用云端存储' });
+/**
+ * GET /api/emotion-cookies
+ * 不带参数：返回最近半年的情绪饼干（VIP 云端读取，“半年可见”）
+ * Query: { from?: YYYY-MM-DD; to?: YYYY-MM-DD; cursor?: string; limit?: number }
+ * 带任一参数时按日期区间分页（date 倒序），返回 nextCursor，为 null 表示没有更多
+ */
+router.get('/', authMiddleware, validate(listDaysSchema), (req: AuthRequest, res: Response) => {
+  const user = requireVipUser(req, res);
+  if (!user) return;
+
+  const { from, to, cursor, limit } = validatedQuery<{
+    from?: string;
+    to?: string;
+    cursor?: string;
+    limit?: number;
+  }>(req);
+
+  if (from === undefined && to === undefined && cursor === undefined && limit === undefined) {
+    const items = listEmotionDaysWithinMonths(user.id, 6).map(toEmotionDayDto);
+    res.json({
+      code: 0,
+      data: {
+        items,
+      },
+    });
     return;
   }
 
-  const rows = listEmotionDaysWithinMonths(user.id, 6);
-  const items = rows.map((r) => {
-    const parsed = JSON.parse(r.data || '{}') as {
-      entries?: unknown;
-      analysis?: string;
-    };
-    return {
-      id: r.id,
-      date: r.date,
-      entries: parsed.entries ?? [],
-      analysis: parsed.analysis,
-      createdAt: r.created_at,
-      updatedAt: r.updated_at,
-    };
+  const { rows, hasMore } = listEmotionDaysInRange(user.id, {
+    from,
+    to,
+    before: cursor,
+    limit: limit ?? DEFAULT_PAGE_SIZE,
   });
-
   res.json({
     code: 0,
     data: {
-      items,
+      items: rows.map(toEmotionDayDto),
+      nextCursor: hasMore ? rows[rows.length - 1].date : null,
     },
   });
 });
 
-export default router;
+/**
+ * GET /api/emotion-cookies/trash
+ * 回收站：已删除的日期列表（不含正文，恢复后再读取）
+ */
+router.get('/trash', authMiddleware, (req: AuthRequest, res: Response) => {
+  const user = requireVipUser(req, res);
+  if (!user) return;
 
+  const items = listDeletedEmotionDays(user.id).map((r) => ({
+    id: r.id,
+    date: r.date,
+    deletedAt: r.updated_at,
+  }));
+  res.json({ code: 0, data: { items } });
+});
+
+/**
+ * GET /api/emotion-cookies/:date
+ * 获取某一天的情绪饼干
+ */
+router.get('/:date', authMiddleware, validate(dateParamSchema), (req: AuthRequest, res: Response) => {
+  const user = requireVipUser(req, res);
+  if (!user) return;
+
+  const { date } = req.params;
+  const row = getEmotionDay(user.id, date);
+  if (!row) {
+    sendError(res, 404, '该日期没有云端记录');
+    return;
+  }
+  res.json({ code: 0, data: { item: toEmotionDayDto(row) } });
+});
+
+/**
+ * DELETE /api/emotion-cookies/:date
+ * 软删除某一天，可在回收站恢复
+ */
+router.delete('/:date', authMiddleware, validate(dateParamSchema), (req: AuthRequest, res: Response) => {
+  const user = requireVipUser(req, res);
+  if (!user) return;
+
+  const { date } = req.params;
+  if (!softDeleteEmotionDay(user.id, date)) {
+    sendError(res, 404, '该日期没有云端记录');
+    return;
+  }
+  res.json({ code: 0, message: '已移入回收站' });
+});
+
+/**
+ * POST /api/emotion-cookies/:date/restore
+ * 从回收站恢复某一天；该日期已有新记录时返回 409
+ */
+router.post('/:date/restore', authMiddleware, validate(dateParamSchema), (req: AuthRequest, res: Response) => {
+  const user = requireVipUser(req, res);
+  if (!user) return;
+
+  const { date } = req.params;
+  const result = restoreEmotionDay(user.id, date);
+  if (result === 'conflict') {
+    sendError(res, 409, '该日期已有新的记录，无法恢复');
+    return;
+  }
+  if (!result) {
+    sendError(res, 404, '回收站中没有该日期的记录');
+    return;
+  }
+  res.json({ code: 0, message: '已恢复', data: { item: toEmotionDayDto(result) } });
+});
+
+export default router;
@@ -0,0 +1,108 @@
+// 幸运饼干任务历史：查看生成过的任务，接受 / 完成 / 跳过，以及按板块的完成统计（生成见 routes/ai 的 /api/fortune/generate）
+import { Router, Response } from 'express';
+import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { sendError } from '../middleware/errors';
+import { validate, validatedQuery, optional, pageLimit, DATE, ID, RequestSchema } from '../middleware/validate';
+import { listFortuneTasks, updateFortuneTaskStatus, FortuneTaskStatus } from '../db';
+import { FORTUNE_CATEGORIES, FortuneCategory } from '../services/prompts';
+import { getFortuneStats, toFortuneTaskDto } from '../services/fortune';
+
+const router = Router();
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const STATUSES: FortuneTaskStatus[] = ['pending', 'accepted', 'completed', 'skipped'];
+
+const historySchema: RequestSchema = {
+  query: {
+    category: { type: 'string', enum: FORTUNE_CATEGORIES, optional: true },
+    status: { type: 'string', enum: STATUSES, optional: true },
+    from: optional(DATE),
+    to: optional(DATE),
+    cursor: optional(ID),
+    limit: pageLimit(MAX_PAGE_SIZE),
+  },
+};
+const statsSchema: RequestSchema = { query: { from: optional(DATE), to: optional(DATE) } };
+const taskIdSchema: RequestSchema = { params: { id: ID } };
+
+/**
+ * GET /api/fortune/history
+ * Query: { category?; status?; from?: YYYY-MM-DD; to?; cursor?: number; limit?: number }
+ * 任务列表，id 倒序；nextCursor 为 null 表示没有更多
+ */
+router.get('/history', authMiddleware, validate(historySchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const { category, status, from, to, cursor, limit } = validatedQuery<{
+    category?: FortuneCategory;
+    status?: FortuneTaskStatus;
+    from?: string;
+    to?: string;
+    cursor?: number;
+    limit?: number;
+  }>(req);
+  const { rows, hasMore } = listFortuneTasks(req.user.id, {
+    category,
+    status,
+    from,
+    to,
+    beforeId: cursor,
+    limit: limit ?? DEFAULT_PAGE_SIZE,
+  });
+  res.json({
+    code: 0,
+    data: {
+      items: rows.map(toFortuneTaskDto),
+      nextCursor: hasMore ? String(rows[rows.length - 1].id) : null,
+    },
+  });
+});
+
+/**
+ * GET /api/fortune/stats
+ * Query: { from?: YYYY-MM-DD; to?: YYYY-MM-DD }（按任务生成日期）
+ * 按板块统计生成、接受、完成、跳过的数量与完成率；板块 id 与丰容板块 enrichment_data 一致，可直接合入丰容统计
+ */
+router.get('/stats', authMiddleware, validate(statsSchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const { from, to } = req.query as { from?: string; to?: string };
+  res.json({ code: 0, data: { items: getFortuneStats(req.user.id, from, to) } });
+});
+
+// 状态流转：pending → accepted；pending / accepted → completed 或 skipped；完成与跳过后不可再改
+const TRANSITIONS: Array<{ action: string; from: FortuneTaskStatus[]; to: FortuneTaskStatus; message: string }> = [
+  { action: 'accept', from: ['pending'], to: 'accepted', message: '已接受' },
+  { action: 'complete', from: ['pending', 'accepted'], to: 'completed', message: '已完成' },
+  { action: 'skip', from: ['pending', 'accepted'], to: 'skipped', message: '已跳过' },
+];
+
+/**
+ * POST /api/fortune/:id/accept | /complete | /skip
+ * 当前状态不允许该操作时返回 409
+ */
+for (const { action, from, to, message } of TRANSITIONS) {
+  router.post(`/:id/${action}`, authMiddleware, validate(taskIdSchema), (req: AuthRequest, res: Response) => {
+    if (!req.user) {
+      sendError(res, 401, '未登录');
+      return;
+    }
+    const result = updateFortuneTaskStatus(req.user.id, Number(req.params.id), from, to);
+    if (result === 'conflict') {
+      sendError(res, 409, '任务当前状态不允许该操作');
+      return;
+    }
+    if (!result) {
+      sendError(res, 404, '任务不存在');
+      return;
+    }
+    res.json({ code: 0, message, data: { item: toFortuneTaskDto(result) } });
+  });
+}
+
+export default router;
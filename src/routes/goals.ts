@@ -0,0 +1,223 @@
+// 目标接口：服务端维护 cookie_goals，支持逐步勾选与糖果奖励，避免每次勾选都重传整份快照
+import { Router, Response } from 'express';
+import crypto from 'crypto';
+import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { sendError } from '../middleware/errors';
+import { validate, ID, FieldSchema, RequestSchema } from '../middleware/validate';
+import {
+  listGoals,
+  getGoal,
+  createGoal,
+  updateGoal,
+  deleteGoal,
+  setGoalStepDone,
+  GoalRow,
+  GoalStep,
+} from '../db';
+
+const router = Router();
+
+const MAX_TITLE_LENGTH = 100;
+const MAX_STEPS = 50;
+const MAX_STEP_TEXT_LENGTH = 200;
+// 步骤 id 出现在 PATCH /:id/steps/:stepId 路径中，保存与勾选用同一约束
+const STEP_ID_RE = /^[\w-]{1,32}$/;
+
+// 步骤既可以是字符串（如 /api/goals/split 的结果）也可以是 { id?, text } 对象，其余字段忽略
+// 不符合 STEP_ID_RE 的 id 由 normalizeSteps 换成新 id，这里只拦截明显异常的值
+const STEP: FieldSchema = {
+  type: 'oneOf',
+  variants: [
+    { type: 'string', maxLength: MAX_STEP_TEXT_LENGTH },
+    {
+      type: 'object',
+      properties: {
+        id: { type: 'string', maxLength: 64, optional: true, nullable: true },
+        text: { type: 'string', minLength: 1, maxLength: MAX_STEP_TEXT_LENGTH },
+      },
+    },
+  ],
+};
+const STEPS: FieldSchema = { type: 'array', items: STEP, maxItems: MAX_STEPS, optional: true };
+
+const listSchema: RequestSchema = { query: { completed: { type: 'string', enum: ['0', '1'], optional: true } } };
+const goalIdSchema: RequestSchema = { params: { id: ID } };
+const createSchema: RequestSchema = {
+  body: { title: { type: 'string', minLength: 1, maxLength: MAX_TITLE_LENGTH }, steps: STEPS },
+};
+const updateSchema: RequestSchema = {
+  params: { id: ID },
+  body: { title: { type: 'string', minLength: 1, maxLength: MAX_TITLE_LENGTH, optional: true }, steps: STEPS },
+};
+const stepSchema: RequestSchema = {
+  params: { id: ID, stepId: { type: 'string', pattern: STEP_ID_RE, format: '1～32 位字母、数字、_ 或 -' } },
+  body: { done: { type: 'boolean' } },
+};
+
+function toGoalDto(row: GoalRow) {
+  return {
+    id: row.id,
+    title: row.title,
+    steps: JSON.parse(row.steps || '[]') as GoalStep[],
+    candyCount: row.candy_count,
+    isCompleted: row.is_completed === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function newStepId(): string {
+  return crypto.randomBytes(6).toString('hex');
+}
+
+/**
+ * 规范化前端传来的步骤：既接受 string[]（如 /api/goals/split 的结果），也接受 GoalStep[]
+ * 逐项结构与长度已由 STEPS 校验；忽略传入的 done / doneAt，完成状态只能经 PATCH /:id/steps/:stepId 修改
+ * 返回 null 表示格式不合法
+ */
+function normalizeSteps(input: unknown): GoalStep[] | null {
+  if (!Array.isArray(input)) return null;
+  const steps: GoalStep[] = [];
+  const ids = new Set<string>();
+  for (const item of input) {
+    if (typeof item === 'string') {
+      if (!item.trim()) continue;
+      steps.push({ id: newStepId(), text: item.trim(), done: false, doneAt: null });
+      continue;
+    }
+    if (!item || typeof item !== 'object') return null;
+    const s = item as Partial<GoalStep>;
+    if (typeof s.text !== 'string' || !s.text.trim()) return null;
+    // 不合规或重复的 id 换成新 id：前者无法经路径勾选，后者会让同一步骤被计两次
+    const id = typeof s.id === 'string' && STEP_ID_RE.test(s.id) && !ids.has(s.id) ? s.id : newStepId();
+    ids.add(id);
+    steps.push({
+      id,
+      text: s.text.trim(),
+      done: false,
+      doneAt: null,
+    });
+  }
+  return steps;
+}
+
+/**
+ * GET /api/goals?completed=0|1
+ * 返回当前用户的目标列表（默认全部）
+ */
+router.get('/', authMiddleware, validate(listSchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const { completed } = req.query as { completed?: string };
+  const filter = completed === '1' ? true : completed === '0' ? false : undefined;
+  const items = listGoals(req.user.id, filter).map(toGoalDto);
+  res.json({ code: 0, data: { items } });
+});
+
+/**
+ * GET /api/goals/:id
+ */
+router.get('/:id', authMiddleware, validate(goalIdSchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const row = getGoal(req.user.id, Number(req.params.id));
+  if (!row) {
+    sendError(res, 404, '目标不存在');
+    return;
+  }
+  res.json({ code: 0, data: { goal: toGoalDto(row) } });
+});
+
+/**
+ * POST /api/goals
+ * Body: { title: string; steps?: string[] | GoalStep[] }
+ */
+router.post('/', authMiddleware, validate(createSchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const { title, steps } = req.body as { title: string; steps?: unknown[] };
+  const normalized = steps === undefined ? [] : normalizeSteps(steps);
+  if (!normalized) {
+    sendError(res, 400, 'steps 格式不正确');
+    return;
+  }
+  const row = createGoal(req.user.id, title.trim(), normalized);
+  res.json({ code: 0, message: '目标已创建', data: { goal: toGoalDto(row) } });
+});
+
+/**
+ * PATCH /api/goals/:id
+ * Body: { title?: string; steps?: string[] | GoalStep[] }
+ * steps 传入时整体替换；已有步骤（按 id）保留完成状态，新步骤为未完成
+ */
+router.patch('/:id', authMiddleware, validate(updateSchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const { title, steps } = req.body as { title?: string; steps?: unknown[] };
+  const normalized = steps === undefined ? undefined : normalizeSteps(steps);
+  if (normalized === null) {
+    sendError(res, 400, 'steps 格式不正确');
+    return;
+  }
+  const row = updateGoal(req.user.id, Number(req.params.id), {
+    title: title?.trim(),
+    steps: normalized,
+  });
+  if (!row) {
+    sendError(res, 404, '目标不存在');
+    return;
+  }
+  res.json({ code: 0, message: '目标已更新', data: { goal: toGoalDto(row) } });
+});
+
+/**
+ * DELETE /api/goals/:id
+ */
+router.delete('/:id', authMiddleware, validate(goalIdSchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  if (!deleteGoal(req.user.id, Number(req.params.id))) {
+    sendError(res, 404, '目标不存在');
+    return;
+  }
+  res.json({ code: 0, message: '目标已删除' });
+});
+
+/**
+ * PATCH /api/goals/:id/steps/:stepId
+ * Body: { done: boolean }
+ * 勾选一步奖励 1 颗糖果，取消勾选扣回；全部完成后目标自动标记为已完成
+ */
+router.patch('/:id/steps/:stepId', authMiddleware, validate(stepSchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const { done } = req.body as { done: boolean };
+  const result = setGoalStepDone(req.user.id, Number(req.params.id), req.params.stepId, done);
+  if (!result) {
+    sendError(res, 404, '目标不存在');
+    return;
+  }
+  if (!result.stepFound) {
+    sendError(res, 404, '步骤不存在');
+    return;
+  }
+  res.json({
+    code: 0,
+    message: result.changed ? (done ? '步骤已完成' : '已取消完成') : '步骤状态未变化',
+    data: { goal: toGoalDto(result.row) },
+  });
+});
+
+export default router;
@@ -0,0 +1,83 @@
+// 用户自定义提示词：对允许覆盖的模板（每日分析、日记、心理日记）保存自己的指令，生成时替代默认模板
+import { Router, Response } from 'express';
+import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { sendError } from '../middleware/errors';
+import { validate, FieldSchema, RequestSchema } from '../middleware/validate';
+import { listUserPromptOverrides, upsertUserPromptOverride, deleteUserPromptOverride } from '../db';
+import {
+  USER_OVERRIDABLE_KEYS,
+  PROMPT_TEMPLATES,
+  PromptKey,
+  USER_OVERRIDE_MAX_LENGTH,
+} from '../services/prompts';
+
+const router = Router();
+
+const KEY_PARAM: Record<string, FieldSchema> = { key: { type: 'string', maxLength: 64 } };
+
+const saveOverrideSchema: RequestSchema = {
+  params: KEY_PARAM,
+  body: { content: { type: 'string', minLength: 1, maxLength: USER_OVERRIDE_MAX_LENGTH } },
+};
+const overrideKeySchema: RequestSchema = { params: KEY_PARAM };
+
+function isOverridableKey(key: string): key is PromptKey {
+  return USER_OVERRIDABLE_KEYS.includes(key as PromptKey);
+}
+
+/**
+ * GET /api/prompts/overrides
+ * 可覆盖的模板及当前用户保存的内容；未保存时 content 为 null
+ */
+router.get('/overrides', authMiddleware, (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const saved = new Map(listUserPromptOverrides(req.user.id).map((r) => [r.template_key, r]));
+  const items = USER_OVERRIDABLE_KEYS.map((key) => ({
+    key,
+    description: PROMPT_TEMPLATES[key].description,
+    content: saved.get(key)?.content ?? null,
+    updatedAt: saved.get(key)?.updated_at ?? null,
+  }));
+  res.json({ code: 0, data: { items } });
+});
+
+/**
+ * PUT /api/prompts/overrides/:key
+ * Body: { content: string }
+ * 保存自定义指令；输出格式与安全要求由服务端追加，无需写在指令里
+ */
+router.put('/overrides/:key', authMiddleware, validate(saveOverrideSchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const { key } = req.params;
+  if (!isOverridableKey(key)) {
+    sendError(res, 404, `只能覆盖 ${USER_OVERRIDABLE_KEYS.join(' / ')}`);
+    return;
+  }
+  const { content } = req.body as { content: string };
+  const row = upsertUserPromptOverride(req.user.id, key, content.trim());
+  res.json({ code: 0, message: '已保存', data: { key, content: row.content, updatedAt: row.updated_at } });
+});
+
+/**
+ * DELETE /api/prompts/overrides/:key
+ * 删除自定义指令，恢复使用默认模板
+ */
+router.delete('/overrides/:key', authMiddleware, validate(overrideKeySchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  if (!deleteUserPromptOverride(req.user.id, req.params.key)) {
+    sendError(res, 404, '没有保存该模板的自定义指令');
+    return;
+  }
+  res.json({ code: 0, message: '已恢复默认' });
+});
+
+export default router;
@@ -0,0 +1,74 @@
+// 全文搜索：情绪饼干正文（云端与同步快照）、AI 分析与目标标题
+import { Router, Response } from 'express';
+import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { sendError } from '../middleware/errors';
+import {
+  validate,
+  validatedQuery,
+  sendValidationError,
+  optional,
+  pageLimit,
+  DATE,
+  RequestSchema,
+} from '../middleware/validate';
+import { SearchKind } from '../db';
+import { searchForUser } from '../services/search';
+
+const router = Router();
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+const MAX_QUERY_LENGTH = 100;
+const KINDS: SearchKind[] = ['entry', 'analysis', 'goal'];
+
+const searchSchema: RequestSchema = {
+  query: {
+    q: { type: 'string', minLength: 1, maxLength: MAX_QUERY_LENGTH },
+    from: optional(DATE),
+    to: optional(DATE),
+    kind: { type: 'string', enum: KINDS, optional: true },
+    type: { type: 'string', maxLength: 32, optional: true },
+    cursor: { type: 'integer', min: 0, optional: true },
+    limit: pageLimit(MAX_PAGE_SIZE),
+  },
+};
+
+/**
+ * GET /api/search
+ * Query: { q; from?: YYYY-MM-DD; to?; kind?: entry | analysis | goal; type?: entry 的 type; cursor?; limit? }
+ * 多个词用空格分隔，需同时命中；单个汉字也可搜索。结果按日期倒序（最近的在前），相同内容只返回一条
+ * 每条返回 snippet（命中位置附近的片段）与 highlights（片段内命中区间 [start, end)）；nextCursor 为 null 表示没有更多
+ */
+router.get('/', authMiddleware, validate(searchSchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const { q, from, to, kind, type, cursor, limit } = validatedQuery<{
+    q: string;
+    from?: string;
+    to?: string;
+    kind?: SearchKind;
+    type?: string;
+    cursor?: number;
+    limit?: number;
+  }>(req);
+  if (from && to && from > to) {
+    sendValidationError(res, [{ path: 'query.from', code: 'out_of_range', message: '不能晚于 to' }]);
+    return;
+  }
+
+  const data = searchForUser(req.user.id, {
+    q: q.trim(),
+    from,
+    to,
+    // 按 entry 的 type 筛选时只可能命中 entry
+    kind: type ? 'entry' : kind,
+    entryType: type?.trim() || undefined,
+    offset: cursor ?? 0,
+    limit: limit ?? DEFAULT_PAGE_SIZE,
+  });
+  res.json({ code: 0, data });
+});
+
+export default router;
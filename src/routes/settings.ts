@@ -0,0 +1,46 @@
+// 用户设置：读取与 JSON Merge Patch 更新（结构与校验见 services/settings）
+import { Router, Response } from 'express';
+import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { sendError } from '../middleware/errors';
+import { validate } from '../middleware/validate';
+import { getUserById } from '../db';
+import { parseSettings, applySettingsPatch, saveUserSettings } from '../services/settings';
+
+const router = Router();
+
+/**
+ * GET /api/settings
+ * 返回完整设置（未设置的字段为默认值）
+ */
+router.get('/', authMiddleware, (req: AuthRequest, res: Response) => {
+  const user = req.user && getUserById(req.user.id);
+  if (!user) {
+    sendError(res, 401, '用户不存在');
+    return;
+  }
+  res.json({ code: 0, data: { settings: parseSettings(user.settings) } });
+});
+
+/**
+ * PATCH /api/settings
+ * Content-Type: application/merge-patch+json（也接受 application/json）
+ * Body 示例: { "reminderTime": "21:30", "privacy": { "saveAiResults": false }, "aiPersona": null }
+ * 只需传要修改的字段，null 表示恢复默认；任一字段不合法时返回 400 与逐字段错误 data.errors，且不保存
+ */
+// 逐字段校验由 applySettingsPatch 完成，这里只解析请求体并限制大小
+router.patch('/', authMiddleware, validate({ body: {}, bodyLimit: '8kb' }), (req: AuthRequest, res: Response) => {
+  const user = req.user && getUserById(req.user.id);
+  if (!user) {
+    sendError(res, 401, '用户不存在');
+    return;
+  }
+  const { settings, errors } = applySettingsPatch(parseSettings(user.settings), req.body);
+  if (errors.length) {
+    sendError(res, 400, '设置项校验失败', 'INVALID_SETTINGS', { errors });
+    return;
+  }
+  saveUserSettings(user.id, settings);
+  res.json({ code: 0, message: '设置已保存', data: { settings } });
+});
+
+export default router;
@@ -0,0 +1,33 @@
+// 情绪统计：由服务端根据已保存的数据计算，不调用大模型
+import { Router, Response } from 'express';
+import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { sendError } from '../middleware/errors';
+import { validate, optional, DATE, RequestSchema } from '../middleware/validate';
+import { getUserSettings } from '../services/settings';
+import { computeMoodStats, resolveStatsRange } from '../services/stats';
+
+const router = Router();
+
+const statsSchema: RequestSchema = { query: { from: optional(DATE), to: optional(DATE) } };
+
+/**
+ * GET /api/stats?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * 默认最近 90 天，最长 731 天；日期与时段按用户设置中的时区计算
+ * 返回按类型计数、按天/周/月序列、连续记录天数、时段分布、丰容与技能树统计
+ */
+router.get('/', authMiddleware, validate(statsSchema), (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const { from, to } = req.query as { from?: string; to?: string };
+  const { timezone } = getUserSettings(req.user.id);
+  const range = resolveStatsRange(from, to, timezone);
+  if (typeof range === 'string') {
+    sendError(res, 400, range);
+    return;
+  }
+  res.json({ code: 0, data: computeMoodStats(req.user.id, range, timezone) });
+});
+
+export default router;
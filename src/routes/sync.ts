@@ -1,7 +1,19 @@
 // 云端同步：所有登录用户可上传/下载完整数据快照（自动上传 + 手动备份/恢复）
 import { Router, Response } from 'express';
 import { authMiddleware, AuthRequest } from '../middleware/auth';
-import { getSyncSnapshot, setSyncSnapshot, getUserById } from '../db';
+import { sendError } from '../middleware/errors';
+import { validate, validatedQuery, ID, FieldSchema, RequestSchema } from '../middleware/validate';
+import {
+  getSyncSnapshot,
+  commitSyncSnapshot,
+  getSyncKeyRevisions,
+  getSyncRevision,
+  getUserById,
+  listSnapshotVersions,
+  getSnapshotVersion,
+  SnapshotKeySummary,
+} from '../db';
+import { diffSnapshotKeys, mergeSnapshotKey } from '../services/sync';
 
 const router = Router();
 
@@ -17,6 +29,34 @@ const SNAPSHOT_KEYS = [
   'counselor_diary',
 ];
 
+// 完整快照可能较大，上传与增量提交单独放宽请求体上限
+const SNAPSHOT_BODY_LIMIT = '2mb';
+
+/** 每个 key 的取值结构由前端决定，这里只限定可用的 key */
+function snapshotKeys(schema: FieldSchema): Record<string, FieldSchema> {
+  return Object.fromEntries(SNAPSHOT_KEYS.map((key) => [key, schema]));
+}
+
+const uploadSchema: RequestSchema = {
+  body: { baseRevision: { type: 'integer', min: 0 }, ...snapshotKeys({ type: 'any', optional: true }) },
+  bodyLimit: SNAPSHOT_BODY_LIMIT,
+};
+const pushSchema: RequestSchema = {
+  body: {
+    baseRevision: { type: 'integer', min: 0 },
+    // null 表示删除该 key；不在 SNAPSHOT_KEYS 中的 key 视为错误
+    changes: {
+      type: 'object',
+      properties: snapshotKeys({ type: 'any', optional: true, nullable: true }),
+      strict: true,
+    },
+    onConflict: { type: 'string', enum: ['merge', 'reject'], optional: true },
+  },
+  bodyLimit: SNAPSHOT_BODY_LIMIT,
+};
+const changesSchema: RequestSchema = { query: { since: { type: 'integer', min: 0, optional: true } } };
+const versionIdSchema: RequestSchema = { params: { id: ID } };
+
 function sanitizeSnapshot(body: Record<string, unknown>): Record<string, unknown> {
   const out: Record<string, unknown> = {};
   for (const key of SNAPSHOT_KEYS) {
@@ -25,35 +65,66 @@ function sanitizeSnapshot(body: Record<string, unknown>): Record<string, unknown
   return out;
 }
 
+function readSnapshot(userId: number): Record<string, unknown> {
+  const row = getSyncSnapshot(userId);
+  return row ? (JSON.parse(row.data || '{}') as Record<string, unknown>) : {};
+}
+
+interface SyncConflict {
+  key: string;
+  baseRevision: number;
+  serverRevision: number;
+  serverValue: unknown;
+}
+
+function sendConflict(res: Response, userId: number, conflicts: SyncConflict[]): void {
+  sendError(res, 409, '云端数据已被其他设备更新，请先同步最新数据', 'CONFLICT', {
+    revision: getSyncRevision(userId),
+    conflicts,
+  });
+}
+
 /**
  * POST /api/sync/upload
- * Body: { emotion_cookies?, cookie_goals?, ... } 与本地 storage 一致
- * 保存到云端，覆盖该用户之前的快照
+ * Body: { baseRevision: number; emotion_cookies?, cookie_goals?, ... } 快照部分与本地 storage 一致
+ * 保存到云端，覆盖该用户当前快照；旧内容保留为历史版本，可随时恢复
+ * 若有 key 在 baseRevision 之后被其他设备改过且与本次上传的内容不同，整份不保存，返回与 /push 相同的 409
  */
-router.post('/upload', authMiddleware, (req: AuthRequest, res: Response) => {
+router.post('/upload', authMiddleware, validate(uploadSchema), (req: AuthRequest, res: Response) => {
   const user = req.user && getUserById(req.user.id);
   if (!user) {
-    res.status(401).json({ code: 401, message: '未登录' });
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const { baseRevision } = req.body as { baseRevision: number };
+  const snapshot = sanitizeSnapshot(req.body as Record<string, unknown>);
+  const current = readSnapshot(user.id);
+  const changedKeys = diffSnapshotKeys(current, snapshot);
+  const serverRevisions = new Map(getSyncKeyRevisions(user.id).map((r) => [r.key, r.revision]));
+  const conflicts = changedKeys
+    .filter((key) => (serverRevisions.get(key) ?? 0) > baseRevision)
+    .map((key) => ({ key, baseRevision, serverRevision: serverRevisions.get(key)!, serverValue: current[key] ?? null }));
+  if (conflicts.length > 0) {
+    sendConflict(res, user.id, conflicts);
     return;
   }
-  const snapshot = sanitizeSnapshot((req.body || {}) as Record<string, unknown>);
-  const dataJson = JSON.stringify(snapshot);
-  const updatedAt = setSyncSnapshot(user.id, dataJson);
+  const { revision, updatedAt } = commitSyncSnapshot(user.id, snapshot, changedKeys);
   res.json({
     code: 0,
     message: '已备份到云端',
-    data: { updatedAt },
+    data: { updatedAt, revision },
   });
 });
 
 /**
  * GET /api/sync/download
  * 返回该用户云端快照；若无则返回空对象
+ * revision 供之后的 /push 作为 baseRevision、/changes 作为 since 使用
  */
 router.get('/download', authMiddleware, (req: AuthRequest, res: Response) => {
   const user = req.user && getUserById(req.user.id);
   if (!user) {
-    res.status(401).json({ code: 401, message: '未登录' });
+    sendError(res, 401, '未登录');
     return;
   }
   const row = getSyncSnapshot(user.id);
@@ -63,6 +134,173 @@ router.get('/download', authMiddleware, (req: AuthRequest, res: Response) => {
     data: {
       snapshot,
       updatedAt: row?.updated_at ?? null,
+      revision: getSyncRevision(user.id),
+    },
+  });
+});
+
+/**
+ * POST /api/sync/push
+ * Body: { baseRevision: number; changes: { [key]: value | null }; onConflict?: 'merge' | 'reject' }
+ * 只上传有变化的 key（null 表示删除该 key）。若某 key 在 baseRevision 之后被其他设备修改过：
+ * - onConflict = 'merge'（默认）且该 key 支持合并（emotion_cookies 按天、cookie_goals 按 id）时自动合并；
+ * - 否则整次提交不生效，返回 409 与冲突明细，客户端应先拉取 /changes 再重试
+ */
+router.post('/push', authMiddleware, validate(pushSchema), (req: AuthRequest, res: Response) => {
+  const user = req.user && getUserById(req.user.id);
+  if (!user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const { baseRevision, changes: incoming, onConflict = 'merge' } = req.body as {
+    baseRevision: number;
+    changes: Record<string, unknown>;
+    onConflict?: 'merge' | 'reject';
+  };
+
+  const current = readSnapshot(user.id);
+  const serverRevisions = new Map(getSyncKeyRevisions(user.id).map((r) => [r.key, r.revision]));
+  const next: Record<string, unknown> = { ...current };
+  const merged: Record<string, unknown> = {};
+  const conflicts: SyncConflict[] = [];
+
+  for (const [key, value] of Object.entries(incoming)) {
+    const clientValue = value === null ? undefined : value;
+    const serverRevision = serverRevisions.get(key) ?? 0;
+    if (serverRevision > baseRevision) {
+      const mergedValue =
+        onConflict === 'merge' ? mergeSnapshotKey(key, current[key], clientValue) : undefined;
+      if (mergedValue === undefined) {
+        conflicts.push({ key, baseRevision, serverRevision, serverValue: current[key] ?? null });
+        continue;
+      }
+      merged[key] = mergedValue;
+      next[key] = mergedValue;
+      continue;
+    }
+    if (clientValue === undefined) delete next[key];
+    else next[key] = clientValue;
+  }
+
+  if (conflicts.length > 0) {
+    sendConflict(res, user.id, conflicts);
+    return;
+  }
+
+  const changedKeys = diffSnapshotKeys(current, next);
+  const result =
+    changedKeys.length > 0
+      ? commitSyncSnapshot(user.id, next, changedKeys)
+      : { revision: getSyncRevision(user.id), updatedAt: getSyncSnapshot(user.id)?.updated_at ?? null };
+  res.json({
+    code: 0,
+    message: changedKeys.length > 0 ? '已同步到云端' : '没有需要同步的变更',
+    data: {
+      revision: result.revision,
+      updatedAt: result.updatedAt,
+      applied: changedKeys,
+      merged,
+    },
+  });
+});
+
+/**
+ * GET /api/sync/changes?since=<revision>
+ * 返回 since 之后有变化的 key 及其最新值；deleted 为已被移除的 key
+ */
+router.get('/changes', authMiddleware, validate(changesSchema), (req: AuthRequest, res: Response) => {
+  const user = req.user && getUserById(req.user.id);
+  if (!user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const { since = 0 } = validatedQuery<{ since?: number }>(req);
+  const snapshot = readSnapshot(user.id);
+  const changes: Record<string, unknown> = {};
+  const deleted: string[] = [];
+  const revisions: Record<string, number> = {};
+  let revision = 0;
+  for (const r of getSyncKeyRevisions(user.id)) {
+    revision = Math.max(revision, r.revision);
+    if (r.revision <= since) continue;
+    revisions[r.key] = r.revision;
+    if (r.is_deleted) deleted.push(r.key);
+    else changes[r.key] = snapshot[r.key];
+  }
+  res.json({ code: 0, data: { revision, changes, deleted, revisions } });
+});
+
+/**
+ * GET /api/sync/versions
+ * 历史版本列表：每个版本的时间、来源（upload/restore）以及各 key 的字节数与条数
+ */
+router.get('/versions', authMiddleware, (req: AuthRequest, res: Response) => {
+  const user = req.user && getUserById(req.user.id);
+  if (!user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const items = listSnapshotVersions(user.id).map((v) => ({
+    id: v.id,
+    source: v.source,
+    createdAt: v.created_at,
+    keys: JSON.parse(v.summary || '{}') as Record<string, SnapshotKeySummary>,
+  }));
+  res.json({ code: 0, data: { items } });
+});
+
+/**
+ * GET /api/sync/versions/:id
+ * 预览某个历史版本的完整快照（不会修改当前快照）
+ */
+router.get('/versions/:id', authMiddleware, validate(versionIdSchema), (req: AuthRequest, res: Response) => {
+  const user = req.user && getUserById(req.user.id);
+  if (!user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const version = getSnapshotVersion(user.id, Number(req.params.id));
+  if (!version) {
+    sendError(res, 404, '版本不存在或已过期清理');
+    return;
+  }
+  res.json({
+    code: 0,
+    data: {
+      id: version.id,
+      source: version.source,
+      createdAt: version.created_at,
+      keys: JSON.parse(version.summary || '{}') as Record<string, SnapshotKeySummary>,
+      snapshot: JSON.parse(version.data || '{}') as Record<string, unknown>,
+    },
+  });
+});
+
+/**
+ * POST /api/sync/versions/:id/restore
+ * 将某个历史版本恢复为当前快照；恢复本身也会生成一个新版本，可再次回退
+ */
+router.post('/versions/:id/restore', authMiddleware, validate(versionIdSchema), (req: AuthRequest, res: Response) => {
+  const user = req.user && getUserById(req.user.id);
+  if (!user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const version = getSnapshotVersion(user.id, Number(req.params.id));
+  if (!version) {
+    sendError(res, 404, '版本不存在或已过期清理');
+    return;
+  }
+  const snapshot = JSON.parse(version.data || '{}') as Record<string, unknown>;
+  const changedKeys = diffSnapshotKeys(readSnapshot(user.id), snapshot);
+  const { revision, updatedAt } = commitSyncSnapshot(user.id, snapshot, changedKeys, 'restore');
+  res.json({
+    code: 0,
+    message: '已恢复该版本',
+    data: {
+      snapshot,
+      updatedAt,
+      revision,
     },
   });
 });
@@ -0,0 +1,29 @@
+// AI 用量：当前用户各 AI 接口今日/本月已用次数与剩余配额
+import { Router, Response } from 'express';
+import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { sendError } from '../middleware/errors';
+import { getUserById } from '../db';
+import { getUsageSummary } from '../services/quota';
+
+const router = Router();
+
+/**
+ * GET /api/usage
+ * remaining 为 -1 表示不限
+ */
+router.get('/', authMiddleware, (req: AuthRequest, res: Response) => {
+  const user = req.user && getUserById(req.user.id);
+  if (!user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  res.json({
+    code: 0,
+    data: {
+      vipLevel: user.vip_level,
+      items: getUsageSummary(user.id, user.vip_level),
+    },
+  });
+});
+
+export default router;
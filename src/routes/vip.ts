@@ -0,0 +1,226 @@
+// VIP 会员：套餐、下单（微信支付 JSAPI）、支付回调与订单查询
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { config } from '../config';
+import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { sendError, asyncHandler } from '../middleware/errors';
+import { validate, RequestSchema } from '../middleware/validate';
+import {
+  getUserById,
+  createVipOrder,
+  setVipOrderPrepayId,
+  closeVipOrder,
+  getVipOrderByOutTradeNo,
+  listVipOrders,
+  markVipOrderPaid,
+  VipOrderRow,
+} from '../db';
+import { VIP_PLANS, getVipPlan, isVipActive, toOrderDto } from '../services/vip';
+import {
+  isWechatPayConfigured,
+  createJsapiTransaction,
+  buildJsapiPayParams,
+  queryTransaction,
+  verifyNotifySignature,
+  decryptNotifyResource,
+  WechatPayTransaction,
+} from '../services/wechatPay';
+import { createLogger, errorFields } from '../services/logger';
+
+const log = createLogger('vip');
+
+const router = Router();
+
+const createOrderSchema: RequestSchema = {
+  body: { plan: { type: 'string', enum: Object.keys(VIP_PLANS) } },
+};
+// 商户订单号由 newOutTradeNo 生成，6～32 位字母数字
+const orderParamSchema: RequestSchema = {
+  params: { outTradeNo: { type: 'string', pattern: /^[A-Za-z0-9]{6,32}$/, format: '商户订单号' } },
+};
+
+/** 商户订单号：6～32 位字母数字，VIP + 时间戳 + 随机串 */
+function newOutTradeNo(): string {
+  return `VIP${Date.now()}${crypto.randomBytes(6).toString('hex')}`;
+}
+
+/**
+ * 按微信支付的交易状态更新订单；appid、商户号或金额与订单不一致（含缺失）时不发放
+ * 返回 false 表示交易数据异常
+ */
+function applyTransaction(order: VipOrderRow, tx: WechatPayTransaction): boolean {
+  if (tx.trade_state === 'SUCCESS') {
+    if (tx.appid !== config.wechat.appId || tx.mchid !== config.wechatPay.mchId) {
+      log.error('VIP 订单的 appid 或商户号不一致', { outTradeNo: order.out_trade_no, appid: tx.appid, mchid: tx.mchid });
+      return false;
+    }
+    if (tx.amount?.total !== order.amount_fen) {
+      log.error('VIP 订单金额不一致', { outTradeNo: order.out_trade_no, paid: tx.amount?.total, expected: order.amount_fen });
+      return false;
+    }
+    const plan = getVipPlan(order.plan);
+    if (!plan) return false;
+    markVipOrderPaid(order.out_trade_no, tx.transaction_id ?? '', plan.months);
+    return true;
+  }
+  if (tx.trade_state === 'CLOSED' || tx.trade_state === 'PAYERROR' || tx.trade_state === 'REVOKED') {
+    closeVipOrder(order.id);
+  }
+  return true;
+}
+
+/**
+ * GET /api/vip/plans
+ */
+router.get('/plans', (_req: Request, res: Response) => {
+  res.json({ code: 0, data: { items: Object.values(VIP_PLANS) } });
+});
+
+/**
+ * GET /api/vip/status
+ * 当前会员状态（到期后已由 authMiddleware 降级）
+ */
+router.get('/status', authMiddleware, (req: AuthRequest, res: Response) => {
+  const user = req.user && getUserById(req.user.id);
+  if (!user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  res.json({
+    code: 0,
+    data: {
+      vipLevel: user.vip_level,
+      active: isVipActive(user),
+      vipExpiresAt: user.vip_expires_at ?? undefined,
+    },
+  });
+});
+
+/**
+ * POST /api/vip/orders
+ * Body: { plan: 'monthly' | 'yearly' }
+ * 创建订单并向微信支付下单，返回小程序 wx.requestPayment 所需参数
+ * 支付结果以回调为准，客户端也可轮询 GET /api/vip/orders/:outTradeNo
+ */
+router.post('/orders', authMiddleware, validate(createOrderSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  const user = req.user && getUserById(req.user.id);
+  if (!user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  const plan = getVipPlan((req.body as { plan: string }).plan)!;
+  if (!isWechatPayConfigured()) {
+    sendError(res, 503, '服务端未配置微信支付', 'NOT_CONFIGURED');
+    return;
+  }
+
+  const order = createVipOrder(user.id, newOutTradeNo(), plan.id, plan.amountFen);
+  try {
+    const prepayId = await createJsapiTransaction({
+      outTradeNo: order.out_trade_no,
+      description: plan.name,
+      amountFen: plan.amountFen,
+      openid: user.wx_open_id,
+    });
+    setVipOrderPrepayId(order.id, prepayId);
+    res.json({
+      code: 0,
+      data: {
+        order: toOrderDto(order),
+        payParams: buildJsapiPayParams(prepayId),
+      },
+    });
+  } catch (e) {
+    closeVipOrder(order.id);
+    log.error('VIP 下单失败', errorFields(e));
+    sendError(res, 502, e instanceof Error ? e.message : '微信支付下单失败');
+  }
+}));
+
+/**
+ * GET /api/vip/orders
+ */
+router.get('/orders', authMiddleware, (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  res.json({ code: 0, data: { items: listVipOrders(req.user.id).map(toOrderDto) } });
+});
+
+/**
+ * GET /api/vip/orders/:outTradeNo
+ * 订单仍未支付时主动向微信支付查询一次，避免回调延迟或丢失
+ */
+router.get('/orders/:outTradeNo', authMiddleware, validate(orderParamSchema), asyncHandler(async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    sendError(res, 401, '未登录');
+    return;
+  }
+  let order = getVipOrderByOutTradeNo(req.params.outTradeNo);
+  if (!order || order.user_id !== req.user.id) {
+    sendError(res, 404, '订单不存在');
+    return;
+  }
+  if (order.status === 'pending' && isWechatPayConfigured()) {
+    try {
+      applyTransaction(order, await queryTransaction(order.out_trade_no));
+      order = getVipOrderByOutTradeNo(order.out_trade_no)!;
+    } catch (e) {
+      log.error('查询微信支付订单失败', errorFields(e));
+    }
+  }
+  res.json({ code: 0, data: { order: toOrderDto(order) } });
+}));
+
+/**
+ * POST /api/vip/notify
+ * 微信支付结果通知（无需登录）：校验签名、解密 resource 后发放 VIP
+ * 需要原始请求体验签，app.ts 中为该路径单独挂了 express.raw
+ * 按微信支付约定：成功返回 200，失败返回非 2xx 与 { code: 'FAIL', message }，微信会重试
+ */
+router.post('/notify', (req: Request, res: Response) => {
+  const rawBody = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+  const fail = (status: number, message: string) => {
+    res.status(status).json({ code: 'FAIL', message });
+  };
+  try {
+    const verified = verifyNotifySignature(
+      {
+        timestamp: req.header('Wechatpay-Timestamp'),
+        nonce: req.header('Wechatpay-Nonce'),
+        signature: req.header('Wechatpay-Signature'),
+      },
+      rawBody
+    );
+    if (!verified) {
+      fail(401, '签名校验失败');
+      return;
+    }
+    const notification = JSON.parse(rawBody) as {
+      event_type?: string;
+      resource?: { algorithm?: string; ciphertext: string; associated_data?: string; nonce: string };
+    };
+    if (notification.event_type !== 'TRANSACTION.SUCCESS' || !notification.resource) {
+      // 其他事件（如退款）暂不处理，正常应答避免重复推送
+      res.json({ code: 'SUCCESS' });
+      return;
+    }
+    const tx = decryptNotifyResource(notification.resource);
+    const order = getVipOrderByOutTradeNo(tx.out_trade_no);
+    if (!order) {
+      fail(404, '订单不存在');
+      return;
+    }
+    if (!applyTransaction(order, tx)) {
+      fail(400, '交易数据与订单不一致');
+      return;
+    }
+    res.json({ code: 'SUCCESS' });
+  } catch (e) {
+    log.error('处理微信支付回调失败', errorFields(e));
+    fail(500, e instanceof Error ? e.message : '处理失败');
+  }
+});
+
+export default router;
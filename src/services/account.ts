@@ -0,0 +1,99 @@
+// 账号数据：个人信息导出（可携带权）与冷静期注销（到期后彻底删除全部个人数据）
+import { config } from '../config';
+import {
+  getUserById,
+  listUserDataRows,
+  listUsersDueForDeletion,
+  deleteUserCascade,
+  requestAccountDeletion,
+  USER_DATA_TABLES,
+  UserRow,
+} from '../db';
+import { createLogger, errorFields } from './logger';
+
+const log = createLogger('account');
+
+export const EXPORT_FORMAT = 'emotion-house-export@1';
+
+/** 存 JSON 字符串的列，导出时还原为对象便于阅读 */
+const JSON_COLUMNS = new Set(['data', 'steps', 'settings', 'summary', 'request', 'result']);
+
+/** 不导出的列：密钥密文只导出掩码 */
+const OMIT_COLUMNS: Partial<Record<string, string[]>> = {
+  user_api_keys: ['ciphertext'],
+};
+
+function exportRow(table: string, row: Record<string, unknown>): Record<string, unknown> {
+  const omit = OMIT_COLUMNS[table] ?? [];
+  const out: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(row)) {
+    if (omit.includes(column)) continue;
+    if (JSON_COLUMNS.has(column) && typeof value === 'string') {
+      try {
+        out[column] = JSON.parse(value);
+        continue;
+      } catch {
+        // 非 JSON 内容按原样导出
+      }
+    }
+    out[column] = value;
+  }
+  return out;
+}
+
+/** 汇总用户的全部个人数据：用户资料 + 各数据表的全部记录 */
+export function buildAccountExport(userId: number) {
+  const user = getUserById(userId);
+  if (!user) return undefined;
+  const rows = listUserDataRows(userId);
+  const tables: Record<string, Record<string, unknown>[]> = {};
+  for (const table of USER_DATA_TABLES) {
+    tables[table] = rows[table].map((r) => exportRow(table, r));
+  }
+  return {
+    format: EXPORT_FORMAT,
+    exportedAt: new Date().toISOString(),
+    user: exportRow('users', user as unknown as Record<string, unknown>),
+    tables,
+  };
+}
+
+/** 申请注销：进入冷静期，已在冷静期内则保持原计划时间 */
+export function scheduleAccountDeletion(user: UserRow): UserRow {
+  if (user.deletion_requested_at) return user;
+  const scheduledAt = new Date(Date.now() + config.account.deletionGraceDays * 24 * 60 * 60 * 1000).toISOString();
+  return requestAccountDeletion(user.id, scheduledAt);
+}
+
+export function toDeletionStatus(user: UserRow) {
+  return {
+    pending: !!user.deletion_requested_at,
+    requestedAt: user.deletion_requested_at ?? undefined,
+    scheduledAt: user.deletion_scheduled_at ?? undefined,
+    graceDays: config.account.deletionGraceDays,
+  };
+}
+
+/** 删除冷静期已结束的账号，返回删除数量 */
+export function purgeDueAccounts(): number {
+  const due = listUsersDueForDeletion();
+  for (const userId of due) {
+    deleteUserCascade(userId);
+    // 仅记录用户 id，不输出任何个人信息
+    log.info('注销冷静期结束，已删除全部数据', { userId });
+  }
+  return due.length;
+}
+
+/** 启动时执行一次，之后每小时检查一次 */
+export function startAccountPurgeTimer(): void {
+  const run = () => {
+    try {
+      purgeDueAccounts();
+    } catch (e) {
+      log.error('删除到期注销账号失败', errorFields(e));
+    }
+  };
+  run();
+  setInterval(run, 60 * 60 * 1000).unref();
+}
@@ -0,0 +1,110 @@
+// 管理后台：用户信息、用户数据元数据（只读大小与时间，不解密正文）与全站统计
+import {
+  UserRow,
+  AdminAuditRow,
+  SnapshotKeySummary,
+  listEmotionDayMeta,
+  getSyncSnapshotMeta,
+  getSyncRevision,
+  getSyncKeyRevisions,
+  listSnapshotVersions,
+  countUserDataRows,
+  listActiveAuthSessions,
+  listVipOrders,
+  getServiceCounts,
+} from '../db';
+import { isVipActive, toOrderDto } from './vip';
+import { getUsageSummary, getServiceUsage } from './quota';
+import { toSessionDto } from './session';
+
+export function toAdminUserDto(row: UserRow) {
+  return {
+    id: row.id,
+    wxOpenId: row.wx_open_id,
+    phone: row.phone ?? undefined,
+    vipLevel: row.vip_level,
+    vipActive: isVipActive(row),
+    vipExpiresAt: row.vip_expires_at ?? undefined,
+    deletionScheduledAt: row.deletion_scheduled_at ?? undefined,
+    disabledAt: row.disabled_at ?? undefined,
+    disabledReason: row.disabled_reason ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * 用户数据概况：情绪饼干按天的大小与时间、同步 revision 与各 key 状态、快照历史摘要、会话、用量与订单
+ * 只读取元数据列，不解密任何正文
+ */
+export function buildUserDataOverview(user: UserRow) {
+  const days = listEmotionDayMeta(user.id);
+  const snapshot = getSyncSnapshotMeta(user.id);
+  return {
+    emotionCookies: {
+      total: days.filter((d) => !d.is_deleted).length,
+      deleted: days.filter((d) => d.is_deleted).length,
+      storedBytes: days.reduce((sum, d) => sum + d.stored_bytes, 0),
+      days: days.map((d) => ({
+        date: d.date,
+        storedBytes: d.stored_bytes,
+        deleted: !!d.is_deleted,
+        createdAt: d.created_at,
+        updatedAt: d.updated_at,
+      })),
+    },
+    sync: {
+      revision: getSyncRevision(user.id),
+      snapshot: snapshot ? { storedBytes: snapshot.stored_bytes, updatedAt: snapshot.updated_at } : null,
+      keys: getSyncKeyRevisions(user.id).map((k) => ({
+        key: k.key,
+        revision: k.revision,
+        deleted: !!k.is_deleted,
+        updatedAt: k.updated_at,
+      })),
+      versions: listSnapshotVersions(user.id).map((v) => ({
+        id: v.id,
+        source: v.source,
+        createdAt: v.created_at,
+        summary: JSON.parse(v.summary || '{}') as Record<string, SnapshotKeySummary>,
+      })),
+    },
+    rowCounts: countUserDataRows(user.id),
+    sessions: listActiveAuthSessions(user.id).map((s) => toSessionDto(s)),
+    aiUsage: getUsageSummary(user.id, user.vip_level),
+    vipOrders: listVipOrders(user.id).map(toOrderDto),
+  };
+}
+
+/** 全站统计；用户增长、活跃、订单与风险事件按最近 days 天统计，AI 用量为今日与本月 */
+export function buildServiceStats(days: number) {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  return {
+    windowDays: days,
+    since,
+    ...getServiceCounts(since),
+    aiUsage: getServiceUsage(),
+  };
+}
+
+export function toAuditDto(row: AdminAuditRow) {
+  let details: unknown = null;
+  try {
+    details = row.details ? JSON.parse(row.details) : null;
+  } catch {
+    details = row.details;
+  }
+  return {
+    id: row.id,
+    admin: row.admin,
+    role: row.role,
+    method: row.method,
+    path: row.path,
+    action: row.action,
+    targetUserId: row.target_user_id,
+    details,
+    status: row.status,
+    ip: row.ip,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,383 @@
+// AI 分析结果：输出按 schema 校验与修复，以及按输入哈希缓存到 ai_results（同样的输入不再重复调用大模型）
+import crypto from 'crypto';
+import { LlmClient, callLlm } from './llm';
+import { findCachedAiResult, insertAiResult, AiResultRow } from '../db';
+import { getUserSettings } from './settings';
+import { assessModelOutput, outputAction, buildSafetyBlock, recordSafetyEvent, SafetyBlock } from './safety';
+import { OutputSchema, OutputIssue, conformOutput, describeSchema, extractJsonObject } from './outputSchema';
+import { config } from '../config';
+import { createLogger, errorFields } from './logger';
+import type { MoodStats } from './stats';
+
+const log = createLogger('analysis');
+
+export type AnalysisKind = 'daily' | 'diary' | 'counselorDiary' | 'longTerm';
+
+export const ANALYSIS_KINDS: AnalysisKind[] = ['daily', 'diary', 'counselorDiary', 'longTerm'];
+
+/** 结果关联的日期：单日结果用 date，多日结果用 from/to */
+export interface AnalysisScope {
+  date?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface PreparedAnalysis {
+  llm: LlmClient;
+  systemPrompt: string;
+  userContent: string;
+  promptVersion: string;
+  scope: AnalysisScope;
+}
+
+export interface AnalysisOutcome {
+  data: unknown;
+  resultId: number | null;
+  cached: boolean;
+  /** 模型输出命中风险规则时的求助信息，此时 data 为 null */
+  safety?: SafetyBlock;
+  /** 结构化输出校验不合格、由默认值补齐的字段路径 */
+  defaultedFields?: string[];
+}
+
+// 结构化输出的 schema：日记与长期分析要求模型返回 JSON，其余接口直接使用文本
+const DIARY_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    diary: { type: 'string', minLength: 1, default: '' },
+    keyPoints: { type: 'string', minLength: 1, maxLength: 200, default: '' },
+    insights: { type: 'string', minLength: 1, default: '' },
+  },
+};
+
+const RATIO: OutputSchema = { type: 'number', min: 0, max: 1, default: 0 };
+
+const LONG_TERM_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    summary: {
+      type: 'object',
+      properties: {
+        timeRange: { type: 'string', minLength: 1, maxLength: 30, default: '近期' },
+        keyPoints: {
+          type: 'array',
+          items: { type: 'string', minLength: 1, maxLength: 40, default: '' },
+          minItems: 1,
+          maxItems: 6,
+        },
+      },
+    },
+    psychologicalInsight: {
+      type: 'object',
+      properties: {
+        letter: { type: 'string', minLength: 1, default: '' },
+        themes: { type: 'array', items: { type: 'string', minLength: 1, maxLength: 12, default: '' }, maxItems: 4 },
+      },
+    },
+    lifeAdvice: {
+      type: 'object',
+      properties: {
+        adviceBlocks: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              title: { type: 'string', minLength: 1, maxLength: 20, default: '建议' },
+              content: { type: 'string', minLength: 1, default: '' },
+              tags: { type: 'array', items: { type: 'string', minLength: 1, maxLength: 10, default: '' }, maxItems: 6 },
+            },
+          },
+          maxItems: 8,
+        },
+      },
+    },
+    metrics: {
+      type: 'object',
+      properties: {
+        emotionTrend: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              label: { type: 'string', minLength: 1, maxLength: 20, default: '' },
+              score: { type: 'number', min: -1, max: 1, default: 0 },
+            },
+          },
+          maxItems: 60,
+        },
+        lifeRadar: {
+          type: 'object',
+          properties: { workStudy: RATIO, relationship: RATIO, selfCare: RATIO, play: RATIO, growth: RATIO },
+        },
+      },
+    },
+  },
+};
+
+const OUTPUT_SCHEMAS: Partial<Record<AnalysisKind, OutputSchema>> = {
+  diary: DIARY_SCHEMA,
+  longTerm: LONG_TERM_SCHEMA,
+};
+
+/** 输出始终不是合法 JSON 时，把原文放进主要的文本字段，其余字段由 schema 默认值补齐 */
+const TEXT_FALLBACKS: Partial<Record<AnalysisKind, (raw: string) => unknown>> = {
+  diary: (raw) => ({ diary: raw }),
+  longTerm: (raw) => ({
+    summary: { keyPoints: [raw.slice(0, 40)] },
+    psychologicalInsight: { letter: raw },
+  }),
+};
+
+const REPAIR_PROMPT =
+  '你是 JSON 格式修复助手。用户会给出一段模型输出 previousOutput、它应符合的结构 schema，以及校验发现的问题 problems。\n' +
+  '请只修正 problems 中列出的字段，其余内容原样保留；缺少的字段根据 previousOutput 的内容补写。\n' +
+  '只输出修正后的完整 JSON 对象，不要代码块或其他文字。';
+
+interface StructuredAttempt {
+  raw: string;
+  parsed: boolean;
+  value: unknown;
+  issues: OutputIssue[];
+}
+
+function checkStructured(kind: AnalysisKind, schema: OutputSchema, raw: string): StructuredAttempt {
+  const issues: OutputIssue[] = [];
+  const obj = extractJsonObject(raw);
+  if (!obj) {
+    issues.push({ path: '(root)', message: '不是合法的 JSON 对象' });
+    const fallback = TEXT_FALLBACKS[kind]?.(raw.trim());
+    return { raw, parsed: false, value: conformOutput(schema, fallback, issues), issues };
+  }
+  return { raw, parsed: true, value: conformOutput(schema, obj, issues), issues };
+}
+
+/** 能解析的优先，其次问题少的 */
+function isBetterAttempt(a: StructuredAttempt, b: StructuredAttempt): boolean {
+  if (a.parsed !== b.parsed) return a.parsed;
+  return a.issues.length < b.issues.length;
+}
+
+/**
+ * 按 schema 校验模型输出；不合格时把问题列表交给模型定向修复，最多 outputRepairAttempts 次
+ * 仍不合格则取最好的一次，用默认值补齐（或截断、截到范围内）并返回这些字段的路径
+ */
+async function parseStructuredOutput(
+  llm: LlmClient,
+  kind: AnalysisKind,
+  schema: OutputSchema,
+  raw: string
+): Promise<{ raw: string; value: unknown; defaultedFields: string[] }> {
+  let best = checkStructured(kind, schema, raw);
+  for (let attempt = 0; best.issues.length > 0 && attempt < config.llm.outputRepairAttempts; attempt++) {
+    const userContent = JSON.stringify(
+      {
+        problems: best.issues.map((i) => `${i.path}：${i.message}`),
+        schema: describeSchema(schema),
+        previousOutput: best.raw,
+      },
+      null,
+      2
+    );
+    let repaired: string;
+    try {
+      repaired = await callLlm(llm, kind, REPAIR_PROMPT, userContent);
+    } catch (error: any) {
+      // 修复调用失败不影响本次结果，按已有输出补齐
+      log.warn('输出修复调用失败', { task: kind, ...errorFields(error) });
+      break;
+    }
+    const next = checkStructured(kind, schema, repaired);
+    if (isBetterAttempt(next, best)) best = next;
+  }
+  if (best.issues.length > 0) {
+    log.warn('输出结构不合格，已补齐', { task: kind, issues: best.issues.map((i) => `${i.path}(${i.message})`) });
+  }
+  return { raw: best.raw, value: best.value, defaultedFields: [...new Set(best.issues.map((i) => i.path))] };
+}
+
+/**
+ * 长期分析中的数量类指标（丰容、技能、记录活跃度）不采用模型输出，直接取请求里系统统计的 stats
+ * userContent 为当时发给模型的内容，重新生成时同样适用
+ */
+function applyComputedMetrics(
+  parsed: Record<string, unknown>,
+  userContent: string | undefined
+): Record<string, unknown> {
+  if (!userContent) return parsed;
+  let stats: Partial<MoodStats> | undefined;
+  try {
+    stats = (JSON.parse(userContent) as { stats?: Partial<MoodStats> } | null)?.stats;
+  } catch {
+    return parsed;
+  }
+  if (!stats || typeof stats !== 'object') return parsed;
+  const metrics = parsed.metrics && typeof parsed.metrics === 'object' ? parsed.metrics : {};
+  parsed.metrics = {
+    ...metrics,
+    enrichmentCounts: stats.enrichment ?? [],
+    skillStats: stats.skills ?? [],
+    activity: {
+      totals: stats.totals,
+      streaks: stats.streaks,
+      byType: stats.byType,
+      weekly: stats.weekly,
+      timeOfDay: stats.timeOfDay,
+    },
+  };
+  return parsed;
+}
+
+/** 模型输出的处理结果：命中风险规则时只有 safety，否则为接口返回的 data 及被补齐的字段 */
+export type ProcessedOutput =
+  | { safety: SafetyBlock }
+  | { safety?: undefined; data: unknown; defaultedFields: string[] };
+
+function screenOutput(kind: AnalysisKind, raw: string): SafetyBlock | undefined {
+  const assessment = assessModelOutput(raw);
+  const action = outputAction(assessment);
+  if (!action) return undefined;
+  recordSafetyEvent(kind, 'output', assessment, action);
+  return buildSafetyBlock(assessment, action);
+}
+
+// 流式输出末尾暂不下发的字符数，需不短于风险规则中最长的词句
+const STREAM_HOLDBACK = 16;
+
+/**
+ * 流式输出的逐段筛查：每收到一段都对累计文本做风险筛查，命中时返回 safety，调用方应停止推送并取消上游请求
+ * 末尾 STREAM_HOLDBACK 个字符暂不下发，命中的词句在判定前不会被完整推送给客户端
+ */
+export function createStreamScreen(kind: AnalysisKind) {
+  let text = '';
+  let sent = 0;
+  return {
+    /** 追加一段输出，返回现在可以下发的文本 */
+    push(delta: string): { text: string } | { safety: SafetyBlock } {
+      text += delta;
+      const safety = screenOutput(kind, text);
+      if (safety) return { safety };
+      const until = Math.max(text.length - STREAM_HOLDBACK, sent);
+      const ready = text.slice(sent, until);
+      sent = until;
+      return { text: ready };
+    },
+    /** 输出结束，返回尚未下发的剩余文本（已随最后一段筛查过） */
+    flush(): string {
+      const rest = text.slice(sent);
+      sent = text.length;
+      return rest;
+    },
+  };
+}
+
+/**
+ * 把模型原始输出转换为接口返回的 data：先做风险筛查，再按 schema 校验（必要时修复）
+ * userContent 为当时发给模型的内容
+ */
+export async function processModelOutput(
+  llm: LlmClient,
+  kind: AnalysisKind,
+  raw: string,
+  userContent: string
+): Promise<ProcessedOutput> {
+  const safety = screenOutput(kind, raw);
+  if (safety) return { safety };
+
+  const schema = OUTPUT_SCHEMAS[kind];
+  if (!schema) {
+    return { data: kind === 'daily' ? { analysis: raw } : { diary: raw }, defaultedFields: [] };
+  }
+  const structured = await parseStructuredOutput(llm, kind, schema, raw);
+  // 修复后的输出同样要筛查
+  if (structured.raw !== raw) {
+    const repairedSafety = screenOutput(kind, structured.raw);
+    if (repairedSafety) return { safety: repairedSafety };
+  }
+  const data =
+    kind === 'longTerm'
+      ? applyComputedMetrics(structured.value as Record<string, unknown>, userContent)
+      : structured.value;
+  return { data, defaultedFields: structured.defaultedFields };
+}
+
+/** 输入哈希：provider + 模板版本 + 完整提示词与内容，任一变化都视为新的输入 */
+function computeInputsHash(kind: AnalysisKind, prepared: PreparedAnalysis): string {
+  return crypto
+    .createHash('sha256')
+    .update(
+      JSON.stringify([
+        kind,
+        prepared.llm.provider.name,
+        prepared.promptVersion,
+        prepared.systemPrompt,
+        prepared.userContent,
+      ])
+    )
+    .digest('hex');
+}
+
+/** 用户在隐私设置中关闭了“保存 AI 结果”时，既不读缓存也不落库 */
+function shouldPersist(userId: number | undefined): userId is number {
+  return !!userId && getUserSettings(userId).privacy.saveAiResults;
+}
+
+/** 查找同样输入的已缓存结果；未登录或关闭保存的用户不缓存 */
+export function findCachedAnalysis(
+  userId: number | undefined,
+  kind: AnalysisKind,
+  prepared: PreparedAnalysis
+): AnalysisOutcome | undefined {
+  if (!shouldPersist(userId)) return undefined;
+  const row = findCachedAiResult(userId, kind, computeInputsHash(kind, prepared));
+  if (!row) return undefined;
+  return { data: JSON.parse(row.result), resultId: row.id, cached: true };
+}
+
+/** 保存新生成的结果；未登录或关闭保存的用户只返回结果不落库 */
+export function saveAnalysis(
+  userId: number | undefined,
+  kind: AnalysisKind,
+  prepared: PreparedAnalysis,
+  data: unknown,
+  defaultedFields: string[] = []
+): AnalysisOutcome {
+  if (!shouldPersist(userId)) return { data, resultId: null, cached: false, defaultedFields };
+  const row: AiResultRow = insertAiResult(userId, {
+    kind,
+    date: prepared.scope.date,
+    rangeFrom: prepared.scope.from,
+    rangeTo: prepared.scope.to,
+    promptVersion: prepared.promptVersion,
+    inputsHash: computeInputsHash(kind, prepared),
+    requestJson: JSON.stringify({ systemPrompt: prepared.systemPrompt, userContent: prepared.userContent }),
+    resultJson: JSON.stringify(data),
+    defaultedFieldsJson: defaultedFields.length ? JSON.stringify(defaultedFields) : null,
+  });
+  return { data, resultId: row.id, cached: false, defaultedFields };
+}
+
+/** 模型输出经筛查与校验后保存；命中高风险时隐藏内容且不落库 */
+export async function completeAnalysis(
+  userId: number | undefined,
+  kind: AnalysisKind,
+  prepared: PreparedAnalysis,
+  raw: string
+): Promise<AnalysisOutcome> {
+  const output = await processModelOutput(prepared.llm, kind, raw, prepared.userContent);
+  if (output.safety) {
+    return { data: null, resultId: null, cached: false, safety: output.safety };
+  }
+  return saveAnalysis(userId, kind, prepared, output.data, output.defaultedFields);
+}
+
+/** 命中缓存直接返回，否则调用大模型并保存 */
+export async function runAnalysis(
+  userId: number | undefined,
+  kind: AnalysisKind,
+  prepared: PreparedAnalysis
+): Promise<AnalysisOutcome> {
+  const cached = findCachedAnalysis(userId, kind, prepared);
+  if (cached) return cached;
+  const raw = await callLlm(prepared.llm, kind, prepared.systemPrompt, prepared.userContent);
+  return completeAnalysis(userId, kind, prepared, raw);
+}
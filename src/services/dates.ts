@@ -0,0 +1,10 @@
+// 日期字符串工具：不依赖数据库，校验中间件、统计与搜索索引共用
+
+export const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** 是否为真实存在的 YYYY-MM-DD 日期：Date.parse 会把 2026-02-30 顺延为 3 月 2 日，这里解析后再比对一次 */
+export function isValidDate(value: string): boolean {
+  if (!DATE_RE.test(value)) return false;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return !Number.isNaN(time) && new Date(time).toISOString().slice(0, 10) === value;
+}
@@ -0,0 +1,224 @@
+// 幸运饼干任务：生成时避开近期给过的相似任务，并保存到 fortune_tasks 以便记录接受、完成与跳过
+// 没有可用 AI 时从离线任务库（fortune_library）按权重抽取
+import { config } from '../config';
+import {
+  insertFortuneTask,
+  listRecentFortuneTasks,
+  countFortuneTasksByCategory,
+  listFortuneLibrary,
+  FortuneTaskRow,
+  FortuneLibraryRow,
+  FortuneDifficulty,
+} from '../db';
+import { LlmClient, callLlm } from './llm';
+import { FortuneCategory, FORTUNE_CATEGORIES, FORTUNE_CATEGORY_LABELS, resolvePrompt } from './prompts';
+import { todayIn } from './stats';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 提示词里最多列出的近期任务条数，避免提示词过长
+const AVOID_LIST_LIMIT = 10;
+const RECENT_SCAN_LIMIT = 200;
+
+export const FORTUNE_DIFFICULTIES: FortuneDifficulty[] = ['easy', 'medium', 'hard'];
+
+/** 去掉空白与标点，只比较文字本身 */
+function normalizeTask(text: string): string {
+  return text.replace(/[\s\p{P}\p{S}]/gu, '').toLowerCase();
+}
+
+function bigrams(text: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  const chars = [...text];
+  if (chars.length === 1) grams.set(chars[0], 1);
+  for (let i = 0; i < chars.length - 1; i++) {
+    const g = chars[i] + chars[i + 1];
+    grams.set(g, (grams.get(g) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/** 字符二元组 Dice 系数（0～1），适合中文短句的近似比较 */
+export function taskSimilarity(a: string, b: string): number {
+  const ga = bigrams(normalizeTask(a));
+  const gb = bigrams(normalizeTask(b));
+  let total = 0;
+  let shared = 0;
+  for (const n of ga.values()) total += n;
+  for (const [g, n] of gb) {
+    total += n;
+    shared += Math.min(n, ga.get(g) ?? 0);
+  }
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+function mostSimilar(content: string, recent: string[]): { text: string; score: number } | undefined {
+  let best: { text: string; score: number } | undefined;
+  for (const text of recent) {
+    const score = taskSimilarity(content, text);
+    if (!best || score > best.score) best = { text, score };
+  }
+  return best;
+}
+
+function buildUserContent(category: FortuneCategory, avoid: string[]): string {
+  const ask = `请为「${category}」板块生成一条今日小任务。`;
+  if (!avoid.length) return ask;
+  return `${ask}\n以下是最近已经给过的任务，请换一个不同的方向，不要重复，也不要只换个说法：\n${avoid
+    .map((t) => `- ${t}`)
+    .join('\n')}`;
+}
+
+export interface GeneratedFortune {
+  task: FortuneTaskRow;
+  /** 多次尝试后仍与近期任务相似时为 true */
+  similarToRecent: boolean;
+}
+
+/**
+ * 生成并保存一条任务：提示词附上同板块的近期任务；结果与近期任意任务相似时把它加入避开列表重试，
+ * 最多调用 maxAttempts 次，仍相似则保存最后一次结果并标记 similarToRecent
+ */
+export async function generateFortune(
+  llm: LlmClient,
+  userId: number,
+  category: FortuneCategory,
+  timezone: string
+): Promise<GeneratedFortune> {
+  const since = new Date(Date.now() - config.fortune.recentDays * DAY_MS).toISOString();
+  const recent = listRecentFortuneTasks(userId, since, RECENT_SCAN_LIMIT);
+  const recentTexts = recent.map((r) => r.content);
+  const avoid = recent
+    .filter((r) => r.category === category)
+    .slice(0, AVOID_LIST_LIMIT)
+    .map((r) => r.content);
+
+  const prompt = resolvePrompt(`fortune.${category}`, { timezone });
+  let content = '';
+  let similar = false;
+  const attempts = Math.max(config.fortune.maxAttempts, 1);
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    content = (await callLlm(llm, 'fortune', prompt.text, buildUserContent(category, avoid))).trim();
+    const match = mostSimilar(content, recentTexts);
+    similar = !!match && match.score >= config.fortune.similarityThreshold;
+    if (!similar) break;
+    if (!avoid.includes(match!.text)) avoid.unshift(match!.text);
+    avoid.unshift(content);
+  }
+
+  const task = insertFortuneTask(userId, {
+    category,
+    content,
+    date: todayIn(timezone),
+    promptVersion: prompt.version,
+  });
+  return { task, similarToRecent: similar };
+}
+
+function weightedPick(items: FortuneLibraryRow[]): FortuneLibraryRow {
+  const total = items.reduce((sum, item) => sum + Math.max(item.weight, 0), 0);
+  if (total <= 0) return items[Math.floor(Math.random() * items.length)];
+  let roll = Math.random() * total;
+  for (const item of items) {
+    roll -= Math.max(item.weight, 0);
+    if (roll < 0) return item;
+  }
+  return items[items.length - 1];
+}
+
+/**
+ * 从离线任务库抽取并保存一条任务：只在该板块启用的条目中按 weight 加权随机，
+ * 跳过近期已抽到过的条目以及与近期任务（含 AI 生成的）相似的条目；全部被排除时退回整个板块
+ * 板块内没有可用条目时返回 undefined
+ */
+export function pickOfflineFortune(
+  userId: number,
+  category: FortuneCategory,
+  timezone: string,
+  difficulty?: FortuneDifficulty
+): GeneratedFortune | undefined {
+  const pool = listFortuneLibrary({ category, difficulty, enabled: true });
+  if (!pool.length) return undefined;
+
+  const since = new Date(Date.now() - config.fortune.recentDays * DAY_MS).toISOString();
+  const recent = listRecentFortuneTasks(userId, since, RECENT_SCAN_LIMIT);
+  const usedIds = new Set(recent.map((r) => r.library_id).filter((id): id is number => id !== null));
+  const recentTexts = recent.filter((r) => r.category === category).map((r) => r.content);
+  const fresh = pool.filter((item) => {
+    if (usedIds.has(item.id)) return false;
+    const match = mostSimilar(item.content, recentTexts);
+    return !match || match.score < config.fortune.similarityThreshold;
+  });
+
+  const item = weightedPick(fresh.length ? fresh : pool);
+  const task = insertFortuneTask(userId, {
+    category,
+    content: item.content,
+    date: todayIn(timezone),
+    promptVersion: null,
+    source: 'offline',
+    libraryId: item.id,
+  });
+  return { task, similarToRecent: !fresh.length };
+}
+
+export interface FortuneCategoryStats {
+  /** 与丰容板块（enrichment_data）的 id 一致 */
+  id: FortuneCategory;
+  name: string;
+  generated: number;
+  accepted: number;
+  completed: number;
+  skipped: number;
+  /** 完成数 / 已处理数（完成 + 跳过）；没有已处理的任务时为 null */
+  completionRate: number | null;
+  lastCompletedAt: string | null;
+}
+
+/** 按板块的任务统计，所有板块都会列出（没有任务的为 0） */
+export function getFortuneStats(userId: number, from?: string, to?: string): FortuneCategoryStats[] {
+  const counts = new Map(countFortuneTasksByCategory(userId, from, to).map((r) => [r.category, r]));
+  return FORTUNE_CATEGORIES.map((id) => {
+    const c = counts.get(id);
+    const completed = c?.completed ?? 0;
+    const skipped = c?.skipped ?? 0;
+    const handled = completed + skipped;
+    return {
+      id,
+      name: FORTUNE_CATEGORY_LABELS[id],
+      generated: c?.generated ?? 0,
+      accepted: c?.accepted ?? 0,
+      completed,
+      skipped,
+      completionRate: handled ? Math.round((completed / handled) * 100) / 100 : null,
+      lastCompletedAt: c?.last_completed_at ?? null,
+    };
+  });
+}
+
+export function toFortuneTaskDto(row: FortuneTaskRow) {
+  return {
+    id: row.id,
+    category: row.category,
+    content: row.content,
+    date: row.date,
+    status: row.status,
+    source: row.source,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at,
+  };
+}
+
+export function toFortuneLibraryDto(row: FortuneLibraryRow) {
+  return {
+    id: row.id,
+    category: row.category,
+    content: row.content,
+    tags: JSON.parse(row.tags) as string[],
+    difficulty: row.difficulty,
+    weight: row.weight,
+    enabled: !!row.enabled,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
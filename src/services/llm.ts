@@ -0,0 +1,374 @@
+// 大模型调用层：按部署配置（可选按用户设置）选择 provider，并为每个 AI 接口套用各自的模型参数
+import axios from 'axios';
+import { StringDecoder } from 'string_decoder';
+import { config } from '../config';
+import { getStoredApiKey } from './vault';
+import { getUserSettings } from './settings';
+import { createLogger, errorFields } from './logger';
+import { llmRequestsTotal, llmRequestDuration, secondsSince } from './metrics';
+
+const log = createLogger('llm');
+
+export type LlmTask = 'daily' | 'diary' | 'counselorDiary' | 'longTerm' | 'goalSplit' | 'fortune';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmCallOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  timeoutMs?: number;
+}
+
+export interface LlmRequest extends LlmCallOptions {
+  task: LlmTask;
+  apiKey: string;
+  messages: ChatMessage[];
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  name: string;
+  /** 为 false 时无需用户提供 apiKey（如 mock、无鉴权的自建模型） */
+  requiresApiKey: boolean;
+  chat(request: LlmRequest): Promise<string>;
+  /** 流式输出：每收到一段文本调用 onDelta，结束后返回完整文本；未实现时退化为一次性输出 */
+  stream?(request: LlmRequest, onDelta: (text: string) => void): Promise<string>;
+}
+
+/** 已确定 provider 与密钥的调用上下文，由 resolveLlmClient 生成 */
+export interface LlmClient {
+  provider: LlmProvider;
+  apiKey: string;
+}
+
+// 各接口默认参数：与拆分 provider 之前的调用保持一致（temperature 统一 0.7，长文接口的超时更长）
+// 按接口调参请用 LLM_TASK_OPTIONS 覆盖
+const DEFAULT_TEMPERATURE = 0.7;
+const TASK_DEFAULTS: Record<LlmTask, LlmCallOptions> = {
+  daily: { temperature: DEFAULT_TEMPERATURE, timeoutMs: 30_000 },
+  diary: { temperature: DEFAULT_TEMPERATURE, timeoutMs: 30_000 },
+  counselorDiary: { temperature: DEFAULT_TEMPERATURE, timeoutMs: 60_000 },
+  longTerm: { temperature: DEFAULT_TEMPERATURE, timeoutMs: 45_000 },
+  goalSplit: { temperature: DEFAULT_TEMPERATURE, timeoutMs: 30_000 },
+  fortune: { temperature: DEFAULT_TEMPERATURE, timeoutMs: 30_000 },
+};
+
+interface ChatChoice {
+  message?: { content?: string };
+}
+
+interface ChatStreamChunk {
+  choices?: Array<{ delta?: { content?: string } }>;
+}
+
+/** OpenAI 兼容的 /chat/completions（DeepSeek、各类兼容网关、自建模型均可） */
+function createOpenAiCompatibleProvider(
+  name: string,
+  baseUrl: string,
+  defaultModel: string,
+  requiresApiKey: boolean
+): LlmProvider {
+  return {
+    name,
+    requiresApiKey,
+    async chat(request) {
+      const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (request.apiKey) headers.Authorization = `Bearer ${request.apiKey}`;
+
+      const { data } = await axios.post<{
+        choices?: ChatChoice[];
+      }>(
+        url,
+        {
+          model: request.model || defaultModel,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          top_p: request.topP,
+        },
+        {
+          headers,
+          timeout: request.timeoutMs,
+          signal: request.signal,
+        }
+      );
+
+      const content = data.choices?.[0]?.message?.content?.toString().trim() ?? '';
+      if (!content) {
+        throw new Error(`${name} 返回内容为空`);
+      }
+      return content;
+    },
+    async stream(request, onDelta) {
+      const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (request.apiKey) headers.Authorization = `Bearer ${request.apiKey}`;
+
+      const response = await axios.post<NodeJS.ReadableStream>(
+        url,
+        {
+          model: request.model || defaultModel,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          top_p: request.topP,
+          stream: true,
+        },
+        {
+          headers,
+          timeout: request.timeoutMs,
+          signal: request.signal,
+          responseType: 'stream',
+        }
+      );
+
+      // SSE 逐行解析：data: {...}，以 data: [DONE] 结束；用 StringDecoder 避免中文被拆在两个 chunk 之间
+      const decoder = new StringDecoder('utf8');
+      let buffer = '';
+      let full = '';
+      const handleLine = (line: string) => {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) return;
+        const payload = trimmed.slice(5).trim();
+        if (!payload || payload === '[DONE]') return;
+        const chunk = JSON.parse(payload) as ChatStreamChunk;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          full += delta;
+          onDelta(delta);
+        }
+      };
+      for await (const chunk of response.data) {
+        buffer += decoder.write(chunk as Buffer);
+        let idx: number;
+        while ((idx = buffer.indexOf('\n')) >= 0) {
+          handleLine(buffer.slice(0, idx));
+          buffer = buffer.slice(idx + 1);
+        }
+      }
+      handleLine(buffer + decoder.end());
+
+      const content = full.trim();
+      if (!content) {
+        throw new Error(`${name} 返回内容为空`);
+      }
+      return content;
+    },
+  };
+}
+
+// 离线 mock：按任务返回固定结构的内容，便于在无网络环境下联调与测试 /api/analysis/* 等接口
+const MOCK_FORTUNES = [
+  '把书桌上的一样小物换个位置，给自己一点新鲜感',
+  '光脚在地毯上走一走，感受脚底的触感',
+  '给一位很久没联系的朋友发一句问候',
+  '花 10 分钟看一篇从没接触过的领域的入门文章',
+  '换一种没用过的护手霜，认真闻一闻它的味道',
+  '今天点一道以前从没点过的菜',
+  '睡前写下今天一件让你开心的小事',
+];
+
+function hashText(text: string): number {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) >>> 0;
+  return h;
+}
+
+const MOCK_OUTPUTS: Record<LlmTask, (userContent: string) => string> = {
+  daily: () => '（mock）今天的你经历了起起伏伏，但依然认真记录下了每一份情绪。给自己一个拥抱，早点休息吧。',
+  diary: () =>
+    JSON.stringify({
+      diary: '（mock）今天的你，从清晨开始就在努力照顾自己的情绪。那些小小的烦恼被你一条条写下，也被你温柔地放下。',
+      keyPoints: '记录情绪、照顾自己、早点休息',
+      insights: '你已经在用记录的方式和自己对话，这本身就是很好的开始。',
+    }),
+  counselorDiary: () =>
+    '（mock）回看你这段时间的记录，能感受到你一直在努力理解自己。你在忙碌中仍愿意停下来记录感受，这份觉察是非常珍贵的力量。',
+  longTerm: () =>
+    JSON.stringify({
+      summary: { timeRange: '近期（mock）', keyPoints: ['坚持记录情绪', '注意作息节奏', '多和朋友联系'] },
+      psychologicalInsight: {
+        letter: '（mock）**你正处在一个自我整理的阶段**。\n1. 你持续记录，说明你在认真对待自己的感受。\n2. 适当休息，给自己留白。',
+        themes: ['自我觉察', '节奏'],
+      },
+      lifeAdvice: {
+        adviceBlocks: [{ title: '身体与自我照顾', content: '1. 固定入睡时间\n2. 每天散步 10 分钟', tags: ['睡眠', '休息'] }],
+      },
+      metrics: {
+        emotionTrend: [{ label: '03-03 周', score: 0.1 }, { label: '03-10 周', score: 0.3 }],
+        lifeRadar: { workStudy: 0.5, relationship: 0.4, selfCare: 0.6, play: 0.3, growth: 0.5 },
+      },
+    }),
+  goalSplit: () => '明确想达到的具体结果\n列出需要准备的东西\n完成第一个最小的行动\n每天推进一点并记录\n回顾并调整计划\n（进阶）把经验分享给朋友',
+  fortune: (userContent) => MOCK_FORTUNES[hashText(userContent) % MOCK_FORTUNES.length],
+};
+
+const mockProvider: LlmProvider = {
+  name: 'mock',
+  requiresApiKey: false,
+  async chat(request) {
+    const userContent = request.messages.filter((m) => m.role === 'user').map((m) => m.content).join('\n');
+    return MOCK_OUTPUTS[request.task](userContent);
+  },
+  async stream(request, onDelta) {
+    const content = await this.chat(request);
+    // 按固定长度切片输出，模拟逐段到达
+    for (let i = 0; i < content.length; i += 16) {
+      if (request.signal?.aborted) throw new Error('请求已取消');
+      onDelta(content.slice(i, i + 16));
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    return content;
+  },
+};
+
+const PROVIDERS: Record<string, LlmProvider> = {
+  deepseek: createOpenAiCompatibleProvider(
+    'deepseek',
+    config.llm.deepseekBaseUrl,
+    config.llm.deepseekModel,
+    true
+  ),
+  openai: createOpenAiCompatibleProvider(
+    'openai',
+    config.llm.openaiBaseUrl,
+    config.llm.openaiModel,
+    config.llm.openaiRequireApiKey
+  ),
+  mock: mockProvider,
+};
+
+export const LLM_PROVIDER_NAMES = Object.keys(PROVIDERS);
+
+// 启动时校验部署配置，避免到第一次调用才发现 provider 写错
+if (!PROVIDERS[config.llm.provider]) {
+  throw new Error(`[config] 未知的 LLM_PROVIDER: ${config.llm.provider}（可选 ${LLM_PROVIDER_NAMES.join(' / ')}）`);
+}
+
+export function getLlmProvider(name: string): LlmProvider | undefined {
+  return PROVIDERS[name];
+}
+
+/** 部署默认 provider；登录用户可在设置 aiProvider 中选择白名单内的其他 provider */
+function resolveProviderName(userId?: number): string {
+  if (userId) {
+    const { aiProvider } = getUserSettings(userId);
+    if (aiProvider && config.llm.userSelectableProviders.includes(aiProvider) && PROVIDERS[aiProvider]) {
+      return aiProvider;
+    }
+  }
+  return config.llm.provider;
+}
+
+/**
+ * 确定本次调用使用的 provider 与密钥：请求体里的 apiKey 优先，其次是用户托管在服务端的密钥
+ * provider 需要密钥却拿不到时返回 undefined
+ */
+export function resolveLlmClient(userId: number | undefined, bodyApiKey: unknown): LlmClient | undefined {
+  const provider = PROVIDERS[resolveProviderName(userId)];
+  const apiKey =
+    typeof bodyApiKey === 'string' && bodyApiKey.trim()
+      ? bodyApiKey.trim()
+      : userId
+        ? getStoredApiKey(userId, provider.name)
+        : undefined;
+  if (!apiKey && provider.requiresApiKey) return undefined;
+  return { provider, apiKey: apiKey ?? '' };
+}
+
+/** 任务参数：代码默认值 < LLM_TASK_OPTIONS 中的部署配置 < 调用方显式传入 */
+export function getTaskOptions(task: LlmTask, overrides?: LlmCallOptions): LlmCallOptions {
+  return {
+    ...TASK_DEFAULTS[task],
+    ...(config.llm.taskOptions[task] ?? {}),
+    ...(overrides ?? {}),
+  };
+}
+
+/** 记录一次调用的耗时与结果；失败时只记录上游状态码与截断的响应体，不含提示词与用户内容 */
+async function observeLlmCall(
+  client: LlmClient,
+  request: LlmRequest,
+  stream: boolean,
+  call: () => Promise<string>
+): Promise<string> {
+  const labels = { provider: client.provider.name, task: request.task };
+  const start = process.hrtime.bigint();
+  try {
+    const content = await call();
+    const seconds = secondsSince(start);
+    llmRequestsTotal.inc({ ...labels, outcome: 'ok' });
+    llmRequestDuration.observe(labels, seconds);
+    log.info('大模型调用完成', { ...labels, stream, model: request.model, durationMs: Math.round(seconds * 1000) });
+    return content;
+  } catch (error) {
+    const seconds = secondsSince(start);
+    const outcome = request.signal?.aborted ? 'aborted' : 'error';
+    llmRequestsTotal.inc({ ...labels, outcome });
+    llmRequestDuration.observe(labels, seconds);
+    log.warn('大模型调用失败', {
+      ...labels,
+      stream,
+      outcome,
+      model: request.model,
+      durationMs: Math.round(seconds * 1000),
+      ...errorFields(error),
+    });
+    throw error;
+  }
+}
+
+export async function callLlm(
+  client: LlmClient,
+  task: LlmTask,
+  systemPrompt: string,
+  userContent: string,
+  overrides?: LlmCallOptions
+): Promise<string> {
+  const request: LlmRequest = {
+    ...getTaskOptions(task, overrides),
+    task,
+    apiKey: client.apiKey,
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userContent },
+    ],
+  };
+  return observeLlmCall(client, request, false, () => client.provider.chat(request));
+}
+
+/** 流式调用；provider 不支持流式时整段输出一次 */
+export async function callLlmStream(
+  client: LlmClient,
+  task: LlmTask,
+  systemPrompt: string,
+  userContent: string,
+  onDelta: (text: string) => void,
+  signal?: AbortSignal,
+  overrides?: LlmCallOptions
+): Promise<string> {
+  const request: LlmRequest = {
+    ...getTaskOptions(task, overrides),
+    task,
+    apiKey: client.apiKey,
+    signal,
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userContent },
+    ],
+  };
+  return observeLlmCall(client, request, true, async () => {
+    if (client.provider.stream) {
+      return client.provider.stream(request, onDelta);
+    }
+    const content = await client.provider.chat(request);
+    onDelta(content);
+    return content;
+  });
+}
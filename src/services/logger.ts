@@ -0,0 +1,116 @@
+// 结构化日志：每行一条 JSON（time/level/module/msg/requestId + 附加字段），写入前统一脱敏
+// requestId 来自 AsyncLocalStorage，请求内任何位置打的日志都能与访问日志关联
+import { AsyncLocalStorage } from 'async_hooks';
+import { config, takeConfigWarnings } from '../config';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const MIN_LEVEL = LEVEL_ORDER[config.log.level as LogLevel] ?? LEVEL_ORDER.info;
+
+export interface RequestContext {
+  requestId: string;
+}
+
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+// 键名命中即整体替换；手机号键保留前三后四位
+// token 只匹配结尾（token、refreshToken、x-admin-token），避免误伤 maxTokens 之类的字段
+const SECRET_KEY_RE = /api[-_]?key|token$|secret|password|authorization|session[-_]?key|ciphertext/i;
+const PHONE_KEY_RE = /phone/i;
+// 字符串中夹带的敏感内容：手机号、Bearer 令牌、sk- 开头的密钥
+const PHONE_RE = /(?<!\d)(1[3-9]\d)\d{4}(\d{4})(?!\d)/g;
+const BEARER_RE = /Bearer\s+[\w.~+/=-]+/gi;
+const SECRET_KEY_VALUE_RE = /\bsk-[\w-]{8,}/g;
+const REDACTED = '[REDACTED]';
+const MAX_STRING_LENGTH = 2000;
+const MAX_DEPTH = 6;
+
+function redactString(value: string): string {
+  const text = value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}…(${value.length})` : value;
+  return text
+    .replace(BEARER_RE, `Bearer ${REDACTED}`)
+    .replace(SECRET_KEY_VALUE_RE, `sk-${REDACTED}`)
+    .replace(PHONE_RE, '$1****$2');
+}
+
+/** 递归脱敏（返回新对象，不修改入参）；Error 转为 name/message/stack */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message), stack: value.stack && redactString(value.stack) };
+  }
+  if (Array.isArray(value)) return value.map((v) => redact(v, depth + 1));
+  const out: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (SECRET_KEY_RE.test(key)) out[key] = v === undefined || v === null || v === '' ? v : REDACTED;
+    else if (PHONE_KEY_RE.test(key) && typeof v === 'string') {
+      const masked = v.replace(PHONE_RE, '$1****$2');
+      out[key] = masked === v && v ? REDACTED : masked;
+    } else out[key] = redact(v, depth + 1);
+  }
+  return out;
+}
+
+/**
+ * 把异常整理成日志字段：上游 HTTP 错误（axios）只记录状态码与截断后的响应体，不输出请求头与请求体
+ * 其余异常附带 stack
+ */
+export function errorFields(error: unknown): Record<string, unknown> {
+  if (!(error instanceof Error)) return { error: String(error) };
+  const fields: Record<string, unknown> = { error: error.message, errorName: error.name };
+  const response = (error as { response?: { status?: number; data?: unknown } }).response;
+  if (response) {
+    fields.upstreamStatus = response.status;
+    const data = response.data as { pipe?: unknown } | string | undefined;
+    // 流式请求的响应体是 stream，无法直接输出
+    if (data !== undefined && !(typeof data === 'object' && data && typeof data.pipe === 'function')) {
+      fields.upstreamBody = typeof data === 'string' ? data.slice(0, 500) : JSON.stringify(data).slice(0, 500);
+    }
+  } else if ((error as { code?: string }).code) {
+    fields.errorCode = (error as { code?: string }).code;
+  } else {
+    fields.stack = error.stack;
+  }
+  return fields;
+}
+
+function write(level: LogLevel, module: string, msg: string, fields?: Record<string, unknown>): void {
+  if (LEVEL_ORDER[level] < MIN_LEVEL) return;
+  const line = {
+    time: new Date().toISOString(),
+    level,
+    module,
+    msg,
+    requestId: currentRequestId(),
+    ...(fields ? (redact(fields) as Record<string, unknown>) : {}),
+  };
+  process.stdout.write(`${JSON.stringify(line)}\n`);
+}
+
+export interface Logger {
+  debug(msg: string, fields?: Record<string, unknown>): void;
+  info(msg: string, fields?: Record<string, unknown>): void;
+  warn(msg: string, fields?: Record<string, unknown>): void;
+  error(msg: string, fields?: Record<string, unknown>): void;
+}
+
+/** 按模块创建日志器，如 createLogger('vip')；日志行的 module 字段即为该名称 */
+export function createLogger(module: string): Logger {
+  return {
+    debug: (msg, fields) => write('debug', module, msg, fields),
+    info: (msg, fields) => write('info', module, msg, fields),
+    warn: (msg, fields) => write('warn', module, msg, fields),
+    error: (msg, fields) => write('error', module, msg, fields),
+  };
+}
+
+const configLog = createLogger('config');
+for (const { msg, fields } of takeConfigWarnings()) configLog.warn(msg, fields);
@@ -0,0 +1,125 @@
+// 运行指标：进程内计数器与直方图，GET /metrics 以 Prometheus 文本格式输出
+// 标签取值需有限（路由模板而非实际路径），避免时间序列数量失控
+
+type Labels = Record<string, string>;
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+// 大模型调用通常要数秒到数十秒
+const LLM_BUCKETS = [0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(names: readonly string[], values: string[], extra = ''): string {
+  const parts = names.map((n, i) => `${n}="${escapeLabel(values[i])}"`);
+  if (extra) parts.push(extra);
+  return parts.length ? `{${parts.join(',')}}` : '';
+}
+
+class Counter {
+  private readonly values = new Map<string, { labels: string[]; value: number }>();
+
+  constructor(readonly name: string, readonly help: string, readonly labelNames: readonly string[]) {}
+
+  inc(labels: Labels, value = 1): void {
+    const values = this.labelNames.map((n) => labels[n] ?? '');
+    const key = values.join('\u0001');
+    const entry = this.values.get(key);
+    if (entry) entry.value += value;
+    else this.values.set(key, { labels: values, value });
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(this.labelNames, labels)} ${value}`);
+    }
+    return lines;
+  }
+}
+
+class Histogram {
+  private readonly values = new Map<string, { labels: string[]; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[],
+    readonly buckets: number[] = DEFAULT_BUCKETS
+  ) {}
+
+  observe(labels: Labels, seconds: number): void {
+    const values = this.labelNames.map((n) => labels[n] ?? '');
+    const key = values.join('\u0001');
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels: values, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, entry);
+    }
+    this.buckets.forEach((b, i) => {
+      if (seconds <= b) entry!.counts[i] += 1;
+    });
+    entry.sum += seconds;
+    entry.count += 1;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((b, i) => {
+        lines.push(`${this.name}_bucket${formatLabels(this.labelNames, labels, `le="${b}"`)} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels(this.labelNames, labels, 'le="+Inf"')} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(this.labelNames, labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(this.labelNames, labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+export const httpRequestsTotal = new Counter('http_requests_total', 'HTTP 请求数', ['method', 'route', 'status']);
+export const httpRequestDuration = new Histogram('http_request_duration_seconds', 'HTTP 请求耗时（秒）', [
+  'method',
+  'route',
+]);
+/** outcome: ok | error | aborted（客户端断开导致取消） */
+export const llmRequestsTotal = new Counter('llm_requests_total', '大模型调用次数', ['provider', 'task', 'outcome']);
+export const llmRequestDuration = new Histogram(
+  'llm_request_duration_seconds',
+  '大模型调用耗时（秒，流式为完整输出的耗时）',
+  ['provider', 'task'],
+  LLM_BUCKETS
+);
+/** outcome: ok | wx_error（接口返回 errcode） | error（网络或 HTTP 错误） */
+export const wechatRequestsTotal = new Counter('wechat_api_requests_total', '微信接口调用次数', ['api', 'outcome']);
+export const wechatRequestDuration = new Histogram('wechat_api_request_duration_seconds', '微信接口调用耗时（秒）', [
+  'api',
+]);
+
+const METRICS = [
+  httpRequestsTotal,
+  httpRequestDuration,
+  llmRequestsTotal,
+  llmRequestDuration,
+  wechatRequestsTotal,
+  wechatRequestDuration,
+];
+
+/** 从 process.hrtime.bigint() 记录的起点到现在的秒数 */
+export function secondsSince(start: bigint): number {
+  return Number(process.hrtime.bigint() - start) / 1e9;
+}
+
+/** Prometheus 文本格式（text/plain; version=0.0.4） */
+export function renderMetrics(): string {
+  const memory = process.memoryUsage();
+  const gauges = [
+    ['process_uptime_seconds', '进程运行时长（秒）', process.uptime()],
+    ['process_resident_memory_bytes', '常驻内存（字节）', memory.rss],
+    ['nodejs_heap_used_bytes', 'V8 堆已用（字节）', memory.heapUsed],
+  ] as const;
+  const lines = gauges.flatMap(([name, help, value]) => [`# HELP ${name} ${help}`, `# TYPE ${name} gauge`, `${name} ${value}`]);
+  for (const metric of METRICS) lines.push(...metric.render());
+  return `${lines.join('\n')}\n`;
+}
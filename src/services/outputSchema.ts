@@ -0,0 +1,126 @@
+// 大模型结构化输出的 schema：声明字段类型与取值范围，校验时收集问题，定稿时用默认值补齐不合格的字段
+
+export type OutputSchema =
+  | { type: 'string'; minLength?: number; maxLength?: number; default: string }
+  | { type: 'number'; min: number; max: number; default: number }
+  | { type: 'array'; items: OutputSchema; minItems?: number; maxItems?: number }
+  | { type: 'object'; properties: Record<string, OutputSchema> };
+
+export interface OutputIssue {
+  /** 字段路径，如 summary.keyPoints[2] */
+  path: string;
+  message: string;
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * 按 schema 整理取值：能安全纠正的直接纠正（数字字符串转数字），其余问题记入 issues 并替换为默认值
+ * 超长字符串截断、超出范围的数字截到边界、多余的数组项丢弃，这些同样记为问题
+ * 对象只保留声明过的字段
+ */
+export function conformOutput(schema: OutputSchema, value: unknown, issues: OutputIssue[], path = ''): unknown {
+  const fail = (message: string) => issues.push({ path: path || '(root)', message });
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        fail(value === undefined || value === null ? '缺少该字段' : '应为字符串');
+        return schema.default;
+      }
+      const text = value.trim();
+      if (schema.minLength !== undefined && text.length < schema.minLength) {
+        fail(schema.minLength === 1 ? '不能为空' : `长度不能少于 ${schema.minLength}`);
+        return schema.default;
+      }
+      if (schema.maxLength !== undefined && text.length > schema.maxLength) {
+        fail(`长度不能超过 ${schema.maxLength}`);
+        return text.slice(0, schema.maxLength);
+      }
+      return text;
+    }
+    case 'number': {
+      const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof num !== 'number' || !Number.isFinite(num)) {
+        fail(value === undefined || value === null ? '缺少该字段' : '应为数字');
+        return schema.default;
+      }
+      if (num < schema.min || num > schema.max) {
+        fail(`应在 ${schema.min}～${schema.max} 之间`);
+        return Math.min(schema.max, Math.max(schema.min, num));
+      }
+      return num;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        fail(value === undefined || value === null ? '缺少该字段' : '应为数组');
+        return [];
+      }
+      let items = value;
+      if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+        fail(`最多 ${schema.maxItems} 项`);
+        items = items.slice(0, schema.maxItems);
+      }
+      const out = items.map((item, idx) => conformOutput(schema.items, item, issues, joinPath(path, idx)));
+      if (schema.minItems !== undefined && out.length < schema.minItems) {
+        fail(`至少 ${schema.minItems} 项`);
+      }
+      return out;
+    }
+    case 'object': {
+      if (!isPlainObject(value)) {
+        if (value !== undefined && value !== null) fail('应为对象');
+      }
+      const source = isPlainObject(value) ? value : {};
+      const out: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(schema.properties)) {
+        out[key] = conformOutput(child, source[key], issues, joinPath(path, key));
+      }
+      return out;
+    }
+  }
+}
+
+/** 生成给模型看的结构说明，如 {"keyPoints":["string(1～40 字)"]}，用于修复提示词 */
+export function describeSchema(schema: OutputSchema): unknown {
+  switch (schema.type) {
+    case 'string': {
+      const min = schema.minLength ?? 0;
+      if (schema.maxLength !== undefined) return `string(${min}～${schema.maxLength} 字)`;
+      return min > 0 ? 'string(非空)' : 'string';
+    }
+    case 'number':
+      return `number(${schema.min}～${schema.max})`;
+    case 'array': {
+      // 第二项用来说明数量范围，如 ["string", "...共 1～6 项"]
+      if (schema.minItems === undefined && schema.maxItems === undefined) return [describeSchema(schema.items)];
+      return [describeSchema(schema.items), `...共 ${schema.minItems ?? 0}～${schema.maxItems ?? '不限'} 项`];
+    }
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, describeSchema(v)]));
+  }
+}
+
+/**
+ * 从模型原始输出中取出 JSON 对象：兼容 ```json 代码块与前后夹带的说明文字
+ * 解析失败返回 undefined
+ */
+export function extractJsonObject(raw: string): Record<string, unknown> | undefined {
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const text = fenced ? fenced[1] : raw;
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end <= start) return undefined;
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1));
+    return isPlainObject(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,287 @@
+// 提示词模板：代码内置默认内容，管理员可在数据库中新增版本并切换启用版本，无需重新部署
+// 模板内容支持 {{变量}}，渲染时由服务端填入；部分模板允许用户保存自己的覆盖内容
+import {
+  getActivePromptState,
+  getPromptVersion,
+  getUserPromptOverride,
+} from '../db';
+import { todayIn } from './stats';
+
+export const FORTUNE_CATEGORIES = ['physical', 'touch', 'social', 'cognitive', 'sensory', 'food', 'selfCare'] as const;
+export type FortuneCategory = (typeof FORTUNE_CATEGORIES)[number];
+
+export type PromptKey =
+  | 'daily'
+  | 'diary'
+  | 'diary.format'
+  | 'counselorDiary'
+  | 'longTerm'
+  | 'override.safety'
+  | 'goalSplit'
+  | `fortune.${FortuneCategory}`;
+
+/** 内容安全要求，作为 {{safetyRules}} 变量填入，不随模板版本变化 */
+const SAFETY_RULES =
+  '不得生成或传播血腥、暴力、色情等不良内容，不得描述任何伤害自己的方式。' +
+  '若用户流露出轻生、自伤或绝望的念头，不要略过，请温和地承认 ta 的痛苦，并鼓励 ta 联系身边信任的人或专业心理援助热线。';
+
+const DAILY_PROMPT =
+  '你是「情绪饼干屋」的小程序助手，请根据用户今天记录的多条情绪碎片，给出一段温柔、具体的中文情绪总结和一点小建议，语气轻松，不超过 200 字。';
+
+const DIARY_DEFAULT_PROMPT =
+  '你是一位温柔的日记记录者。用户会提供 ta 一天中的想法和笔记。请像一位旁观者，在看过 ta 的一天之后，用**第二人称「你」**为 ta 写一份日记。\n\n' +
+  '要求：\n' +
+  '1. **diary（完整日记）**：语气柔和、感情细腻真实，注重剖析内心世界。以「你」为主语，像外面的人客观地回看 ta 的一天，温柔地描述 ta 做了什么、想了什么、感受到了什么。不改变原意，但可以梳理逻辑、提升表达。**全文不超过 600 字**。\n\n' +
+  '2. **keyPoints（关键要点）**：简要总结这一天的主要脉络。\n\n' +
+  '3. **insights（洞察与建议）**：基于日记，像一位温和的心理师或人生导师，给出客观的洞察、鼓励或建议。\n\n' +
+  '请**严格**用 JSON 格式返回，只输出一个 JSON 对象，不要其他文字。格式示例：\n' +
+  '{"diary":"完整日记正文","keyPoints":"要点1、要点2、要点3","insights":"洞察与建议内容"}' +
+  '\n\n**重要**：{{safetyRules}}';
+
+// 用户覆盖日记指令时追加在后面，保证输出结构与安全要求不被覆盖掉
+const DIARY_FORMAT_PROMPT =
+  '请**严格**用 JSON 格式返回，只输出一个 JSON 对象，不要其他文字。格式示例：\n' +
+  '{"diary":"完整日记正文","keyPoints":"要点1、要点2、要点3","insights":"洞察与建议内容"}' +
+  '\n\n**重要**：{{safetyRules}}';
+
+const COUNSELOR_DIARY_PROMPT =
+  '你是一位专业的心理咨询师。用户会提供 ta 多日以来的想法、笔记和记录。请根据这些数据，从最初的记录开始，以心理咨询师的视角为用户写一份深度心理日记。\n\n' +
+  '要求：\n' +
+  '1. 叙事完整，感情细腻真实，注重剖析内心世界。\n' +
+  '2. 尽量串联完整对话与记录，形成连贯的心理脉络。\n' +
+  '3. 直接呈现日记内容，以第二人称「你」或第一人称均可。\n' +
+  '4. 字数约 1500 字左右。\n' +
+  '5. {{safetyRules}}';
+
+const LONG_TERM_PROMPT =
+  '你是「情绪饼干屋」的长期分析助手，也是温柔的心理咨询师/人生导师。\n' +
+  '系统会把用户一段时间内的**日记碎片、AI 日记分析、丰容板块记录、技能树信息**整理成 JSON 给你，' +
+  '其中 stats 是系统据实统计好的数字（记录条数、按类型/周/月分布、连续记录天数、时段分布、丰容与技能统计）。\n' +
+  '请你基于这些数据，给出一份**一语中的**的整体人生方向与建议报告（不要复述具体日记），侧重：\n' +
+  '1）最近一段时间的关键生活要点（主次分明、按重要性排序）；\n' +
+  '2）从心理与人生视角，对用户当前阶段的「模式/困惑/优势」做提炼与点评；\n' +
+  '3）分主题、可执行的行动建议；\n' +
+  '4）给出情绪趋势与生活维度雷达两项评估指标。\n\n' +
+  '**重要风格要求**：\n' +
+  '- 全篇**一语中的**：直接说结论和建议，不绕弯、不流水账、不讲故事；\n' +
+  '- **有分点**：用 1、2、3 或短横线分点，条理清晰；\n' +
+  '- **关键处用加粗**：在 letter 中，重要结论、核心建议用 **粗体** 标出（用两个星号包裹，例如 **这是重点**）；\n' +
+  '- 整份报告（含 letter）总字数控制在**约 1000 字**；\n' +
+  '- 语气温柔、具体，多用第二人称「你」；\n' +
+  '- 不得生成或传播血腥、暴力、色情等不良内容，不得描述任何伤害自己的方式；用户流露出轻生、自伤念头时要温和回应并建议寻求专业帮助。\n\n' +
+  '**字段内容要求**：\n' +
+  '- summary.keyPoints：3～6 条中文要点，按重要性从高到低排序，每条不超过 40 字；\n' +
+  '- psychologicalInsight.letter：主报告正文，**约 800～1000 字**。要求：分段、分点（1 2 3 或 •），关键句用 **...** 加粗；内容聚焦「你最近在经历什么阶段」「你展现出的力量」「可能需要注意的模式」及可执行建议；\n' +
+  '- psychologicalInsight.themes：2～4 个核心主题词；\n' +
+  '- lifeAdvice.adviceBlocks[*].content：每个主题下 2～4 条简洁建议，可分点；\n' +
+  '- 涉及数量时只引用 stats 中的数字，**不要自行编造或估算**；\n' +
+  '- metrics.emotionTrend：按 stats.weekly 的周次逐周给出，label 用「MM-DD 周」（MM-DD 取 weekStart），score 为你依据该周记录内容对情绪的评估（-1～1），没有记录的周省略；\n' +
+  '- 丰容与技能的数量统计由系统直接填入结果，你无需输出。\n\n' +
+  '请严格按以下 JSON 结构返回（不要多余文字）：\n' +
+  '{\n' +
+  '  "summary": {\n' +
+  '    "timeRange": "近 90 天或你认为合适的描述",\n' +
+  '    "keyPoints": ["要点1", "要点2", "要点3"]\n' +
+  '  },\n' +
+  '  "psychologicalInsight": {\n' +
+  '    "letter": "约1000字的主报告，分点、关键句用**粗体**",\n' +
+  '    "themes": ["主题1", "主题2"]\n' +
+  '  },\n' +
+  '  "lifeAdvice": {\n' +
+  '    "adviceBlocks": [\n' +
+  '      { "title": "工作与学习", "content": "具体建议", "tags": ["节奏","边界"] },\n' +
+  '      { "title": "身体与自我照顾", "content": "具体建议", "tags": ["睡眠","休息"] }\n' +
+  '    ]\n' +
+  '  },\n' +
+  '  "metrics": {\n' +
+  '    "emotionTrend": [ { "label": "03-03 周", "score": 0.2 }, { "label": "03-10 周", "score": -0.1 } ],\n' +
+  '    "lifeRadar": {\n' +
+  '      "workStudy": 0.0,\n' +
+  '      "relationship": 0.0,\n' +
+  '      "selfCare": 0.0,\n' +
+  '      "play": 0.0,\n' +
+  '      "growth": 0.0\n' +
+  '    }\n' +
+  '  }\n' +
+  '}\n' +
+  '\n\n**重要**：{{safetyRules}}';
+
+// 用户覆盖每日分析、心理日记指令时追加的安全要求
+const OVERRIDE_SAFETY_PROMPT = '**重要**：{{safetyRules}}';
+
+const GOAL_SPLIT_PROMPT =
+  '你是「情绪饼干屋」里的目标拆解助手。请把用户的目标拆解成「一步一步要看什么、准备什么、做什么」的少量步骤，让人容易达到一个可触及的结果。\n' +
+  '要求：\n' +
+  '1. 主步骤约 4～6 条即可，顺序清晰，每步都可执行、易完成；\n' +
+  '2. 可额外补充 1～2 条更高的可选目标（进阶或延伸）；\n' +
+  '3. 输出为纯文本列表，每行一个步骤，不要序号、不要多余说明。';
+
+// 丰容板块 prompt 配置（低成本、易实践、具体可操作，参考人类丰容指南风格）
+const FORTUNE_PROMPTS: Record<FortuneCategory, string> = {
+  physical:
+    '你是「情绪饼干屋」的丰容助手，风格参考「人类丰容指南：低成本易实践版」。用户选择了「物理环境丰容」。请生成**一条**具体、马上能做、低成本的小任务。参考示例：整理书桌（改变摆件位置让学习区焕然一新）、整理衣柜并把当季搭配挂好、坐地铁/公交去一个从没去过的地方探索、给桌面加一件小物（迷你香薰/小装饰画/多肉盆栽）、买一盆好上手的绿植（如多肉、龟背竹）。要求：只输出1条任务，50字以内，语气亲切，不要序号、不要引号，要像生活中随手可做的小事。',
+  touch:
+    '你是「情绪饼干屋」的丰容助手，风格参考「人类丰容指南：低成本易实践版」。用户选择了「丰富触感」板块。请生成**一条**具体、可执行的小任务。参考示例：光脚踩地毯或榻榻米几分钟、去草地或沙滩走一走、撸猫狗或摸羊毛毯、做一次陶艺/泥塑体验、用不同材质的抱枕或毯子窝一会儿。要求：只输出1条任务，50字以内，语气亲切，不要序号、不要引号，要容易马上做。',
+  social:
+    '你是「情绪饼干屋」的丰容助手，风格参考「人类丰容指南：低成本易实践版」。用户选择了「社会与生物互动丰容」。请生成**一条**具体、可执行的小任务。参考示例：约一个朋友去没去过的咖啡店、给很久没联系的人发一条消息、参加一次线下体验课或活动、去公园/宠物店看看小动物、做一次短时志愿者。要求：只输出1条任务，50字以内，语气亲切，不要序号、不要引号。',
+  cognitive:
+    '你是「情绪饼干屋」的丰容助手，风格参考「人类丰容指南：低成本易实践版」。用户选择了「认知丰容」。请生成**一条**具体、可执行的小任务。参考示例：今天花10分钟学一个小技能或看一集速成课、选一个从没试过的领域看一篇入门文章、玩一局逻辑/策略小游戏、用非惯用手做一件小事（刷牙/拿筷子）。要求：只输出1条任务，50字以内，语气亲切，不要序号、不要引号，要容易上手。',
+  sensory:
+    '你是「情绪饼干屋」的丰容助手，风格参考「人类丰容指南：低成本易实践版」。用户选择了「感官丰容」。请生成**一条**具体、可执行的小任务。参考示例：每周尝试一种从没吃过的新食物或没点过的菜、换一种新味道的香氛/护手霜/身体乳、听一张从没听过的专辑或播客、看一部没看过的类型的短片、去一个没去过的公园或街区走一走。要求：只输出1条任务，50字以内，语气亲切，不要序号、不要引号，要具体到动作或物品。',
+  food:
+    '你是「情绪饼干屋」的丰容助手，风格参考「人类丰容指南：低成本易实践版」。用户选择了「食物丰容」。请生成**一条**具体、可执行的小任务。参考示例：今天点一道以前没点过的菜、买一种从没吃过但想试的零食、自己做一次简单的摆盘、去一家没去过的早餐店/小吃摊、试做一道从没做过的快手菜。要求：只输出1条任务，50字以内，语气亲切，不要序号、不要引号，要马上能做。',
+  selfCare:
+    '你是「情绪饼干屋」的丰容助手，风格参考「人类丰容指南：低成本易实践版」。用户选择了「老己/心理丰容」。请生成**一条**具体、可执行的小任务。参考示例：准备一个「快乐收集本」记下今天一件开心小事、对自己说3句肯定的话或写一张鼓励小纸条贴起来、留10分钟不刷手机只发呆放空、睡前花2分钟简单复盘今天心情、随便写几句碎碎念想到什么写什么。要求：只输出1条任务，50字以内，语气亲切，不要序号、不要引号，要容易坚持。',
+};
+
+export const FORTUNE_CATEGORY_LABELS: Record<FortuneCategory, string> = {
+  physical: '物理环境丰容',
+  touch: '丰富触感',
+  social: '社会与生物互动丰容',
+  cognitive: '认知丰容',
+  sensory: '感官丰容',
+  food: '食物丰容',
+  selfCare: '老己/心理丰容',
+};
+
+export interface PromptVariableDef {
+  description: string;
+  /** 为 true 时模板内容必须包含该变量（如安全要求），保存新版本时校验 */
+  required?: boolean;
+}
+
+export interface PromptTemplateDef {
+  description: string;
+  builtin: string;
+  /** 该模板可用的变量（公共变量之外） */
+  variables?: Record<string, PromptVariableDef>;
+  /** 允许用户保存覆盖内容；使用覆盖内容时在其后追加该模板（输出格式与安全要求） */
+  overrideSuffix?: PromptKey;
+}
+
+/** 所有模板都可使用的变量 */
+const COMMON_VARIABLES: Record<string, PromptVariableDef> = {
+  today: { description: '当天日期 YYYY-MM-DD（按用户时区）' },
+};
+
+const SAFETY_VARIABLE: Record<string, PromptVariableDef> = {
+  safetyRules: { description: '内容安全要求（服务端固定内容）', required: true },
+};
+
+export const PROMPT_TEMPLATES: Record<PromptKey, PromptTemplateDef> = {
+  daily: {
+    description: '每日情绪分析',
+    builtin: DAILY_PROMPT,
+    variables: { safetyRules: { description: SAFETY_VARIABLE.safetyRules.description } },
+    overrideSuffix: 'override.safety',
+  },
+  diary: { description: 'AI 日记', builtin: DIARY_DEFAULT_PROMPT, variables: SAFETY_VARIABLE, overrideSuffix: 'diary.format' },
+  'diary.format': { description: '用户自定义日记指令后追加的输出格式与安全要求', builtin: DIARY_FORMAT_PROMPT, variables: SAFETY_VARIABLE },
+  counselorDiary: {
+    description: '心理咨询师视角的深度心理日记',
+    builtin: COUNSELOR_DIARY_PROMPT,
+    variables: SAFETY_VARIABLE,
+    overrideSuffix: 'override.safety',
+  },
+  longTerm: { description: '长期分析报告', builtin: LONG_TERM_PROMPT, variables: SAFETY_VARIABLE },
+  'override.safety': { description: '用户自定义指令后追加的安全要求', builtin: OVERRIDE_SAFETY_PROMPT, variables: SAFETY_VARIABLE },
+  goalSplit: { description: '目标拆解', builtin: GOAL_SPLIT_PROMPT },
+  ...(Object.fromEntries(
+    FORTUNE_CATEGORIES.map((c) => [
+      `fortune.${c}`,
+      { description: `幸运饼干任务：${FORTUNE_CATEGORY_LABELS[c]}`, builtin: FORTUNE_PROMPTS[c] },
+    ])
+  ) as Record<`fortune.${FortuneCategory}`, PromptTemplateDef>),
+};
+
+export const PROMPT_KEYS = Object.keys(PROMPT_TEMPLATES) as PromptKey[];
+
+/** 允许用户覆盖的模板 */
+export const USER_OVERRIDABLE_KEYS = PROMPT_KEYS.filter((k) => PROMPT_TEMPLATES[k].overrideSuffix);
+
+/** 版本号 0 表示代码内置内容，数据库中的版本从 1 开始 */
+export const BUILTIN_VERSION = 0;
+
+export const PROMPT_MAX_LENGTH = 8000;
+export const USER_OVERRIDE_MAX_LENGTH = 1000;
+
+const VARIABLE_RE = /\{\{\s*([A-Za-z]\w*)\s*\}\}/g;
+
+export function availableVariables(key: PromptKey): Record<string, PromptVariableDef> {
+  return { ...COMMON_VARIABLES, ...(PROMPT_TEMPLATES[key].variables ?? {}) };
+}
+
+/** 校验模板内容：非空、长度、只使用可用变量、包含必需变量；返回错误列表 */
+export function validateTemplateContent(key: PromptKey, content: unknown): string[] {
+  if (typeof content !== 'string' || !content.trim()) return ['content 需为非空字符串'];
+  if (content.length > PROMPT_MAX_LENGTH) return [`content 不能超过 ${PROMPT_MAX_LENGTH} 字`];
+  const variables = availableVariables(key);
+  const used = new Set([...content.matchAll(VARIABLE_RE)].map((m) => m[1]));
+  const errors: string[] = [];
+  for (const name of used) {
+    if (!variables[name]) {
+      errors.push(`未知变量 {{${name}}}，可用：${Object.keys(variables).map((v) => `{{${v}}}`).join(' ')}`);
+    }
+  }
+  for (const [name, def] of Object.entries(variables)) {
+    if (def.required && !used.has(name)) errors.push(`必须包含 {{${name}}}`);
+  }
+  return errors;
+}
+
+/** 替换 {{变量}}；没有取值的变量原样保留 */
+export function renderTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(VARIABLE_RE, (match, name: string) => values[name] ?? match);
+}
+
+function versionLabel(key: PromptKey, version: number): string {
+  return version === BUILTIN_VERSION ? `${key}@builtin` : `${key}@v${version}`;
+}
+
+/** 当前启用版本的内容；未启用过任何版本时为内置内容 */
+export function getActiveTemplate(key: PromptKey): { version: number; content: string } {
+  const version = getActivePromptState(key)?.version ?? BUILTIN_VERSION;
+  const row = version === BUILTIN_VERSION ? undefined : getPromptVersion(key, version);
+  return row ? { version, content: row.content } : { version: BUILTIN_VERSION, content: PROMPT_TEMPLATES[key].builtin };
+}
+
+export interface PromptContext {
+  /** 用户时区，用于 {{today}} */
+  timezone: string;
+  /** 额外变量，覆盖服务端默认值 */
+  variables?: Record<string, string>;
+}
+
+function variableValues(ctx: PromptContext): Record<string, string> {
+  return { safetyRules: SAFETY_RULES, today: todayIn(ctx.timezone), ...(ctx.variables ?? {}) };
+}
+
+export interface ResolvedPrompt {
+  text: string;
+  /** 产生该提示词的模板版本，写入 ai_results.prompt_version，如 diary@v3、diary@user+diary.format@builtin */
+  version: string;
+  /** 是否使用了用户覆盖内容 */
+  overridden: boolean;
+}
+
+/** 渲染某个模板：用户保存了覆盖内容时使用覆盖内容并追加 overrideSuffix 模板，否则使用当前启用的版本 */
+export function resolvePrompt(key: PromptKey, ctx: PromptContext & { userId?: number }): ResolvedPrompt {
+  const def = PROMPT_TEMPLATES[key];
+  const values = variableValues(ctx);
+  const override = def.overrideSuffix && ctx.userId ? getUserPromptOverride(ctx.userId, key) : undefined;
+  if (override && def.overrideSuffix) {
+    const suffix = getActiveTemplate(def.overrideSuffix);
+    return {
+      text: `${override.content}\n\n${renderTemplate(suffix.content, values)}`,
+      version: `${key}@user+${versionLabel(def.overrideSuffix, suffix.version)}`,
+      overridden: true,
+    };
+  }
+  const active = getActiveTemplate(key);
+  return { text: renderTemplate(active.content, values), version: versionLabel(key, active.version), overridden: false };
+}
+
+/** 预览渲染结果：未传入的变量取服务端实际值 */
+export function previewTemplate(content: string, timezone: string, variables?: Record<string, string>): string {
+  return renderTemplate(content, variableValues({ timezone, variables }));
+}
@@ -0,0 +1,115 @@
+// AI 配额：按 vip_level 区分每个接口的每日/每月次数上限，用量来自 ai_usage_daily
+import { config } from '../config';
+import { reserveAiUsage, releaseAiUsage, sumAiUsageByTask, sumAllAiUsageByTask } from '../db';
+import { LlmTask } from './llm';
+
+export const QUOTA_TASKS: LlmTask[] = ['daily', 'diary', 'counselorDiary', 'longTerm', 'goalSplit', 'fortune'];
+
+type QuotaTable = Record<LlmTask, number>;
+
+// 默认配额；-1 表示不限。部署时可用 AI_QUOTAS 覆盖
+const DEFAULT_QUOTAS: Record<string, { daily: QuotaTable; monthly: QuotaTable }> = {
+  free: {
+    daily: { daily: 5, diary: 3, counselorDiary: 1, longTerm: 1, goalSplit: 5, fortune: 10 },
+    monthly: { daily: 100, diary: 60, counselorDiary: 10, longTerm: 5, goalSplit: 60, fortune: 200 },
+  },
+  vip: {
+    daily: { daily: 30, diary: 20, counselorDiary: 5, longTerm: 5, goalSplit: 30, fortune: 50 },
+    monthly: { daily: 600, diary: 400, counselorDiary: 60, longTerm: 40, goalSplit: 500, fortune: 1000 },
+  },
+};
+
+export interface QuotaLimits {
+  daily: number;
+  monthly: number;
+}
+
+export interface QuotaStatus {
+  task: LlmTask;
+  daily: { limit: number; used: number; remaining: number; resetAt: string };
+  monthly: { limit: number; used: number; remaining: number; resetAt: string };
+}
+
+export function getQuotaLimits(vipLevel: string, task: LlmTask): QuotaLimits {
+  const level = DEFAULT_QUOTAS[vipLevel] ? vipLevel : 'free';
+  const override = config.quota.overrides[level] ?? {};
+  return {
+    daily: override.daily?.[task] ?? DEFAULT_QUOTAS[level].daily[task],
+    monthly: override.monthly?.[task] ?? DEFAULT_QUOTAS[level].monthly[task],
+  };
+}
+
+/** 按配置时区换算的“今天”与本月起止，以及下次重置时间（UTC ISO） */
+function quotaPeriods(now = new Date()) {
+  const offsetMs = config.quota.tzOffsetMinutes * 60_000;
+  const local = new Date(now.getTime() + offsetMs);
+  const day = local.toISOString().slice(0, 10);
+  const monthStart = `${day.slice(0, 7)}-01`;
+  const nextDay = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate() + 1) - offsetMs);
+  const nextMonth = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 1) - offsetMs);
+  return { day, monthStart, dayResetAt: nextDay.toISOString(), monthResetAt: nextMonth.toISOString() };
+}
+
+function remainingOf(limit: number, used: number): number {
+  return limit < 0 ? -1 : Math.max(limit - used, 0);
+}
+
+function buildStatus(
+  task: LlmTask,
+  limits: QuotaLimits,
+  usedToday: number,
+  usedMonth: number,
+  p: ReturnType<typeof quotaPeriods>
+): QuotaStatus {
+  return {
+    task,
+    daily: { limit: limits.daily, used: usedToday, remaining: remainingOf(limits.daily, usedToday), resetAt: p.dayResetAt },
+    monthly: {
+      limit: limits.monthly,
+      used: usedMonth,
+      remaining: remainingOf(limits.monthly, usedMonth),
+      resetAt: p.monthResetAt,
+    },
+  };
+}
+
+/** 所有接口的用量与剩余（/api/usage） */
+export function getUsageSummary(userId: number, vipLevel: string): QuotaStatus[] {
+  const p = quotaPeriods();
+  const today = sumAiUsageByTask(userId, p.day, p.day);
+  const month = sumAiUsageByTask(userId, p.monthStart, p.day);
+  return QUOTA_TASKS.map((task) =>
+    buildStatus(task, getQuotaLimits(vipLevel, task), today[task] ?? 0, month[task] ?? 0, p)
+  );
+}
+
+/** 全站各接口今日/本月调用次数（管理后台统计） */
+export function getServiceUsage(): { today: Record<string, number>; month: Record<string, number> } {
+  const p = quotaPeriods();
+  return { today: sumAllAiUsageByTask(p.day, p.day), month: sumAllAiUsageByTask(p.monthStart, p.day) };
+}
+
+export interface QuotaReservation {
+  /** 预占后的用量与剩余；额度已用完时为当前状态 */
+  status: QuotaStatus;
+  /** 已用完的周期；为 null 时已预占一次用量 */
+  exhausted: 'daily' | 'monthly' | null;
+  /** 预占计入的日期，退回时用它（请求跨过零点也退回同一天） */
+  day: string;
+}
+
+/** 检查配额并预占一次用量；请求最终不计费时调用 refundAiUsage 退回 */
+export function reserveQuota(userId: number, vipLevel: string, task: LlmTask): QuotaReservation {
+  const p = quotaPeriods();
+  const limits = getQuotaLimits(vipLevel, task);
+  const { usedToday, usedMonth, reserved } = reserveAiUsage(userId, task, p.day, p.monthStart, limits);
+  const charged = reserved ? 1 : 0;
+  const status = buildStatus(task, limits, usedToday + charged, usedMonth + charged, p);
+  let exhausted: QuotaReservation['exhausted'] = null;
+  if (!reserved) exhausted = status.daily.remaining === 0 ? 'daily' : 'monthly';
+  return { status, exhausted, day: p.day };
+}
+
+export function refundAiUsage(userId: number, task: LlmTask, day: string): void {
+  releaseAiUsage(userId, task, day);
+}
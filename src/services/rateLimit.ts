@@ -0,0 +1,37 @@
+// 进程内固定窗口限流：用于 AI 接口的突发保护（单实例部署足够；多实例需换成共享存储）
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+const windows = new Map<string, Window>();
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+/** 命中一次；超过 limit 时 allowed 为 false（被拒绝的请求不计数） */
+export function hitRateLimit(key: string, limit: number, windowMs: number, now = Date.now()): RateLimitResult {
+  let w = windows.get(key);
+  if (!w || w.resetAt <= now) {
+    w = { count: 0, resetAt: now + windowMs };
+    windows.set(key, w);
+  }
+  if (w.count >= limit) {
+    return { allowed: false, limit, remaining: 0, resetAt: w.resetAt };
+  }
+  w.count += 1;
+  return { allowed: true, limit, remaining: limit - w.count, resetAt: w.resetAt };
+}
+
+// 定期清理过期窗口，避免 key 无限增长
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, w] of windows) {
+    if (w.resetAt <= now) windows.delete(key);
+  }
+}, 60_000).unref();
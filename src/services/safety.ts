@@ -0,0 +1,177 @@
+// 心理风险识别：本地规则词库（不经过大模型），对用户输入与模型输出分级，并给出求助资源
+// 规则宁可误报也不漏报；命中高风险时不把内容交给大模型“略过”，而是直接给出求助信息
+import { config } from '../config';
+import { insertSafetyEvent } from '../db';
+import { createLogger, errorFields } from './logger';
+
+const log = createLogger('safety');
+
+export type RiskLevel = 'none' | 'low' | 'medium' | 'high';
+
+/** ideation 轻生念头；suicide 直接提及；method 方式/手段；plan 准备行为；selfHarm 自伤；despair 绝望；distress 一般痛苦；encouragement 鼓动（仅模型输出） */
+export type RiskCategory =
+  | 'ideation'
+  | 'suicide'
+  | 'method'
+  | 'plan'
+  | 'selfHarm'
+  | 'despair'
+  | 'distress'
+  | 'encouragement';
+
+export interface SafetyAssessment {
+  level: RiskLevel;
+  categories: RiskCategory[];
+  matchCount: number;
+}
+
+export type SafetyAction = 'blocked' | 'withheld' | 'notice';
+
+export interface SafetyResource {
+  name: string;
+  phone: string;
+  hours?: string;
+  description?: string;
+}
+
+/** 接口返回的 safety 块 */
+export interface SafetyBlock {
+  level: RiskLevel;
+  action: SafetyAction;
+  message: string;
+  resources: SafetyResource[];
+}
+
+interface LexiconRule {
+  pattern: RegExp;
+  level: Exclude<RiskLevel, 'none'>;
+  category: RiskCategory;
+  /** 前面紧跟否定词（如“不会自杀”“不想死”）时不计 */
+  negatable?: boolean;
+}
+
+const LEXICON: LexiconRule[] = [
+  // “想死你了”“跳楼价”等口语用法排除在外
+  { pattern: /想(要)?(去)?死(?![你他她它]|我了)/g, level: 'high', category: 'ideation', negatable: true },
+  { pattern: /不想活|活不下去了|不如死了|死了算了|死了就(解脱|好了)/g, level: 'high', category: 'ideation' },
+  { pattern: /活着(真)?没(有)?(意义|意思)|离开这个世界|告别这个世界|结束这一切/g, level: 'high', category: 'ideation' },
+  { pattern: /自杀|轻生|寻死|自尽|结束(自己的)?生命|了[结断]自己|自我了断/g, level: 'high', category: 'suicide', negatable: true },
+  { pattern: /割腕|跳楼(?!价)|跳河|跳桥|上吊|烧炭|服毒|喝农药|卧轨/g, level: 'high', category: 'method', negatable: true },
+  { pattern: /(吃|吞|攒|囤)(了)?(很多|一堆|一把)?(安眠药|药片)/g, level: 'high', category: 'method', negatable: true },
+  { pattern: /遗书|写好遗言|安排(好)?后事/g, level: 'high', category: 'plan' },
+  { pattern: /自残|自伤|伤害自己|割(伤)?自己|划(伤)?自己|打自己|撞墙/g, level: 'medium', category: 'selfHarm', negatable: true },
+  { pattern: /撑不下去|活(着|得)(好|太|真)累|没有(任何)?希望|绝望|没人在乎我|我是(个)?累赘|想消失|消失就好了/g, level: 'medium', category: 'despair' },
+  { pattern: /崩溃|好痛苦|很痛苦|抑郁|失眠|孤独|喘不过气/g, level: 'low', category: 'distress' },
+];
+
+/** 模型输出只看方式描述与鼓动类内容（支持性的回复本身会提到“轻生”等词） */
+const OUTPUT_LEXICON: LexiconRule[] = [
+  ...LEXICON.filter((r) => r.category === 'method'),
+  { pattern: /(你|就)(可以|应该)?去死|不如(去)?死了|死了(也)?(更好|解脱)/g, level: 'high', category: 'encouragement' },
+];
+
+const NEGATION_RE = /(不会|不要|不|别|没有?想过|从没想过|防止|预防)$/;
+const LEVEL_ORDER: RiskLevel[] = ['none', 'low', 'medium', 'high'];
+
+const DEFAULT_RESOURCES: SafetyResource[] = [
+  { name: '全国心理援助热线', phone: '12356', hours: '24 小时' },
+  { name: '希望 24 热线', phone: '400-161-9995', hours: '24 小时' },
+  { name: '北京心理危机研究与干预中心', phone: '010-82951332', hours: '24 小时' },
+  { name: '紧急情况', phone: '110 / 120', description: '正处于危险中时请立即拨打' },
+];
+
+const MESSAGES: Record<SafetyAction, string> = {
+  blocked:
+    '我们注意到你写下了一些让人担心的话。你的感受很重要，你不必一个人扛着。' +
+    '如果你正有伤害自己的想法，请现在就拨打下面的热线，或联系身边信任的人陪着你。',
+  notice: '看起来你最近承受了很多。如果难受的感觉一直持续，和专业的人聊一聊会有帮助，下面的热线随时可以拨打。',
+  withheld: '这次生成的内容不适合展示，已为你隐藏。如果你正在经历困难，下面的热线随时可以拨打。',
+};
+
+function maxLevel(a: RiskLevel, b: RiskLevel): RiskLevel {
+  return LEVEL_ORDER.indexOf(a) >= LEVEL_ORDER.indexOf(b) ? a : b;
+}
+
+function assess(texts: string[], lexicon: LexiconRule[]): SafetyAssessment {
+  let level: RiskLevel = 'none';
+  const categories = new Set<RiskCategory>();
+  let matchCount = 0;
+  for (const raw of texts) {
+    // 去掉空白，避免用空格拆开关键词绕过
+    const text = raw.replace(/\s+/g, '');
+    for (const rule of lexicon) {
+      for (const m of text.matchAll(rule.pattern)) {
+        const before = text.slice(Math.max(0, (m.index ?? 0) - 5), m.index);
+        if (rule.negatable && NEGATION_RE.test(before)) continue;
+        matchCount += 1;
+        categories.add(rule.category);
+        level = maxLevel(level, rule.level);
+      }
+    }
+  }
+  return { level, categories: [...categories], matchCount };
+}
+
+/** 用户输入（日记碎片等） */
+export function assessTexts(texts: string[]): SafetyAssessment {
+  return assess(texts, LEXICON);
+}
+
+/** 模型输出 */
+export function assessModelOutput(text: string): SafetyAssessment {
+  return assess([text], OUTPUT_LEXICON);
+}
+
+/** 从请求体中递归收集 text 字段（entries / folders[].entries 等结构通用） */
+export function collectEntryTexts(value: unknown, depth = 0): string[] {
+  if (depth > 5 || !value || typeof value !== 'object') return [];
+  if (Array.isArray(value)) return value.flatMap((v) => collectEntryTexts(v, depth + 1));
+  const out: string[] = [];
+  for (const [k, v] of Object.entries(value)) {
+    if (k === 'text' && typeof v === 'string') out.push(v);
+    else if (v && typeof v === 'object') out.push(...collectEntryTexts(v, depth + 1));
+  }
+  return out;
+}
+
+/** 输入高风险：不调用大模型；中风险：正常生成并附带提示 */
+export function inputAction(assessment: SafetyAssessment): SafetyAction | undefined {
+  if (assessment.level === 'high') return 'blocked';
+  if (assessment.level === 'medium') return 'notice';
+  return undefined;
+}
+
+/** 输出高风险：隐藏模型内容 */
+export function outputAction(assessment: SafetyAssessment): SafetyAction | undefined {
+  return assessment.level === 'high' ? 'withheld' : undefined;
+}
+
+export function buildSafetyBlock(assessment: SafetyAssessment, action: SafetyAction): SafetyBlock {
+  return {
+    level: assessment.level,
+    action,
+    message: MESSAGES[action],
+    resources: config.safety.resources ?? DEFAULT_RESOURCES,
+  };
+}
+
+/** 匿名审计：不含用户 id 与原文 */
+export function recordSafetyEvent(
+  kind: string,
+  stage: 'input' | 'output',
+  assessment: SafetyAssessment,
+  action: SafetyAction
+): void {
+  try {
+    insertSafetyEvent({
+      kind,
+      stage,
+      level: assessment.level,
+      categories: assessment.categories,
+      matchCount: assessment.matchCount,
+      action,
+    });
+  } catch (e) {
+    log.error('写入审计记录失败', errorFields(e));
+  }
+}
@@ -0,0 +1,72 @@
+// 搜索结果整理：解密命中文档的正文，截取命中位置附近的片段并标出高亮区间
+import { searchUserDocs, openSearchDoc, SearchDocRow, SearchQuery } from '../db';
+
+// 片段长度与命中词之前保留的字数
+const SNIPPET_LENGTH = 80;
+const SNIPPET_LEAD = 20;
+const ELLIPSIS = '…';
+
+/** 查询词按空白拆分，去重，长的在前（重叠时优先高亮长词） */
+export function splitSearchTerms(q: string): string[] {
+  return [...new Set(q.toLowerCase().split(/\s+/).filter(Boolean))].sort((a, b) => b.length - a.length);
+}
+
+/** 文本中所有命中区间（按起点排序、已合并重叠部分） */
+function findMatches(text: string, terms: string[]): Array<[number, number]> {
+  const lower = text.toLowerCase();
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    for (let i = lower.indexOf(term); i >= 0; i = lower.indexOf(term, i + term.length)) {
+      ranges.push([i, i + term.length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const r of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1]);
+    else merged.push([r[0], r[1]]);
+  }
+  return merged;
+}
+
+/**
+ * 截取片段：从第一个命中位置前 SNIPPET_LEAD 字开始，最长 SNIPPET_LENGTH 字，被截断的一侧加省略号
+ * highlights 为片段内命中区间 [start, end)（按 UTF-16 下标，可直接用于 slice）
+ */
+export function buildSnippet(text: string, terms: string[]): { snippet: string; highlights: Array<[number, number]> } {
+  const matches = findMatches(text, terms);
+  const first = matches[0]?.[0] ?? 0;
+  const start = Math.max(0, Math.min(first - SNIPPET_LEAD, text.length - SNIPPET_LENGTH));
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? ELLIPSIS : '';
+  const snippet = prefix + text.slice(start, end) + (end < text.length ? ELLIPSIS : '');
+  const highlights = matches
+    .filter(([s, e]) => s < end && e > start)
+    .map(([s, e]): [number, number] => [Math.max(s, start) - start + prefix.length, Math.min(e, end) - start + prefix.length]);
+  return { snippet, highlights };
+}
+
+function toSearchResultDto(row: SearchDocRow, terms: string[]) {
+  const content = openSearchDoc(row);
+  return {
+    kind: row.kind,
+    source: row.origin,
+    /** 云端目标为目标 id，AI 结果为结果 id（可用于 /api/ai-results/:id）；其余为 null，按 date 定位 */
+    ref: row.origin === 'goal' || row.origin === 'ai_result' ? row.ref : null,
+    date: row.date,
+    type: content.type,
+    timestamp: content.timestamp,
+    ...buildSnippet(content.text, terms),
+  };
+}
+
+/** 执行搜索；cursor 为下一页的偏移量 */
+export function searchForUser(userId: number, query: SearchQuery) {
+  const { rows, hasMore } = searchUserDocs(userId, query);
+  const terms = splitSearchTerms(query.q);
+  return {
+    items: rows.map((r) => toSearchResultDto(r, terms)),
+    nextCursor: hasMore ? String(query.offset + rows.length) : null,
+  };
+}
@@ -0,0 +1,95 @@
+// 登录会话：短期 access token（JWT，携带会话 id）+ 服务端保存的轮换 refresh token
+import crypto from 'crypto';
+import jwt, { SignOptions, Secret } from 'jsonwebtoken';
+import { config } from '../config';
+import {
+  createAuthSession,
+  rotateRefreshToken,
+  getUserById,
+  AuthSessionInput,
+  AuthSessionRow,
+  UserRow,
+} from '../db';
+
+export interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+  sessionId: string;
+  /** access token 有效期，如 '15m' */
+  expiresIn: string;
+  refreshExpiresAt: string;
+}
+
+export type RefreshOutcome =
+  | { ok: true; user: UserRow; tokens: IssuedTokens }
+  | { ok: false; reason: 'invalid' | 'reused' };
+
+function hashRefreshToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function newRefreshToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function refreshExpiresAt(): string {
+  return new Date(Date.now() + config.jwt.refreshTtlDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function signAccessToken(user: UserRow, sessionId: string): string {
+  return jwt.sign(
+    { userId: user.id, wxOpenId: user.wx_open_id, sid: sessionId },
+    config.jwt.secret as Secret,
+    { expiresIn: config.jwt.expiresIn } as SignOptions
+  );
+}
+
+/** 登录时为当前设备创建新会话 */
+export function issueSession(user: UserRow, input: AuthSessionInput): IssuedTokens {
+  const sessionId = crypto.randomUUID();
+  const refreshToken = newRefreshToken();
+  const session = createAuthSession(sessionId, user.id, hashRefreshToken(refreshToken), refreshExpiresAt(), input);
+  return {
+    token: signAccessToken(user, sessionId),
+    refreshToken,
+    sessionId,
+    expiresIn: config.jwt.expiresIn,
+    refreshExpiresAt: session.expires_at,
+  };
+}
+
+/** 用 refresh token 换新的 access/refresh token；重放已轮换的 token 会撤销整个会话 */
+export function refreshSession(refreshToken: string, meta: { userAgent?: string; ip?: string }): RefreshOutcome {
+  const nextToken = newRefreshToken();
+  const result = rotateRefreshToken(hashRefreshToken(refreshToken), hashRefreshToken(nextToken), refreshExpiresAt(), meta);
+  if (result.status !== 'ok') {
+    return { ok: false, reason: result.status };
+  }
+  const user = getUserById(result.session.user_id);
+  if (!user) return { ok: false, reason: 'invalid' };
+  return {
+    ok: true,
+    user,
+    tokens: {
+      token: signAccessToken(user, result.session.id),
+      refreshToken: nextToken,
+      sessionId: result.session.id,
+      expiresIn: config.jwt.expiresIn,
+      refreshExpiresAt: result.session.expires_at,
+    },
+  };
+}
+
+export function toSessionDto(row: AuthSessionRow, currentSessionId?: string) {
+  return {
+    id: row.id,
+    deviceName: row.device_name ?? undefined,
+    platform: row.platform ?? undefined,
+    userAgent: row.user_agent ?? undefined,
+    ip: row.ip ?? undefined,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    expiresAt: row.expires_at,
+    current: row.id === currentSessionId,
+  };
+}
@@ -0,0 +1,198 @@
+// 用户设置：users.settings 的版本化结构、默认值、校验与 JSON Merge Patch（RFC 7396）
+import { config } from '../config';
+import { getUserById, updateUserSettings } from '../db';
+
+// 2：移除 diaryCustomPrompt（已迁为 diary 模板的用户覆盖，见 /api/prompts/overrides）
+export const SETTINGS_VERSION = 2;
+
+export type AiPersona = 'gentle' | 'friend' | 'counselor' | 'mentor';
+export type SettingsLanguage = 'zh-CN' | 'en-US';
+
+export interface PrivacySettings {
+  /** 保存 AI 生成结果（关闭后不缓存、不写入 ai_results） */
+  saveAiResults: boolean;
+  /** 提醒通知中隐藏记录内容 */
+  hideContentInNotifications: boolean;
+  /** 允许匿名使用统计 */
+  allowAnalytics: boolean;
+}
+
+export interface UserSettings {
+  version: number;
+  /** 自选的 AI provider，需在 LLM_USER_PROVIDERS 白名单内；null 表示使用部署默认 */
+  aiProvider: string | null;
+  aiPersona: AiPersona;
+  /** 每日提醒时间 HH:mm；null 表示不提醒 */
+  reminderTime: string | null;
+  /** IANA 时区，如 Asia/Shanghai */
+  timezone: string;
+  language: SettingsLanguage;
+  privacy: PrivacySettings;
+}
+
+export interface SettingsFieldError {
+  field: string;
+  message: string;
+}
+
+export const AI_PERSONAS: AiPersona[] = ['gentle', 'friend', 'counselor', 'mentor'];
+export const SETTINGS_LANGUAGES: SettingsLanguage[] = ['zh-CN', 'en-US'];
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  version: SETTINGS_VERSION,
+  aiProvider: null,
+  aiPersona: 'gentle',
+  reminderTime: null,
+  timezone: 'Asia/Shanghai',
+  language: 'zh-CN',
+  privacy: {
+    saveAiResults: true,
+    hideContentInNotifications: false,
+    allowAnalytics: false,
+  },
+};
+
+function isValidTimezone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function booleanField(value: unknown): string | undefined {
+  return typeof value === 'boolean' ? undefined : '需为 true/false';
+}
+
+/** 各字段校验：返回错误信息，合法时返回 undefined；null 在 merge patch 中表示恢复默认，不经过这里 */
+const FIELD_VALIDATORS: Record<string, (value: unknown) => string | undefined> = {
+  aiProvider: (v) =>
+    typeof v === 'string' && config.llm.userSelectableProviders.includes(v)
+      ? undefined
+      : config.llm.userSelectableProviders.length
+        ? `需为 ${config.llm.userSelectableProviders.join(' / ')} 之一`
+        : '当前部署不支持自选 AI 服务',
+  aiPersona: (v) =>
+    typeof v === 'string' && AI_PERSONAS.includes(v as AiPersona) ? undefined : `需为 ${AI_PERSONAS.join(' / ')} 之一`,
+  reminderTime: (v) => (typeof v === 'string' && TIME_RE.test(v) ? undefined : '需为 HH:mm 格式'),
+  timezone: (v) => (typeof v === 'string' && isValidTimezone(v) ? undefined : '需为有效的 IANA 时区，如 Asia/Shanghai'),
+  language: (v) =>
+    typeof v === 'string' && SETTINGS_LANGUAGES.includes(v as SettingsLanguage)
+      ? undefined
+      : `需为 ${SETTINGS_LANGUAGES.join(' / ')} 之一`,
+  'privacy.saveAiResults': booleanField,
+  'privacy.hideContentInNotifications': booleanField,
+  'privacy.allowAnalytics': booleanField,
+};
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+
+/**
+ * 从数据库中的 JSON 读取设置：非法或缺失的字段回退默认值
+ * 旧数据（无 version）只可能有 aiProvider，同样按字段读取
+ */
+export function parseSettings(raw: string | null | undefined): UserSettings {
+  let stored: Record<string, unknown> = {};
+  try {
+    const parsed = raw ? JSON.parse(raw) : {};
+    if (isPlainObject(parsed)) stored = parsed;
+  } catch {
+    // 非法 JSON 视为空设置
+  }
+  const storedPrivacy = isPlainObject(stored.privacy) ? stored.privacy : {};
+  const pick = <T>(field: string, value: unknown, fallback: T): T =>
+    value !== undefined && value !== null && !FIELD_VALIDATORS[field](value) ? (value as T) : fallback;
+
+  return {
+    version: SETTINGS_VERSION,
+    aiProvider: pick('aiProvider', stored.aiProvider, DEFAULT_SETTINGS.aiProvider),
+    aiPersona: pick('aiPersona', stored.aiPersona, DEFAULT_SETTINGS.aiPersona),
+    reminderTime: pick('reminderTime', stored.reminderTime, DEFAULT_SETTINGS.reminderTime),
+    timezone: pick('timezone', stored.timezone, DEFAULT_SETTINGS.timezone),
+    language: pick('language', stored.language, DEFAULT_SETTINGS.language),
+    privacy: {
+      saveAiResults: pick('privacy.saveAiResults', storedPrivacy.saveAiResults, DEFAULT_SETTINGS.privacy.saveAiResults),
+      hideContentInNotifications: pick(
+        'privacy.hideContentInNotifications',
+        storedPrivacy.hideContentInNotifications,
+        DEFAULT_SETTINGS.privacy.hideContentInNotifications
+      ),
+      allowAnalytics: pick('privacy.allowAnalytics', storedPrivacy.allowAnalytics, DEFAULT_SETTINGS.privacy.allowAnalytics),
+    },
+  };
+}
+
+export function getUserSettings(userId: number): UserSettings {
+  return parseSettings(getUserById(userId)?.settings);
+}
+
+/**
+ * 按 JSON Merge Patch 合并：对象逐层合并，null 表示恢复默认值
+ * 未知字段、只读字段（version）与不合法的值都会收集到 errors，有任一错误则不保存
+ */
+export function applySettingsPatch(
+  current: UserSettings,
+  patch: unknown
+): { settings: UserSettings; errors: SettingsFieldError[] } {
+  const errors: SettingsFieldError[] = [];
+  if (!isPlainObject(patch)) {
+    return { settings: current, errors: [{ field: '', message: '请求体需为 JSON 对象' }] };
+  }
+
+  const next: UserSettings = { ...current, privacy: { ...current.privacy } };
+  const target = next as unknown as Record<string, unknown>;
+  const defaults = DEFAULT_SETTINGS as unknown as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (key === 'version') {
+      errors.push({ field: key, message: '只读字段' });
+      continue;
+    }
+    if (key === 'privacy') {
+      if (value === null) {
+        next.privacy = { ...DEFAULT_SETTINGS.privacy };
+        continue;
+      }
+      if (!isPlainObject(value)) {
+        errors.push({ field: key, message: '需为对象' });
+        continue;
+      }
+      const privacy = next.privacy as unknown as Record<string, unknown>;
+      for (const [subKey, subValue] of Object.entries(value)) {
+        const field = `privacy.${subKey}`;
+        const validate = FIELD_VALIDATORS[field];
+        if (!validate) {
+          errors.push({ field, message: '未知的设置项' });
+        } else if (subValue === null) {
+          privacy[subKey] = (DEFAULT_SETTINGS.privacy as unknown as Record<string, unknown>)[subKey];
+        } else {
+          const message = validate(subValue);
+          if (message) errors.push({ field, message });
+          else privacy[subKey] = subValue;
+        }
+      }
+      continue;
+    }
+    const validate = FIELD_VALIDATORS[key];
+    if (key === 'diaryCustomPrompt') {
+      errors.push({ field: key, message: '已移除，请改用 PUT /api/prompts/overrides/diary 保存日记自定义指令' });
+    } else if (!validate) {
+      errors.push({ field: key, message: '未知的设置项' });
+    } else if (value === null) {
+      target[key] = defaults[key];
+    } else {
+      const message = validate(value);
+      if (message) errors.push({ field: key, message });
+      else target[key] = value;
+    }
+  }
+  return { settings: next, errors };
+}
+
+export function saveUserSettings(userId: number, settings: UserSettings): void {
+  updateUserSettings(userId, JSON.stringify(settings));
+}
@@ -0,0 +1,322 @@
+// 情绪统计：基于已保存的情绪饼干与同步快照做确定性聚合（不经过大模型），同样的数据得到同样的结果
+import { listEmotionDaysBetween, getSyncSnapshot } from '../db';
+import { DATE_RE, isValidDate } from './dates';
+
+export interface StatsRange {
+  from: string;
+  to: string;
+}
+
+export interface StatsEntry {
+  type?: unknown;
+  timestamp?: unknown;
+}
+
+export interface StatsDay {
+  date: string;
+  entries: StatsEntry[];
+}
+
+export interface MoodStats {
+  range: StatsRange & { days: number };
+  timezone: string;
+  totals: { entries: number; activeDays: number };
+  byType: Array<{ type: string; count: number }>;
+  daily: Array<{ date: string; count: number }>;
+  weekly: Array<{ weekStart: string; count: number; activeDays: number }>;
+  monthly: Array<{ month: string; count: number; activeDays: number }>;
+  streaks: { current: number; longest: number; longestFrom: string | null; longestTo: string | null };
+  timeOfDay: {
+    buckets: { night: number; morning: number; afternoon: number; evening: number; unknown: number };
+    byHour: number[];
+  };
+  enrichment: Array<{ id: string; name: string; count: number }>;
+  skills: Array<{ categoryId: string; count: number; avgLove: number | null; avgMastery: number | null }>;
+}
+
+export const MAX_STATS_DAYS = 731;
+const UNTYPED = '未分类';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toUtc(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`);
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(toUtc(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUtc(to) - toUtc(from)) / DAY_MS) + 1;
+}
+
+/** 某时区下的今天 YYYY-MM-DD */
+export function todayIn(timezone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(
+    new Date()
+  );
+}
+
+export const DEFAULT_STATS_DAYS = 90;
+
+/** 校验并补全统计区间：默认截至今天（用户时区）的最近 90 天；不合法时返回错误信息 */
+export function resolveStatsRange(from: unknown, to: unknown, timezone: string): StatsRange | string {
+  for (const [name, value] of [['from', from], ['to', to]] as const) {
+    if (value !== undefined && (typeof value !== 'string' || !isValidDate(value))) {
+      return `${name} 需为 YYYY-MM-DD 格式`;
+    }
+  }
+  const end = (to as string | undefined) ?? todayIn(timezone);
+  const start = (from as string | undefined) ?? addDays(end, -(DEFAULT_STATS_DAYS - 1));
+  if (start > end) return 'from 不能晚于 to';
+  if (daysBetween(start, end) > MAX_STATS_DAYS) return `统计区间不能超过 ${MAX_STATS_DAYS} 天`;
+  return { from: start, to: end };
+}
+
+function weekStartOf(date: string): string {
+  const dow = new Date(toUtc(date)).getUTCDay();
+  return addDays(date, -((dow + 6) % 7));
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+
+function entriesOf(day: unknown): StatsEntry[] {
+  if (Array.isArray(day)) return day.filter(isObject);
+  if (isObject(day) && Array.isArray(day.entries)) return day.entries.filter(isObject);
+  return [];
+}
+
+/** 快照中的 emotion_cookies：数组 [{ date, entries }] 或以日期为 key 的对象 */
+export function snapshotEmotionDays(value: unknown): StatsDay[] {
+  if (Array.isArray(value)) {
+    return value
+      .filter((d): d is Record<string, unknown> => isObject(d) && typeof d.date === 'string' && DATE_RE.test(d.date))
+      .map((d) => ({ date: d.date as string, entries: entriesOf(d) }));
+  }
+  if (isObject(value)) {
+    return Object.entries(value)
+      .filter(([date]) => DATE_RE.test(date))
+      .map(([date, day]) => ({ date, entries: entriesOf(day) }));
+  }
+  return [];
+}
+
+/** 记录中的日期：date（YYYY-MM-DD 开头）或毫秒时间戳 timestamp；无法识别返回 undefined */
+function recordDate(record: Record<string, unknown>): string | undefined {
+  if (typeof record.date === 'string' && DATE_RE.test(record.date.slice(0, 10))) return record.date.slice(0, 10);
+  if (typeof record.timestamp === 'number') return new Date(record.timestamp).toISOString().slice(0, 10);
+  return undefined;
+}
+
+function inRange(record: unknown, range: StatsRange): boolean {
+  if (!isObject(record)) return true;
+  const date = recordDate(record);
+  return !date || (date >= range.from && date <= range.to);
+}
+
+/**
+ * 丰容板块：以板块 id 为 key 的对象（值为记录数组，或 { name, records/items }），或带 categoryId/category 的记录数组
+ * 带日期的记录只统计区间内的
+ */
+export function aggregateEnrichment(value: unknown, range: StatsRange): MoodStats['enrichment'] {
+  const counts = new Map<string, { name: string; count: number }>();
+  const add = (id: string, name: string | undefined, n: number) => {
+    const item = counts.get(id) ?? { name: name ?? id, count: 0 };
+    if (name) item.name = name;
+    item.count += n;
+    counts.set(id, item);
+  };
+  if (Array.isArray(value)) {
+    for (const r of value) {
+      if (!isObject(r) || !inRange(r, range)) continue;
+      const id = r.categoryId ?? r.category ?? r.type;
+      if (typeof id === 'string') add(id, typeof r.categoryName === 'string' ? r.categoryName : undefined, 1);
+    }
+  } else if (isObject(value)) {
+    for (const [id, v] of Object.entries(value)) {
+      if (Array.isArray(v)) {
+        add(id, undefined, v.filter((r) => inRange(r, range)).length);
+      } else if (isObject(v)) {
+        const list = Array.isArray(v.records) ? v.records : Array.isArray(v.items) ? v.items : [];
+        add(id, typeof v.name === 'string' ? v.name : undefined, list.filter((r) => inRange(r, range)).length);
+      }
+    }
+  }
+  return [...counts.entries()]
+    .map(([id, { name, count }]) => ({ id, name, count }))
+    .sort((a, b) => b.count - a.count || a.id.localeCompare(b.id));
+}
+
+/**
+ * 技能树：递归查找带 love / mastery 数值的技能节点，分类取节点自身的 categoryId/category，
+ * 否则取所在分类（上层对象的 id 或顶层 key）
+ */
+export function aggregateSkills(value: unknown): MoodStats['skills'] {
+  const groups = new Map<string, { count: number; love: number[]; mastery: number[] }>();
+  const visit = (node: unknown, categoryId: string | undefined, depth: number) => {
+    if (depth > 6) return;
+    if (Array.isArray(node)) {
+      for (const item of node) visit(item, categoryId, depth + 1);
+      return;
+    }
+    if (!isObject(node)) return;
+    if (typeof node.love === 'number' || typeof node.mastery === 'number') {
+      const own = node.categoryId ?? node.category;
+      const id = typeof own === 'string' ? own : categoryId ?? 'other';
+      const g = groups.get(id) ?? { count: 0, love: [], mastery: [] };
+      g.count += 1;
+      if (typeof node.love === 'number') g.love.push(node.love);
+      if (typeof node.mastery === 'number') g.mastery.push(node.mastery);
+      groups.set(id, g);
+      return;
+    }
+    const nodeId = typeof node.id === 'string' ? node.id : undefined;
+    for (const [k, v] of Object.entries(node)) {
+      if (v && typeof v === 'object') visit(v, nodeId ?? categoryId ?? (depth === 0 ? k : undefined), depth + 1);
+    }
+  };
+  visit(value, undefined, 0);
+  const avg = (xs: number[]) => (xs.length ? Math.round((xs.reduce((a, b) => a + b, 0) / xs.length) * 100) / 100 : null);
+  return [...groups.entries()]
+    .map(([categoryId, g]) => ({ categoryId, count: g.count, avgLove: avg(g.love), avgMastery: avg(g.mastery) }))
+    .sort((a, b) => b.count - a.count || a.categoryId.localeCompare(b.categoryId));
+}
+
+/** 纯聚合：days 中同一日期只取第一次出现 */
+export function aggregateMoodStats(
+  days: StatsDay[],
+  range: StatsRange,
+  timezone: string,
+  extras: { enrichment?: unknown; skillTree?: unknown } = {}
+): MoodStats {
+  const byDate = new Map<string, StatsEntry[]>();
+  for (const d of days) {
+    if (d.date < range.from || d.date > range.to || byDate.has(d.date)) continue;
+    byDate.set(d.date, d.entries);
+  }
+
+  const hourFormat = new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: 'numeric', hourCycle: 'h23' });
+  const byType = new Map<string, number>();
+  const byHour = new Array<number>(24).fill(0);
+  let unknownTime = 0;
+  const daily: MoodStats['daily'] = [];
+  const weekly = new Map<string, { count: number; activeDays: number }>();
+  const monthly = new Map<string, { count: number; activeDays: number }>();
+  let total = 0;
+  let activeDays = 0;
+  let run = 0;
+  let longest = { length: 0, from: null as string | null, to: null as string | null };
+
+  const totalDays = daysBetween(range.from, range.to);
+  for (let i = 0; i < totalDays; i++) {
+    const date = addDays(range.from, i);
+    const entries = byDate.get(date) ?? [];
+    const count = entries.length;
+    daily.push({ date, count });
+
+    const week = weekly.get(weekStartOf(date)) ?? { count: 0, activeDays: 0 };
+    const month = monthly.get(date.slice(0, 7)) ?? { count: 0, activeDays: 0 };
+    week.count += count;
+    month.count += count;
+    if (count > 0) {
+      week.activeDays += 1;
+      month.activeDays += 1;
+      activeDays += 1;
+      run += 1;
+      if (run > longest.length) longest = { length: run, from: addDays(date, -(run - 1)), to: date };
+    } else {
+      run = 0;
+    }
+    weekly.set(weekStartOf(date), week);
+    monthly.set(date.slice(0, 7), month);
+    total += count;
+
+    for (const e of entries) {
+      const type = typeof e.type === 'string' && e.type.trim() ? e.type.trim() : UNTYPED;
+      byType.set(type, (byType.get(type) ?? 0) + 1);
+      if (typeof e.timestamp === 'number' && Number.isFinite(e.timestamp)) {
+        byHour[Number(hourFormat.format(new Date(e.timestamp))) % 24] += 1;
+      } else {
+        unknownTime += 1;
+      }
+    }
+  }
+
+  // 当前连续天数：截至区间最后一天；最后一天还没记录时从前一天往回数
+  let current = 0;
+  let cursor = (byDate.get(range.to)?.length ?? 0) > 0 ? range.to : addDays(range.to, -1);
+  while (cursor >= range.from && (byDate.get(cursor)?.length ?? 0) > 0) {
+    current += 1;
+    cursor = addDays(cursor, -1);
+  }
+
+  const sumHours = (from: number, to: number) => byHour.slice(from, to).reduce((a, b) => a + b, 0);
+  return {
+    range: { ...range, days: totalDays },
+    timezone,
+    totals: { entries: total, activeDays },
+    byType: [...byType.entries()]
+      .map(([type, count]) => ({ type, count }))
+      .sort((a, b) => b.count - a.count || a.type.localeCompare(b.type)),
+    daily,
+    weekly: [...weekly.entries()].map(([weekStart, w]) => ({ weekStart, ...w })),
+    monthly: [...monthly.entries()].map(([month, m]) => ({ month, ...m })),
+    streaks: { current, longest: longest.length, longestFrom: longest.from, longestTo: longest.to },
+    timeOfDay: {
+      buckets: {
+        night: sumHours(0, 6),
+        morning: sumHours(6, 12),
+        afternoon: sumHours(12, 18),
+        evening: sumHours(18, 24),
+        unknown: unknownTime,
+      },
+      byHour,
+    },
+    enrichment: aggregateEnrichment(extras.enrichment, range),
+    skills: aggregateSkills(extras.skillTree),
+  };
+}
+
+/**
+ * 读取用户已保存的数据并统计：同一日期依次取调用方传入的 days（如长期分析请求体里的 folders）、
+ * 云端按天存储的情绪饼干（VIP）、同步快照
+ * 丰容、技能树默认取同步快照，调用方传入时以传入为准
+ */
+export function computeMoodStats(
+  userId: number,
+  range: StatsRange,
+  timezone: string,
+  overrides: { days?: StatsDay[]; enrichment?: unknown; skillTree?: unknown } = {}
+): MoodStats {
+  const stored: StatsDay[] = listEmotionDaysBetween(userId, range.from, range.to).map((r) => {
+    let data: unknown = {};
+    try {
+      data = JSON.parse(r.data || '{}');
+    } catch {
+      // 损坏的数据按空记录统计
+    }
+    return { date: r.date, entries: entriesOf(data) };
+  });
+
+  let snapshot: Record<string, unknown> = {};
+  const row = getSyncSnapshot(userId);
+  if (row) {
+    try {
+      snapshot = JSON.parse(row.data || '{}') as Record<string, unknown>;
+    } catch {
+      // 忽略损坏的快照
+    }
+  }
+
+  return aggregateMoodStats(
+    [...(overrides.days ?? []), ...stored, ...snapshotEmotionDays(snapshot.emotion_cookies)],
+    range,
+    timezone,
+    {
+      enrichment: overrides.enrichment ?? snapshot.enrichment_data,
+      skillTree: overrides.skillTree ?? snapshot.skill_tree_data,
+    }
+  );
+}
@@ -0,0 +1,115 @@
+// 增量同步：快照 key 的差异比较，以及数组型 key 的冲突合并（emotion_cookies 按天、cookie_goals 按 id）
+
+type Snapshot = Record<string, unknown>;
+
+/** 比较两份快照，返回值有变化（含新增、删除）的 key */
+export function diffSnapshotKeys(prev: Snapshot, next: Snapshot): string[] {
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  return [...keys].filter((k) => JSON.stringify(prev[k]) !== JSON.stringify(next[k]));
+}
+
+interface DayLike {
+  date: string;
+  entries?: unknown[];
+  analysis?: unknown;
+  [k: string]: unknown;
+}
+
+function isDayLike(v: unknown): v is DayLike {
+  return !!v && typeof v === 'object' && typeof (v as DayLike).date === 'string';
+}
+
+function entryKey(e: unknown): string {
+  if (e && typeof e === 'object') {
+    const o = e as { id?: unknown; timestamp?: unknown; text?: unknown };
+    if (o.id !== undefined) return `id:${String(o.id)}`;
+    return `ts:${String(o.timestamp ?? '')}:${String(o.text ?? '')}`;
+  }
+  return JSON.stringify(e);
+}
+
+/** 同一天两边都有：entries 取并集（按 id 或 timestamp+text 去重），其余字段以客户端为准，缺失时保留服务端 */
+function mergeDay(server: DayLike, client: DayLike): DayLike {
+  const merged: DayLike = { ...server, ...client };
+  const seen = new Set<string>();
+  const entries: unknown[] = [];
+  for (const e of [...(server.entries ?? []), ...(client.entries ?? [])]) {
+    const k = entryKey(e);
+    if (seen.has(k)) continue;
+    seen.add(k);
+    entries.push(e);
+  }
+  entries.sort((a, b) => {
+    const ta = Number((a as { timestamp?: number })?.timestamp ?? 0);
+    const tb = Number((b as { timestamp?: number })?.timestamp ?? 0);
+    return ta - tb;
+  });
+  merged.entries = entries;
+  if (client.analysis === undefined && server.analysis !== undefined) merged.analysis = server.analysis;
+  return merged;
+}
+
+/**
+ * emotion_cookies 按天合并：支持数组 [{ date, entries, analysis }] 或以日期为 key 的对象
+ * 无法识别的结构返回 undefined，交由调用方按冲突处理
+ */
+function mergeEmotionCookies(server: unknown, client: unknown): unknown | undefined {
+  if (Array.isArray(server) && Array.isArray(client)) {
+    if (!server.every(isDayLike) || !client.every(isDayLike)) return undefined;
+    const byDate = new Map<string, DayLike>();
+    for (const d of server) byDate.set(d.date, d);
+    for (const d of client) {
+      const existed = byDate.get(d.date);
+      byDate.set(d.date, existed ? mergeDay(existed, d) : d);
+    }
+    return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+  }
+  if (
+    server && client &&
+    typeof server === 'object' && typeof client === 'object' &&
+    !Array.isArray(server) && !Array.isArray(client)
+  ) {
+    const out: Record<string, unknown> = { ...(server as Snapshot) };
+    for (const [date, day] of Object.entries(client as Snapshot)) {
+      const existed = out[date];
+      if (existed && typeof existed === 'object' && day && typeof day === 'object') {
+        const merged = mergeDay({ ...(existed as DayLike), date }, { ...(day as DayLike), date });
+        // 对象形态下日期本就是 key，原本没有 date 字段时不额外写入
+        const { date: _date, ...rest } = merged;
+        out[date] = 'date' in (day as object) ? merged : rest;
+      } else {
+        out[date] = day;
+      }
+    }
+    return out;
+  }
+  return undefined;
+}
+
+/** 按 id 合并的数组（如 cookie_goals）：并集，同 id 以客户端为准 */
+function mergeById(server: unknown, client: unknown): unknown | undefined {
+  if (!Array.isArray(server) || !Array.isArray(client)) return undefined;
+  const hasId = (v: unknown) => !!v && typeof v === 'object' && (v as { id?: unknown }).id !== undefined;
+  if (!server.every(hasId) || !client.every(hasId)) return undefined;
+  const byId = new Map<string, unknown>();
+  for (const item of server) byId.set(String((item as { id: unknown }).id), item);
+  for (const item of client) byId.set(String((item as { id: unknown }).id), item);
+  return [...byId.values()];
+}
+
+const MERGERS: Record<string, (server: unknown, client: unknown) => unknown | undefined> = {
+  emotion_cookies: mergeEmotionCookies,
+  cookie_goals: mergeById,
+};
+
+/**
+ * 尝试合并冲突 key；返回 undefined 表示该 key 不支持合并或结构无法识别
+ * 任一侧为空（删除）时不合并
+ */
+export function mergeSnapshotKey(key: string, server: unknown, client: unknown): unknown | undefined {
+  const merger = MERGERS[key];
+  if (!merger || server === undefined || server === null || client === undefined || client === null) {
+    return undefined;
+  }
+  return merger(server, client);
+}
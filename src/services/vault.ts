@@ -0,0 +1,69 @@
+// 密钥托管：用服务端主密钥（AES-256-GCM）加解密用户的 AI API Key，数据库中只保存密文
+import crypto from 'crypto';
+import { config } from '../config';
+import { getUserApiKey, UserApiKeyRow } from '../db';
+import { createLogger, errorFields } from './logger';
+
+const log = createLogger('vault');
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+
+export function isVaultConfigured(): boolean {
+  return !!config.vault.masterKey;
+}
+
+function getMasterKey(): Buffer {
+  if (!config.vault.masterKey) {
+    throw new Error('服务端未配置 AI_KEY_MASTER_KEY');
+  }
+  return crypto.createHash('sha256').update(config.vault.masterKey).digest();
+}
+
+/** 加密为 "v1:iv:tag:ciphertext"（各段 base64） */
+export function encryptSecret(plain: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, getMasterKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, iv.toString('base64'), tag.toString('base64'), encrypted.toString('base64')].join(':');
+}
+
+export function decryptSecret(payload: string): string {
+  const [version, iv, tag, encrypted] = payload.split(':');
+  if (version !== VERSION || !iv || !tag || !encrypted) {
+    throw new Error('密文格式不正确');
+  }
+  const decipher = crypto.createDecipheriv(ALGORITHM, getMasterKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8');
+}
+
+/** 展示用的掩码，如 sk-****a1b2 */
+export function maskSecret(plain: string): string {
+  if (plain.length <= 8) return '****';
+  return `${plain.slice(0, 3)}****${plain.slice(-4)}`;
+}
+
+export function toApiKeyStatus(row: UserApiKeyRow | undefined) {
+  return row
+    ? { configured: true, masked: row.key_hint, updatedAt: row.updated_at }
+    : { configured: false, masked: null, updatedAt: null };
+}
+
+/** 密钥状态（掩码），用于 /api/auth/me 与 /api/ai-key */
+export function getApiKeyStatus(userId: number, provider = 'deepseek') {
+  return toApiKeyStatus(getUserApiKey(userId, provider));
+}
+
+/** 取出用户托管的明文密钥；未托管或主密钥不可用时返回 undefined */
+export function getStoredApiKey(userId: number, provider = 'deepseek'): string | undefined {
+  const row = getUserApiKey(userId, provider);
+  if (!row || !isVaultConfigured()) return undefined;
+  try {
+    return decryptSecret(row.ciphertext);
+  } catch (e) {
+    log.error('解密用户密钥失败', { userId, ...errorFields(e) });
+    return undefined;
+  }
+}
@@ -0,0 +1,39 @@
+// VIP 会员：套餐定义与有效期判断（到期后在读取用户时惰性降级，见 expireVipIfNeeded）
+import { UserRow, VipOrderRow } from '../db';
+
+export type VipPlanId = 'monthly' | 'yearly';
+
+export interface VipPlan {
+  id: VipPlanId;
+  name: string;
+  months: number;
+  amountFen: number;
+}
+
+export const VIP_PLANS: Record<VipPlanId, VipPlan> = {
+  monthly: { id: 'monthly', name: '情绪饼干屋 VIP 月卡', months: 1, amountFen: 1200 },
+  yearly: { id: 'yearly', name: '情绪饼干屋 VIP 年卡', months: 12, amountFen: 9800 },
+};
+
+export function getVipPlan(id: unknown): VipPlan | undefined {
+  return typeof id === 'string' && Object.prototype.hasOwnProperty.call(VIP_PLANS, id)
+    ? VIP_PLANS[id as VipPlanId]
+    : undefined;
+}
+
+/** vip_level 为 vip 且未过期；vip_expires_at 为空视为长期有效（如后台手动开通） */
+export function isVipActive(user: UserRow, now = new Date().toISOString()): boolean {
+  return user.vip_level === 'vip' && (!user.vip_expires_at || user.vip_expires_at > now);
+}
+
+export function toOrderDto(row: VipOrderRow) {
+  return {
+    outTradeNo: row.out_trade_no,
+    plan: row.plan,
+    amountFen: row.amount_fen,
+    status: row.status,
+    paidAt: row.paid_at ?? undefined,
+    vipExpiresAt: row.vip_expires_at ?? undefined,
+    createdAt: row.created_at,
+  };
+}
@@ -1,6 +1,10 @@
 // 微信小程序登录与手机号：code 换 openid；手机号 code 换手机号（与 README 鉴权方案一致）
 import axios from 'axios';
 import { config } from '../config';
+import { createLogger, errorFields } from './logger';
+import { wechatRequestsTotal, wechatRequestDuration, secondsSince } from './metrics';
+
+const log = createLogger('wechat');
 
 const CODE2SESSION_URL = 'https://api.weixin.qq.com/sns/jscode2session';
 const TOKEN_URL = 'https://api.weixin.qq.com/cgi-bin/token';
@@ -12,6 +16,30 @@ export interface Code2SessionResult {
   unionid?: string;
 }
 
+/**
+ * 记录微信接口的耗时与结果：errcode 非 0 记为 wx_error，网络或 HTTP 错误记为 error
+ * 失败日志只含 errcode/errmsg，不含 code、openid 等参数
+ */
+export async function observeWechatCall<T extends { data: unknown }>(api: string, call: () => Promise<T>): Promise<T> {
+  const start = process.hrtime.bigint();
+  try {
+    const response = await call();
+    const seconds = secondsSince(start);
+    const { errcode, errmsg } = (response.data ?? {}) as { errcode?: number; errmsg?: string };
+    const outcome = errcode ? 'wx_error' : 'ok';
+    wechatRequestsTotal.inc({ api, outcome });
+    wechatRequestDuration.observe({ api }, seconds);
+    if (errcode) log.warn('微信接口返回错误', { api, errcode, errmsg, durationMs: Math.round(seconds * 1000) });
+    return response;
+  } catch (error) {
+    const seconds = secondsSince(start);
+    wechatRequestsTotal.inc({ api, outcome: 'error' });
+    wechatRequestDuration.observe({ api }, seconds);
+    log.warn('微信接口调用失败', { api, durationMs: Math.round(seconds * 1000), ...errorFields(error) });
+    throw error;
+  }
+}
+
 let cachedAccessToken: { token: string; expireAt: number } | null = null;
 
 async function getAccessToken(): Promise<string> {
@@ -21,18 +49,20 @@ async function getAccessToken(): Promise<string> {
   if (!config.wechat.appId || !config.wechat.secret) {
     throw new Error('未配置微信 AppID/Secret');
   }
-  const { data } = await axios.get<{
-    access_token?: string;
-    expires_in?: number;
-    errcode?: number;
-    errmsg?: string;
-  }>(TOKEN_URL, {
-    params: {
-      grant_type: 'client_credential',
-      appid: config.wechat.appId,
-      secret: config.wechat.secret,
-    },
-  });
+  const { data } = await observeWechatCall('token', () =>
+    axios.get<{
+      access_token?: string;
+      expires_in?: number;
+      errcode?: number;
+      errmsg?: string;
+    }>(TOKEN_URL, {
+      params: {
+        grant_type: 'client_credential',
+        appid: config.wechat.appId,
+        secret: config.wechat.secret,
+      },
+    })
+  );
   if (data.errcode || !data.access_token) {
     throw new Error(data.errmsg || `获取 access_token 失败: ${JSON.stringify(data)}`);
   }
@@ -47,20 +77,22 @@ export async function code2Session(code: string): Promise<Code2SessionResult> {
   if (!config.wechat.appId || !config.wechat.secret) {
     throw new Error('未配置微信 AppID/Secret');
   }
-  const { data } = await axios.get<{
-    openid?: string;
-    session_key?: string;
-    unionid?: string;
-    errcode?: number;
-    errmsg?: string;
-  }>(CODE2SESSION_URL, {
-    params: {
-      appid: config.wechat.appId,
-      secret: config.wechat.secret,
-      js_code: code,
-      grant_type: 'authorization_code',
-    },
-  });
+  const { data } = await observeWechatCall('code2session', () =>
+    axios.get<{
+      openid?: string;
+      session_key?: string;
+      unionid?: string;
+      errcode?: number;
+      errmsg?: string;
+    }>(CODE2SESSION_URL, {
+      params: {
+        appid: config.wechat.appId,
+        secret: config.wechat.secret,
+        js_code: code,
+        grant_type: 'authorization_code',
+      },
+    })
+  );
   if (data.errcode || !data.openid) {
     throw new Error(data.errmsg || `微信接口错误: ${JSON.stringify(data)}`);
   }
@@ -74,11 +106,13 @@ export async function code2Session(code: string): Promise<Code2SessionResult> {
 /** 使用 getPhoneNumber 返回的 code 换取手机号（需企业认证小程序） */
 export async function getPhoneNumber(phoneCode: string): Promise<{ phoneNumber: string; purePhoneNumber: string }> {
   const accessToken = await getAccessToken();
-  const { data } = await axios.post<{
-    errcode?: number;
-    errmsg?: string;
-    phone_info?: { phoneNumber: string; purePhoneNumber: string };
-  }>(`${GET_PHONE_URL}?access_token=${accessToken}`, { code: phoneCode });
+  const { data } = await observeWechatCall('getuserphonenumber', () =>
+    axios.post<{
+      errcode?: number;
+      errmsg?: string;
+      phone_info?: { phoneNumber: string; purePhoneNumber: string };
+    }>(`${GET_PHONE_URL}?access_token=${accessToken}`, { code: phoneCode })
+  );
   if (data.errcode || !data.phone_info) {
     throw new Error(data.errmsg || `获取手机号失败: ${JSON.stringify(data)}`);
   }
@@ -0,0 +1,180 @@
+// 微信支付 APIv3：JSAPI 下单、小程序调起支付参数签名、订单查询，以及支付回调的验签与解密
+import axios from 'axios';
+import crypto from 'crypto';
+import fs from 'fs';
+import { config } from '../config';
+import { observeWechatCall } from './wechat';
+
+export interface JsapiPayParams {
+  timeStamp: string;
+  nonceStr: string;
+  package: string;
+  signType: 'RSA';
+  paySign: string;
+}
+
+export interface WechatPayTransaction {
+  appid?: string;
+  mchid?: string;
+  out_trade_no: string;
+  transaction_id?: string;
+  trade_state: string; // SUCCESS | NOTPAY | CLOSED | REFUND | ...
+  amount?: { total: number; payer_total?: number; currency?: string };
+  payer?: { openid?: string };
+}
+
+let cachedPrivateKey: crypto.KeyObject | null = null;
+let cachedPlatformKey: crypto.KeyObject | null = null;
+
+export function isWechatPayConfigured(): boolean {
+  const c = config.wechatPay;
+  // 缺少平台证书时能下单却无法验证回调，微信会不断重试，因此一并要求
+  return !!(
+    config.wechat.appId &&
+    c.mchId &&
+    c.serialNo &&
+    c.privateKeyPath &&
+    c.apiV3Key &&
+    c.platformCertPath &&
+    c.notifyUrl
+  );
+}
+
+function getPrivateKey(): crypto.KeyObject {
+  if (!cachedPrivateKey) {
+    if (!config.wechatPay.privateKeyPath) throw new Error('未配置微信支付商户私钥');
+    cachedPrivateKey = crypto.createPrivateKey(fs.readFileSync(config.wechatPay.privateKeyPath));
+  }
+  return cachedPrivateKey;
+}
+
+function getPlatformKey(): crypto.KeyObject {
+  if (!cachedPlatformKey) {
+    if (!config.wechatPay.platformCertPath) throw new Error('未配置微信支付平台证书');
+    cachedPlatformKey = crypto.createPublicKey(fs.readFileSync(config.wechatPay.platformCertPath));
+  }
+  return cachedPlatformKey;
+}
+
+function nonce(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+function rsaSign(message: string): string {
+  return crypto.createSign('RSA-SHA256').update(message).sign(getPrivateKey(), 'base64');
+}
+
+/** APIv3 请求签名：METHOD\nURL\nTIMESTAMP\nNONCE\nBODY\n */
+function buildAuthorization(method: string, urlPath: string, body: string): string {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const nonceStr = nonce();
+  const signature = rsaSign(`${method}\n${urlPath}\n${timestamp}\n${nonceStr}\n${body}\n`);
+  return (
+    'WECHATPAY2-SHA256-RSA2048 ' +
+    `mchid="${config.wechatPay.mchId}",nonce_str="${nonceStr}",signature="${signature}",` +
+    `timestamp="${timestamp}",serial_no="${config.wechatPay.serialNo}"`
+  );
+}
+
+/** api 为指标与日志中的接口名（如 pay.jsapi），不含订单号等参数 */
+async function request<T>(api: string, method: 'GET' | 'POST', urlPath: string, payload?: unknown): Promise<T> {
+  const body = payload === undefined ? '' : JSON.stringify(payload);
+  try {
+    const { data } = await observeWechatCall(api, () =>
+      axios.request<T>({
+        method,
+        url: `${config.wechatPay.baseUrl}${urlPath}`,
+        data: payload === undefined ? undefined : body,
+        headers: {
+          Authorization: buildAuthorization(method, urlPath, body),
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+        },
+        timeout: 10_000,
+      })
+    );
+    return data;
+  } catch (e: any) {
+    const detail = e?.response?.data;
+    throw new Error(detail?.message || e?.message || `微信支付接口错误: ${JSON.stringify(detail)}`);
+  }
+}
+
+/** JSAPI 下单，返回 prepay_id */
+export async function createJsapiTransaction(params: {
+  outTradeNo: string;
+  description: string;
+  amountFen: number;
+  openid: string;
+}): Promise<string> {
+  const data = await request<{ prepay_id?: string }>('pay.jsapi', 'POST', '/v3/pay/transactions/jsapi', {
+    appid: config.wechat.appId,
+    mchid: config.wechatPay.mchId,
+    description: params.description,
+    out_trade_no: params.outTradeNo,
+    notify_url: config.wechatPay.notifyUrl,
+    amount: { total: params.amountFen, currency: 'CNY' },
+    payer: { openid: params.openid },
+  });
+  if (!data.prepay_id) {
+    throw new Error(`微信支付下单失败: ${JSON.stringify(data)}`);
+  }
+  return data.prepay_id;
+}
+
+/** 小程序 wx.requestPayment 所需参数 */
+export function buildJsapiPayParams(prepayId: string): JsapiPayParams {
+  const timeStamp = Math.floor(Date.now() / 1000).toString();
+  const nonceStr = nonce();
+  const pkg = `prepay_id=${prepayId}`;
+  return {
+    timeStamp,
+    nonceStr,
+    package: pkg,
+    signType: 'RSA',
+    paySign: rsaSign(`${config.wechat.appId}\n${timeStamp}\n${nonceStr}\n${pkg}\n`),
+  };
+}
+
+/** 按商户订单号查询支付状态（回调丢失时由客户端轮询触发） */
+export async function queryTransaction(outTradeNo: string): Promise<WechatPayTransaction> {
+  return request<WechatPayTransaction>(
+    'pay.query',
+    'GET',
+    `/v3/pay/transactions/out-trade-no/${encodeURIComponent(outTradeNo)}?mchid=${config.wechatPay.mchId}`
+  );
+}
+
+/** 校验回调签名：TIMESTAMP\nNONCE\nBODY\n，并拒绝 5 分钟以外的时间戳 */
+export function verifyNotifySignature(
+  headers: { timestamp?: string; nonce?: string; signature?: string },
+  rawBody: string
+): boolean {
+  const { timestamp, nonce: nonceStr, signature } = headers;
+  if (!timestamp || !nonceStr || !signature) return false;
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > 300) return false;
+  return crypto
+    .createVerify('RSA-SHA256')
+    .update(`${timestamp}\n${nonceStr}\n${rawBody}\n`)
+    .verify(getPlatformKey(), signature, 'base64');
+}
+
+/** 解密回调 resource（AEAD_AES_256_GCM，密钥为 APIv3 Key） */
+export function decryptNotifyResource(resource: {
+  algorithm?: string;
+  ciphertext: string;
+  associated_data?: string;
+  nonce: string;
+}): WechatPayTransaction {
+  if (resource.algorithm && resource.algorithm !== 'AEAD_AES_256_GCM') {
+    throw new Error(`不支持的回调加密算法: ${resource.algorithm}`);
+  }
+  const data = Buffer.from(resource.ciphertext, 'base64');
+  const authTag = data.subarray(data.length - 16);
+  const encrypted = data.subarray(0, data.length - 16);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', Buffer.from(config.wechatPay.apiV3Key, 'utf8'), Buffer.from(resource.nonce, 'utf8'));
+  decipher.setAuthTag(authTag);
+  if (resource.associated_data) decipher.setAAD(Buffer.from(resource.associated_data, 'utf8'));
+  const plain = Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  return JSON.parse(plain) as WechatPayTransaction;
+}